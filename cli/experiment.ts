@@ -0,0 +1,123 @@
+/* ---------------------------- Batch Experiment Runner ---------------------------- */
+
+// Runs a scenario over many seeds and parameter sweeps and reports the KPIs
+// with 95% confidence intervals:
+//   npm run experiment -- --scenario baselineDay --runs 20 --sweep robots=2..12 --csv out/robots.csv
+// Same scenario, seeds and sweeps => identical report.
+
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { SCENARIO_LIBRARY, parseScenario, type Scenario } from "../src/simulation/scenario";
+import {
+  DEFAULT_KPIS,
+  parseSweep,
+  reportToCsv,
+  runExperiment,
+  serializeReport,
+  type ExperimentReport,
+  type KpiSummary,
+} from "../src/simulation/experiment";
+import { parseSeed } from "../src/utils/rng";
+
+const USAGE = () => `Usage: npm run experiment -- --scenario <s> [options]
+
+Options:
+  --scenario <s>   Scenario to run: ${Object.keys(SCENARIO_LIBRARY).join(", ")} or a scenario file
+  --runs <n>       Seeds per variant (default 10)
+  --seed <value>   First seed; run i uses seed + i (default: the scenario's seed, else 1)
+  --sweep <p=v>    Vary a parameter, repeatable (variants are every combination):
+                     robots=2..12, population.GUEST=12,20,30, dispatch=nearest-idle,auction, ticks=240,480
+  --kpi <n=path>   Extra KPI read from the final metrics, repeatable (e.g. occupancy=inventory.occupancyRate)
+  --csv <file>     Write one row per variant: means, confidence intervals and how many runs reported each
+  --json <file>    Write the full report, every run included
+  --help           Show this message
+
+Always reported: ${[...Object.keys(DEFAULT_KPIS), "robotUtilisation"].join(", ")}
+Averages leave out runs where nothing finished (no check-ins, tickets or jobs to average).
+`;
+
+const fail = (message: string): never => {
+  console.error(`[experiment] ${message}\n\n${USAGE()}`);
+  process.exit(1);
+};
+
+// Unknown flags and missing values get the usage, not a stack trace
+const parseOptions = () => {
+  try {
+    return parseArgs({
+      options: {
+        scenario: { type: "string" },
+        runs: { type: "string", default: "10" },
+        seed: { type: "string" },
+        sweep: { type: "string", multiple: true, default: [] },
+        kpi: { type: "string", multiple: true, default: [] },
+        csv: { type: "string" },
+        json: { type: "string" },
+        help: { type: "boolean", default: false },
+      },
+    }).values;
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+};
+const values = parseOptions();
+
+const loadScenario = async (name: string): Promise<Scenario> =>
+  SCENARIO_LIBRARY[name] ?? parseScenario(await readFile(name, "utf8"));
+
+// Runs that had nothing to average are left out, and the count says so
+const formatSummary = ({ n, mean, ciLow, ciHigh }: KpiSummary, runs: number) => {
+  if (n === 0) return "- (no run reported it)";
+  const value = n === 1 ? mean.toFixed(2) : `${mean.toFixed(2)} [${ciLow.toFixed(2)}, ${ciHigh.toFixed(2)}]`;
+  return n < runs ? `${value}  (n=${n} of ${runs})` : value;
+};
+
+const printReport = (report: ExperimentReport) => {
+  console.log(`SeedCore experiment: ${report.scenario}, ${report.variants.length} variants x ${report.seeds.length} seeds (${report.seeds[0]}-${report.seeds[report.seeds.length - 1]})`);
+  report.variants.forEach(({ params, runs, passRate, kpis }) => {
+    const label = Object.entries(params).map(([param, value]) => `${param}=${value}`).join(" ") || "baseline";
+    console.log(`  ${label}  (assertions passed in ${(passRate * 100).toFixed(0)}% of runs)`);
+    report.kpis.forEach((kpi) => console.log(`    ${kpi.padEnd(22)} ${formatSummary(kpis[kpi], runs.length)}`));
+  });
+};
+
+const main = async () => {
+  if (values.help) {
+    console.log(USAGE());
+    return;
+  }
+  if (!values.scenario) fail("--scenario is required");
+
+  const runs = Number(values.runs);
+  if (!Number.isInteger(runs) || runs < 1) fail(`--runs must be a positive integer, got "${values.runs}"`);
+
+  const scenario = await loadScenario(values.scenario as string);
+  const base = parseSeed(values.seed) ?? scenario.seed ?? 1;
+  const kpis = Object.fromEntries(values.kpi.map((entry) => {
+    const [name, path] = entry.split("=", 2);
+    if (!name || !path) fail(`--kpi should look like name=metric.path, got "${entry}"`);
+    return [name, path];
+  }));
+
+  let report: ExperimentReport;
+  try {
+    report = runExperiment(
+      { scenario, seeds: Array.from({ length: runs }, (_, i) => base + i), sweeps: values.sweep.map(parseSweep), kpis },
+      (done, total) => process.stderr.write(`\r[experiment] run ${done}/${total}${done === total ? "\n" : ""}`)
+    );
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+
+  if (values.csv) await writeFile(values.csv, reportToCsv(report));
+  if (values.json) await writeFile(values.json, serializeReport(report));
+
+  printReport(report);
+  if (values.csv) console.log(`  wrote    ${values.csv}`);
+  if (values.json) console.log(`  wrote    ${values.json}`);
+};
+
+main().catch((error) => {
+  console.error("[experiment] Run failed:", error);
+  process.exit(1);
+});
@@ -0,0 +1,256 @@
+/* ---------------------------- Headless Simulation Runner ---------------------------- */
+
+// Runs the hotel without a browser:
+//   npm run sim -- --ticks 480 --seed 42 --events out/events.jsonl
+// Same seed + same ticks => identical metrics and event stream.
+
+import { createWriteStream } from "node:fs";
+import { readFile, writeFile } from "node:fs/promises";
+import { parseArgs } from "node:util";
+import { SimulationEngine, type SimulationMetrics } from "../src/simulation/simulationEngine";
+import { DEFAULT_DISPATCH_STRATEGY, listDispatchStrategies } from "../src/simulation/dispatcher";
+import { parseSnapshot, serializeSnapshot } from "../src/simulation/snapshot";
+import { SessionRecorder, serializeRecording } from "../src/simulation/replay";
+import { MetricsCollector, samplesToCsv, serializeCollectedMetrics } from "../src/simulation/metricsCollector";
+import { parseLayout } from "../src/simulation/layout";
+import {
+  SCENARIO_LIBRARY,
+  checkAssertions,
+  createScenarioEngine,
+  parseScenario,
+  type AssertionResult,
+  type Scenario,
+} from "../src/simulation/scenario";
+import type { LayoutReport } from "../src/simulation/layoutValidation";
+import { parseSeed } from "../src/utils/rng";
+import { formatTimeOfDay } from "../src/utils/timeOfDay";
+
+const USAGE = () => `Usage: npm run sim -- [options]
+
+Options:
+  --ticks <n>      Ticks to simulate (default 480 = one sim day, or the scenario's length)
+  --seed <value>   Numeric or word seed (default: random, printed)
+  --agents <n>     Guests the hotel opens with (default 12; staff and robots keep their default counts)
+  --layout <file>  Build the hotel from a layout file (default: the Grand Atrium)
+  --scenario <s>   Run a scenario: ${Object.keys(SCENARIO_LIBRARY).join(", ")} or a scenario file (status 1 if an assertion fails)
+  --dispatch <s>   Robot dispatch strategy: ${listDispatchStrategies().join(", ")} (default ${DEFAULT_DISPATCH_STRATEGY})
+  --events <file>  Write the sim event stream as JSON lines
+  --from <file>    Resume from a snapshot (seed and agents come from the snapshot)
+  --save <file>    Write a snapshot of the final state
+  --record <file>  Write a replayable session recording (open it in the Director's replay mode)
+  --metrics <file> Write per-tick metrics: the full JSON export, or the time series if the name ends in .csv
+  --validate       Check the hotel layout and exit (status 1 if it has issues)
+  --json           Print final metrics (or the --validate report) as JSON
+  --help           Show this message
+`;
+
+const fail = (message: string): never => {
+  console.error(`[sim] ${message}\n\n${USAGE()}`);
+  process.exit(1);
+};
+
+// Unknown flags and missing values get the usage, not a stack trace
+const parseOptions = () => {
+  try {
+    return parseArgs({
+      options: {
+        ticks: { type: "string" },
+        seed: { type: "string" },
+        agents: { type: "string" },
+        layout: { type: "string" },
+        scenario: { type: "string" },
+        dispatch: { type: "string" },
+        events: { type: "string" },
+        from: { type: "string" },
+        save: { type: "string" },
+        record: { type: "string" },
+        metrics: { type: "string" },
+        validate: { type: "boolean", default: false },
+        json: { type: "boolean", default: false },
+        help: { type: "boolean", default: false },
+      },
+    }).values;
+  } catch (error) {
+    return fail((error as Error).message);
+  }
+};
+const values = parseOptions();
+
+const toCount = (value: string, name: string) => {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 0) fail(`--${name} must be a non-negative integer, got "${value}"`);
+  return n;
+};
+
+const formatCounts = (counts: Record<string, number>) =>
+  Object.entries(counts)
+    .sort(([, a], [, b]) => b - a)
+    .map(([key, n]) => `${key} ${n}`)
+    .join(", ") || "-";
+
+const countIssues = (report: LayoutReport) =>
+  report.valid
+    ? "valid"
+    : `${report.issues.length} issues (${formatCounts(
+      report.issues.reduce<Record<string, number>>((counts, { code }) => ({ ...counts, [code]: (counts[code] ?? 0) + 1 }), {})
+    )}), see --validate`;
+
+const formatAssertion = ({ metric, op, value, actual, passed }: AssertionResult) =>
+  `${passed ? "pass" : "FAIL"} ${metric} ${op} ${value} (${actual === null ? "no such metric" : Number.isInteger(actual) ? actual : actual.toFixed(1)})`;
+
+const loadScenario = async (name: string): Promise<Scenario> =>
+  SCENARIO_LIBRARY[name] ?? parseScenario(await readFile(name, "utf8"));
+
+const printMetrics = (seed: number, startTime: number, metrics: SimulationMetrics, layout: LayoutReport) => {
+  console.log("SeedCore headless run");
+  console.log(`  seed     ${seed}`);
+  console.log(`  ticks    ${metrics.tick} (sim ${formatTimeOfDay(startTime)} -> ${formatTimeOfDay(metrics.timeOfDay)})`);
+  console.log(`  layout   ${countIssues(layout)}`);
+  console.log(`  roles    ${formatCounts(metrics.agentsByRole)}`);
+  console.log(`  states   ${formatCounts(metrics.agentsByState)}`);
+  const { guests } = metrics;
+  console.log(`  guests   ${guests.inHouse} in house, ${guests.queueLength} queueing, ${guests.arrivals} arrived, ${guests.checkIns} in / ${guests.checkOuts} out, ${guests.walkAways} walked away, avg queue ${guests.avgQueueTicks.toFixed(1)} ticks`);
+  const { inventory } = metrics;
+  console.log(`  rooms    ${formatCounts(inventory.rooms)} (occupancy ${(inventory.occupancyRate * 100).toFixed(0)}%)`);
+  console.log(`  bookings ${formatCounts(inventory.reservations)}, ${inventory.declined} declined, revenue ${inventory.revenue}`);
+  const { housekeeping } = metrics;
+  console.log(`  turnover ${housekeeping.completed} cleaned, avg ${housekeeping.avgTurnoverTicks.toFixed(1)} ticks, ${housekeeping.dirtyBacklog} dirty (${housekeeping.assignedTasks}/${housekeeping.openTasks} tasks assigned)`);
+  const { tickets } = metrics;
+  console.log(`  tickets  ${tickets.resolved} resolved (${tickets.pending} pending, ${tickets.active} active), avg response ${tickets.avgResponseTicks.toFixed(1)} / resolution ${tickets.avgResolutionTicks.toFixed(1)} ticks`);
+  const { dispatch } = metrics;
+  console.log(`  dispatch ${dispatch.strategy}: ${dispatch.completed}/${dispatch.created} jobs done, ${dispatch.queueLength} queued, ${dispatch.inProgress} in progress, avg latency ${dispatch.avgAssignmentLatencyTicks.toFixed(1)} / completion ${dispatch.avgCompletionTicks.toFixed(1)} ticks`);
+  const { crowd } = metrics;
+  const waits = Object.entries(crowd.bottlenecks)
+    .map(([kind, w]) => `${kind} ${w.waits} (avg ${w.avgTicks.toFixed(1)})`)
+    .join(", ");
+  console.log(`  crowding ${waits} waits, longest ${crowd.longestWait} ticks, ${crowd.squeezes} squeezed past`);
+  const { elevators } = metrics;
+  if (elevators.cars > 0) {
+    console.log(`  lifts    ${elevators.cars} cars, ${elevators.rides} rides, avg wait ${elevators.avgWaitTicks.toFixed(1)} ticks, longest ${elevators.longestWait}, ${elevators.waitingNow} waiting (peak queue ${elevators.longestQueue})`);
+  }
+  const { latest } = metrics.incidents;
+  if (latest) {
+    const progress = latest.kind === "MEDICAL"
+      ? `patient ${latest.patientId ?? "-"}, response ${latest.responseTicks ?? "-"} ticks`
+      : `${latest.evacuated}/${latest.evacuees} out${latest.evacuationTicks !== undefined ? ` in ${latest.evacuationTicks} ticks` : ""}, avg egress ${latest.avgEgressTicks.toFixed(1)}, ${latest.stragglers.length} stragglers, ${latest.guided} guided`;
+    console.log(`  incident ${latest.incidentId} ${latest.kind} in ${latest.roomId} (${latest.status.toLowerCase()}): ${progress}`);
+  }
+  const { schedule } = metrics;
+  console.log(`  schedule ${schedule.periods.join(", ") || "-"}, atmosphere ${schedule.atmosphere} (${schedule.atmosphereSource.toLowerCase()})`);
+  const { mood } = metrics;
+  console.log(`  mood     guests ${mood.avgGuestSatisfaction.toFixed(1)}/100 (${formatCounts(mood.guests)}), robots ${formatCounts(mood.robots)}`);
+  const { fleet } = metrics;
+  console.log(`  fleet    avg ${fleet.average.toFixed(1)}%, lowest ${fleet.lowest.toFixed(1)}%, charging ${fleet.charging}/${fleet.robotCount}`);
+  console.log(`  escal.   ${metrics.escalations.open} open, ${metrics.escalations.resolved} resolved`);
+  console.log(`  events   ${formatCounts(metrics.eventCounts)}`);
+  const occupied = Object.fromEntries(Object.entries(metrics.roomOccupancy).filter(([, n]) => n > 0));
+  console.log(`  present  ${formatCounts(occupied)}`);
+};
+
+const main = async () => {
+  if (values.help) {
+    console.log(USAGE());
+    return;
+  }
+
+  const guests = values.agents !== undefined ? toCount(values.agents, "agents") : undefined;
+  if (values.dispatch !== undefined && !listDispatchStrategies().includes(values.dispatch)) {
+    fail(`--dispatch must be one of ${listDispatchStrategies().join(", ")}, got "${values.dispatch}"`);
+  }
+
+  if (values.from && values.layout) fail("--layout can't be combined with --from (the snapshot has its own hotel)");
+  if (values.scenario && (values.from || values.layout)) fail("--scenario can't be combined with --from or --layout (the scenario has its own hotel)");
+  if (guests !== undefined && (values.from || values.scenario)) fail("--agents can't be combined with --from or --scenario (they bring their own guests)");
+
+  let engine: SimulationEngine;
+  const scenario = values.scenario ? await loadScenario(values.scenario) : null;
+  if (scenario) {
+    const seed = parseSeed(values.seed) ?? scenario.seed ?? Math.floor(Math.random() * 2 ** 32);
+    engine = createScenarioEngine(scenario, seed);
+    if (values.dispatch) engine.setDispatchStrategy(values.dispatch);
+  } else if (values.from) {
+    const snapshot = parseSnapshot(await readFile(values.from, "utf8"));
+    engine = new SimulationEngine({ seed: snapshot.seed });
+    engine.restore(snapshot);
+    if (values.dispatch) engine.setDispatchStrategy(values.dispatch);
+  } else {
+    const seed = parseSeed(values.seed) ?? Math.floor(Math.random() * 2 ** 32);
+    const layout = values.layout ? parseLayout(await readFile(values.layout, "utf8")) : undefined;
+    engine = new SimulationEngine({
+      seed,
+      layout,
+      ...(guests !== undefined && { population: { GUEST: guests } }),
+      dispatchStrategy: values.dispatch ?? DEFAULT_DISPATCH_STRATEGY,
+    });
+  }
+  const { seed } = engine.getState();
+
+  if (values.validate) {
+    const report = engine.getLayoutReport();
+    if (values.json) {
+      console.log(JSON.stringify(report, null, 2));
+    } else {
+      console.log(`Layout ${report.valid ? "valid" : `has ${report.issues.length} issues`}`);
+      report.issues.forEach(({ code, message }) => console.log(`  ${code.padEnd(18)} ${message}`));
+    }
+    process.exitCode = report.valid ? 0 : 1;
+    return;
+  }
+
+  const startTime = engine.getState().coreState.timeOfDay;
+  const ticks = values.ticks !== undefined ? toCount(values.ticks, "ticks") : scenario?.ticks ?? 480;
+
+  const out = values.events ? createWriteStream(values.events) : null;
+  if (out) {
+    engine.subscribe((event) => {
+      out.write(`${JSON.stringify({ seed, ...event })}\n`);
+    });
+  }
+
+  const recorder = values.record ? new SessionRecorder(engine) : null;
+  if (recorder) {
+    engine.subscribe((event) => recorder.record({ source: "sim", type: event.type, payload: event.payload }));
+  }
+
+  const collector = values.metrics ? new MetricsCollector(engine) : null;
+
+  engine.run(ticks);
+
+  if (out) {
+    await new Promise<void>((resolve, reject) => {
+      out.on("error", reject);
+      out.end(resolve);
+    });
+  }
+
+  if (values.save) await writeFile(values.save, serializeSnapshot(engine.toSnapshot()));
+  if (values.record && recorder) await writeFile(values.record, serializeRecording(recorder.toRecording()));
+  if (values.metrics && collector) {
+    const collected = collector.getMetrics();
+    await writeFile(values.metrics, values.metrics.endsWith(".csv") ? samplesToCsv(collected) : serializeCollectedMetrics(collected));
+  }
+
+  const metrics = engine.getMetrics();
+  const assertions = scenario ? checkAssertions(scenario.assertions, metrics) : [];
+  const passed = assertions.every((assertion) => assertion.passed);
+  if (!passed) process.exitCode = 1;
+  if (values.json) {
+    const outcome = scenario && { scenario: { name: scenario.name, passed, assertions } };
+    console.log(JSON.stringify({ seed, ...outcome, ...metrics }, null, 2));
+  } else {
+    printMetrics(seed, startTime, metrics, engine.getLayoutReport());
+    if (scenario) {
+      console.log(`  scenario ${scenario.name}: ${assertions.filter((a) => a.passed).length}/${assertions.length} assertions passed`);
+      assertions.forEach((assertion) => console.log(`    ${formatAssertion(assertion)}`));
+    }
+    if (values.events) console.log(`  wrote    ${values.events}`);
+    if (values.save) console.log(`  saved    ${values.save} (tick ${metrics.tick})`);
+    if (values.record) console.log(`  recorded ${values.record} (ticks ${metrics.tick - ticks}-${metrics.tick})`);
+    if (values.metrics) console.log(`  metrics  ${values.metrics} (${ticks} samples)`);
+  }
+};
+
+main().catch((error) => {
+  console.error("[sim] Run failed:", error);
+  process.exit(1);
+});
@@ -335,6 +335,17 @@ const ALLOWED_EVENT_TYPES = new Set([
   "ui.keyboard.pressed",
   "sim.room.occupancy.changed",
   "sim.agent.state.changed",
+  "sim.guest.stage.changed",
+  "sim.reservation.created",
+  "sim.reservation.status.changed",
+  "sim.room.status.changed",
+  "sim.ticket.status.changed",
+  "sim.dispatch.job.changed",
+  "sim.agent.mood.changed",
+  "sim.incident.started",
+  "sim.incident.evacuated",
+  "sim.incident.resolved",
+  "sim.clock.timescale.changed",
 ]);
 
 // --- 4) Events Endpoint (publishes to seedcore.hotel.events) ---
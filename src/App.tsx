@@ -1,5 +1,6 @@
 import React, { useState, useEffect, useCallback, useRef } from "react";
 import {
+  BarChart3,
   Layers,
   Power,
   X,
@@ -7,32 +8,82 @@ import {
 } from "lucide-react";
 
 import { geminiService } from "./services/geminiService";
-import {
-  generateMap,
-  generateAgents,
-  updateAgentsLogic,
-} from "./utils/simulationUtils";
+import { SimulationEngine, type SimulationState } from "./simulation/simulationEngine";
+import { ReplaySession, type SessionRecording } from "./simulation/replay";
+import { parseSeed } from "./utils/rng";
+import { formatTimeOfDay } from "./utils/timeOfDay";
 
-import { EntityType, type Room, type Agent, type SeedCoreState } from "./types";
-import { GRID_WIDTH, GRID_HEIGHT, TICK_RATE_MS } from "./constants";
+import { type SeedCoreState } from "./types";
 
 import { SvgHotelBackdrop } from "./components/SvgHotelBackdrop";
 import { VirtualLobby } from "./components/VirtualLobby";
 import { ConciergePanel } from "./components/ConciergePanel";
+import { ClockControls } from "./components/ClockControls";
+import { SnapshotControls } from "./components/SnapshotControls";
+import { RecordingControls } from "./components/RecordingControls";
+import { LayoutStatus } from "./components/LayoutStatus";
+import { FloorSelector } from "./components/FloorSelector";
+import { IncidentControls } from "./components/IncidentControls";
+import { ScenarioControls } from "./components/ScenarioControls";
+import { ReplayBar } from "./components/ReplayBar";
+import { MetricsPanel } from "./components/MetricsPanel";
+import { HeatmapControls } from "./components/HeatmapControls";
 import { useEventTracking } from "./hooks/useEventTracking";
+import { useSimulationClock } from "./hooks/useSimulationClock";
+import { useSessionRecorder } from "./hooks/useSessionRecorder";
+import { useMetricsCollector } from "./hooks/useMetricsCollector";
+import { useHeatmap } from "./hooks/useHeatmap";
 import { kafkaPublisher } from "./services/kafkaPublisher";
+import type {
+  RoomOccupancyChangedPayload,
+  AgentStateChangedPayload,
+  GuestStageChangedPayload,
+  ReservationCreatedPayload,
+  ReservationStatusChangedPayload,
+  RoomStatusChangedPayload,
+  TicketStatusChangedPayload,
+  DispatchJobChangedPayload,
+  AgentMoodChangedPayload,
+  IncidentStartedPayload,
+  IncidentEvacuatedPayload,
+  IncidentResolvedPayload,
+  ClockTimeScaleChangedPayload,
+} from "./services/eventTypes";
+import { floorOf } from "./simulation/floors";
+import { findExits } from "./simulation/incidents";
+import type { HeatmapQuery } from "./simulation/heatmap";
+
+
+/* ------------------ SIMULATION SEED ------------------ */
 
+// Priority: ?seed= URL param, then VITE_SIM_SEED, then a fresh random seed
+const resolveInitialSeed = (): number =>
+  parseSeed(new URLSearchParams(window.location.search).get("seed")) ??
+  parseSeed(import.meta.env.VITE_SIM_SEED) ??
+  Math.floor(Math.random() * 2 ** 32);
 
 /* ------------------ MAIN APP ------------------ */
 
 const App: React.FC = () => {
-  const [initialized, setInitialized] = useState(false);
   const [inLobby, setInLobby] = useState(true);
   const [aiEnabled, setAiEnabled] = useState(false);
 
-  const [grid, setGrid] = useState<EntityType[][]>([]);
-  const [rooms, setRooms] = useState<Room[]>([]);
-  const [agents, setAgents] = useState<Agent[]>([]);
+  // The engine owns the world (seeded, framework-free); React only mirrors its state
+  const [engine] = useState(() => new SimulationEngine({ seed: resolveInitialSeed() }));
+  const [simState, setSimState] = useState(() => engine.getState());
+
+  // Replay mode shows a recorded session instead; the live hotel waits, paused, behind it
+  const [replay, setReplay] = useState<ReplaySession | null>(null);
+  const [replayState, setReplayState] = useState<SimulationState | null>(null);
+  const { seed, tick, width, height, floors, elevators, rooms, agents, coreState, tickets, zones, incidents } = replayState ?? simState;
+
+  // Which floor the map shows (multi-floor hotels only)
+  const [floor, setFloor] = useState(0);
+  const viewedFloor = Math.min(floor, floors.length - 1);
+  const headcount: Record<number, number> = {};
+  agents.forEach((agent) => {
+    headcount[floorOf(agent.position)] = (headcount[floorOf(agent.position)] ?? 0) + 1;
+  });
   
   // Event tracking
   const events = useEventTracking();
@@ -45,70 +96,77 @@ const App: React.FC = () => {
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [loadingVideo, setLoadingVideo] = useState(false);
 
-  const [coreState, setCoreState] = useState<SeedCoreState>({
-    activeAtmosphere: "MORNING_LIGHT",
-    logs: [],
-    timeOfDay: 8,
+  // Forward engine events to the hotel event stream, each through its typed emitter
+  useEffect(() => {
+    return engine.subscribe(({ type, payload }) => {
+      switch (type) {
+        case "sim.room.occupancy.changed":
+          return events.emitRoomOccupancyChanged(payload as RoomOccupancyChangedPayload);
+        case "sim.agent.state.changed":
+          return events.emitAgentStateChanged(payload as AgentStateChangedPayload);
+        case "sim.guest.stage.changed":
+          return events.emitGuestStageChanged(payload as GuestStageChangedPayload);
+        case "sim.reservation.created":
+          return events.emitReservationCreated(payload as ReservationCreatedPayload);
+        case "sim.reservation.status.changed":
+          return events.emitReservationStatusChanged(payload as ReservationStatusChangedPayload);
+        case "sim.room.status.changed":
+          return events.emitRoomStatusChanged(payload as RoomStatusChangedPayload);
+        case "sim.ticket.status.changed":
+          return events.emitTicketStatusChanged(payload as TicketStatusChangedPayload);
+        case "sim.dispatch.job.changed":
+          return events.emitDispatchJobChanged(payload as DispatchJobChangedPayload);
+        case "sim.agent.mood.changed":
+          return events.emitAgentMoodChanged(payload as AgentMoodChangedPayload);
+        case "sim.incident.started":
+          return events.emitIncidentStarted(payload as IncidentStartedPayload);
+        case "sim.incident.evacuated":
+          return events.emitIncidentEvacuated(payload as IncidentEvacuatedPayload);
+        case "sim.incident.resolved":
+          return events.emitIncidentResolved(payload as IncidentResolvedPayload);
+        case "sim.clock.timescale.changed":
+          return events.emitClockTimeScaleChanged(payload as ClockTimeScaleChangedPayload);
+      }
+    });
+  }, [engine, events]);
+
+  const updateCoreState = useCallback((update: Partial<SeedCoreState>) => {
+    engine.updateCoreState(update);
+    setSimState(engine.getState());
+  }, [engine]);
+
+  const publishTimeScale = useCallback((payload: ClockTimeScaleChangedPayload) => {
+    events.emitClockTimeScaleChanged(payload);
+  }, [events]);
+
+  // Director clock: pause, step, speed and fast-forward (nothing ticks on the boot screen)
+  const clock = useSimulationClock(engine, {
+    running: aiEnabled && !replay,
+    onTick: setSimState,
+    onTimeScaleChanged: publishTimeScale,
   });
 
-  useEffect(() => {
-    const { grid, rooms } = generateMap(GRID_WIDTH, GRID_HEIGHT);
-    setGrid(grid);
-    setRooms(rooms);
-    setAgents(generateAgents(8, GRID_WIDTH, GRID_HEIGHT));
-    setInitialized(true);
-  }, []);
+  const recording = useSessionRecorder(engine);
 
-  const tick = useCallback(() => {
-    if (!grid.length) return;
-    
-    setAgents((prevAgents) => {
-      const updated = updateAgentsLogic(prevAgents, grid);
-      
-      // Track position changes
-      updated.forEach((agent) => {
-        const prev = prevAgents.find((a) => a.id === agent.id);
-        if (prev && (prev.position.x !== agent.position.x || prev.position.y !== agent.position.y)) {
-          // Position updates not in ALLOWED_EVENT_TYPES - skip for now
-          // events.emitRobotPositionUpdated(...);
-        }
-        
-        // Track state changes (throttled - only emit significant state transitions)
-        if (prev && prev.state !== agent.state) {
-          // Only emit for significant state changes (skip frequent WALKING/PAUSING oscillations)
-          const significantStates = ['SOCIALIZING', 'SERVICING', 'CHARGING', 'OBSERVING'];
-          const isSignificant = significantStates.includes(agent.state) || 
-                                significantStates.includes(prev.state);
-          
-          if (isSignificant || Math.random() < 0.1) { // Emit 10% of minor state changes
-            events.emitAgentStateChanged({
-              agentId: agent.id,
-              agentRole: agent.role,
-              state: agent.state,
-              previousState: prev.state,
-            });
-          }
-        }
-      });
-      
-      return updated;
-    });
-    
-    setCoreState((s) => {
-      const newTime = (s.timeOfDay + 0.05) % 24;
-      // Time updates not in ALLOWED_EVENT_TYPES - skip for now
-      // events.emitTimeUpdated(newTime, s.timeOfDay);
-      return { ...s, timeOfDay: newTime };
-    });
-  }, [grid, events]);
+  // KPI history of the live hotel, for the metrics panel and its exports
+  const collected = useMetricsCollector(engine);
+  const [metricsOpen, setMetricsOpen] = useState(false);
 
-  useEffect(() => {
-    if (!initialized) return;
-    if (!aiEnabled) return; // ✅ Pause simulation on boot screen
-    
-    const i = setInterval(tick, TICK_RATE_MS);
-    return () => clearInterval(i);
-  }, [initialized, aiEnabled, tick]);
+  // Crowd heatmap layer on the map (live hotel only); null while it's off
+  const heatmaps = useHeatmap(engine);
+  const [heatmapQuery, setHeatmapQuery] = useState<HeatmapQuery | null>(null);
+  const heatmap = heatmapQuery && !replay ? heatmaps.getHeatmap(heatmapQuery) : null;
+
+  const startReplay = useCallback((session: SessionRecording) => {
+    const next = new ReplaySession(session);
+    setReplay(next);
+    setReplayState(next.getState());
+  }, []);
+
+  const exitReplay = useCallback(() => {
+    setReplay(null);
+    setReplayState(null);
+  }, []);
   
   // Track atmosphere changes
   const prevAtmosphereRef = useRef(coreState.activeAtmosphere);
@@ -120,41 +178,6 @@ const App: React.FC = () => {
     }
   }, [coreState.activeAtmosphere, events]);
   
-  // Track room occupancy changes (throttled + only emit on actual changes)
-  const lastOccupancyCheck = useRef(0);
-  const lastOccupancyMap = useRef<Map<string, number>>(new Map());
-  useEffect(() => {
-    if (!initialized || !aiEnabled) return; // ✅ Pause occupancy checks on boot screen
-    if (rooms.length === 0 || agents.length === 0) return;
-    
-    const now = Date.now();
-    if (now - lastOccupancyCheck.current < 5000) return; // Check max once per 5s (increased from 2s)
-    lastOccupancyCheck.current = now;
-    
-    rooms.forEach((room) => {
-      if (!room.topLeft || !room.bottomRight) return;
-      const occupancy = agents.filter((agent) => {
-        return (
-          agent.position.x >= room.topLeft!.x &&
-          agent.position.x <= room.bottomRight!.x &&
-          agent.position.y >= room.topLeft!.y &&
-          agent.position.y <= room.bottomRight!.y
-        );
-      }).length;
-      
-      // Only emit if occupancy actually changed
-      const lastOccupancy = lastOccupancyMap.current.get(room.id);
-      if (lastOccupancy !== occupancy) {
-        lastOccupancyMap.current.set(room.id, occupancy);
-        events.emitRoomOccupancyChanged({
-          roomId: room.id,
-          roomName: room.name,
-          occupancy,
-        });
-      }
-    });
-  }, [agents, rooms, initialized, aiEnabled, events]);
-  
   // Note: Pointer movements are NOT sent to Kafka (high-frequency noise)
   // They're kept local for UI interactions only
 
@@ -175,7 +198,7 @@ const App: React.FC = () => {
         <VirtualLobby
           onExitLobby={() => setInLobby(false)}
           coreState={coreState}
-          updateCoreState={(u) => setCoreState((s) => ({ ...s, ...u }))}
+          updateCoreState={updateCoreState}
           isAiEnabled={aiEnabled}
           setIsAiEnabled={setAiEnabled}
           rooms={rooms}
@@ -189,8 +212,23 @@ const App: React.FC = () => {
               enabled
               rooms={rooms}
               agents={agents}
-              gridW={GRID_WIDTH}
-              gridH={GRID_HEIGHT}
+              gridW={width}
+              gridH={height}
+              floor={viewedFloor}
+              elevators={elevators}
+              incidents={incidents}
+              exits={findExits(zones)}
+              heatmap={heatmap}
+            />
+          )}
+
+          {floors.length > 1 && (
+            <FloorSelector
+              floorCount={floors.length}
+              floor={viewedFloor}
+              onFloor={setFloor}
+              elevators={elevators}
+              headcount={headcount}
             />
           )}
 
@@ -200,6 +238,77 @@ const App: React.FC = () => {
               <span className="text-xs tracking-widest uppercase">
                 SeedCore Director
               </span>
+              <span
+                className="text-[10px] font-mono text-slate-500 tracking-wider"
+                title="Add ?seed=<value> to the URL to reproduce this run"
+              >
+                SEED {seed}
+              </span>
+              <span
+                className="text-[10px] font-mono text-slate-400 tracking-wider"
+                title={(replay ?? engine).getRunningPeriods().map((period) => period.label).join(", ") || "No scheduled period"}
+              >
+                {formatTimeOfDay(coreState.timeOfDay)} · {coreState.activeAtmosphere.replace("_", " ")}
+              </span>
+              {coreState.atmosphereOverride && !replay && (
+                <button
+                  onClick={() => updateCoreState({ atmosphereOverride: false })}
+                  className="text-[10px] font-mono text-amber-400/80 tracking-wider uppercase"
+                  title="The Director set this atmosphere; hand it back to the clock"
+                >
+                  Follow clock
+                </button>
+              )}
+              <LayoutStatus report={(replay ?? engine).getLayoutReport()} />
+            </div>
+
+            <div className="flex items-center gap-4">
+              <ClockControls clock={clock} enabled={aiEnabled && !replay} />
+              {!replay && (
+                <IncidentControls
+                  engine={engine}
+                  incidents={incidents}
+                  rooms={rooms}
+                  tick={tick}
+                  onChanged={() => setSimState(engine.getState())}
+                />
+              )}
+              {!replay && (
+                <ScenarioControls
+                  engine={engine}
+                  tick={tick}
+                  onLoaded={() => {
+                    setSimState(engine.getState());
+                    recording.restart();
+                  }}
+                />
+              )}
+              <SnapshotControls
+                engine={engine}
+                onRestored={() => {
+                  setSimState(engine.getState());
+                  recording.restart();
+                }}
+              />
+              <RecordingControls
+                getRecording={recording.getRecording}
+                onReplay={startReplay}
+                replaying={replay !== null}
+              />
+              {!replay && (
+                <HeatmapControls query={heatmapQuery} onQuery={setHeatmapQuery} coveredTicks={heatmap?.ticks} />
+              )}
+              {!replay && (
+                <button
+                  onClick={() => setMetricsOpen((open) => !open)}
+                  className={`p-1.5 rounded-full border ${
+                    metricsOpen ? "border-cyan-400 text-cyan-300" : "border-cyan-500/30 text-slate-300 hover:text-cyan-300"
+                  }`}
+                  title="Live metrics"
+                >
+                  <BarChart3 size={12} />
+                </button>
+              )}
             </div>
 
             <button
@@ -210,8 +319,16 @@ const App: React.FC = () => {
             </button>
           </header>
 
+          {metricsOpen && !replay && (
+            <MetricsPanel metrics={collected.getMetrics()} onClose={() => setMetricsOpen(false)} />
+          )}
+
+          {replay && replayState && (
+            <ReplayBar session={replay} state={replayState} onState={setReplayState} onExit={exitReplay} />
+          )}
+
           {/* ConciergePanel rendered last to ensure it's above all transforms/filters */}
-          <ConciergePanel active={aiEnabled} />
+          <ConciergePanel active={aiEnabled} agents={agents} tickets={tickets.tickets} />
 
           {videoUrl && (
             <div className="absolute inset-0 bg-black/90 z-50 flex items-center justify-center">
@@ -0,0 +1,110 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Pause, Play, StepForward, FastForward } from 'lucide-react';
+import { CLOCK_SPEEDS, type SimulationClock } from '../hooks/useSimulationClock';
+import { parseTimeOfDay } from '../utils/timeOfDay';
+
+interface ClockControlsProps {
+  clock: SimulationClock;
+  enabled: boolean; // Core Live; the controls are inert on standby
+}
+
+// Space pauses/resumes, "." steps one tick, 1-4 pick a speed, "f" jumps to the fast-forward field
+const SPEED_KEYS: Record<string, typeof CLOCK_SPEEDS[number]> = {
+  '1': CLOCK_SPEEDS[0],
+  '2': CLOCK_SPEEDS[1],
+  '3': CLOCK_SPEEDS[2],
+  '4': CLOCK_SPEEDS[3],
+};
+
+const isTyping = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable);
+
+export const ClockControls: React.FC<ClockControlsProps> = ({ clock, enabled }) => {
+  const [target, setTarget] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+  const { paused, speed, togglePause, step, setSpeed, fastForwardTo } = clock;
+
+  const hours = parseTimeOfDay(target);
+  const fastForward = () => {
+    if (!enabled || hours === null) return;
+    fastForwardTo(hours);
+    inputRef.current?.blur();
+  };
+
+  /* -------------------------- Keyboard Shortcuts --------------------------- */
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const onKey = (e: KeyboardEvent) => {
+      if (isTyping(e.target) || e.metaKey || e.ctrlKey || e.altKey) return;
+      if (e.key === ' ') {
+        e.preventDefault();
+        togglePause();
+      } else if (e.key === '.') {
+        step();
+      } else if (SPEED_KEYS[e.key]) {
+        setSpeed(SPEED_KEYS[e.key]);
+      } else if (e.key === 'f') {
+        e.preventDefault();
+        inputRef.current?.focus();
+      }
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [enabled, togglePause, step, setSpeed]);
+
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300 disabled:opacity-30';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <button
+        onClick={togglePause}
+        disabled={!enabled}
+        className={buttonClass}
+        title={paused ? 'Resume (Space)' : 'Pause (Space)'}
+      >
+        {paused ? <Play size={12} /> : <Pause size={12} />}
+      </button>
+      <button onClick={step} disabled={!enabled} className={buttonClass} title="Step one tick (.)">
+        <StepForward size={12} />
+      </button>
+
+      <div className="flex rounded-full border border-cyan-500/30 overflow-hidden">
+        {CLOCK_SPEEDS.map((option, i) => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            disabled={!enabled}
+            className={`px-2 py-1 disabled:opacity-30 ${option === speed ? 'bg-cyan-500/20 text-cyan-300' : 'text-slate-400'}`}
+            title={`${option}× speed (${i + 1})`}
+          >
+            {option}×
+          </button>
+        ))}
+      </div>
+
+      <form
+        className="flex items-center gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          fastForward();
+        }}
+      >
+        <input
+          ref={inputRef}
+          value={target}
+          onChange={(e) => setTarget(e.target.value)}
+          onKeyDown={(e) => e.key === 'Escape' && inputRef.current?.blur()}
+          disabled={!enabled}
+          placeholder="hh:mm"
+          className="w-14 px-2 py-1 rounded-full bg-transparent border border-cyan-500/30 text-slate-300 placeholder:text-slate-600 disabled:opacity-30"
+          title="Fast-forward to this time (f)"
+        />
+        <button type="submit" disabled={!enabled || hours === null} className={buttonClass} title="Fast-forward">
+          <FastForward size={12} />
+        </button>
+      </form>
+    </div>
+  );
+};
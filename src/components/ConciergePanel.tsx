@@ -1,18 +1,20 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Terminal, Cpu, Shield, Wifi, Hexagon } from 'lucide-react';
-
-interface Ticket { id: string; room: string; type: string; status: 'PENDING' | 'ACTIVE' | 'RESOLVED'; time: string; }
+import React, { useState, useRef, useMemo } from 'react';
+import { Terminal, BatteryMedium, BatteryLow, PlugZap, Hexagon } from 'lucide-react';
+import type { Agent } from '../types';
+import { getFleetBatteryStats } from '../simulation/battery';
+import { TICKET_LABELS, type ServiceTicket } from '../simulation/serviceTickets';
+import { formatTimeOfDay } from '../utils/timeOfDay';
 
 interface ConciergePanelProps {
   active: boolean;
+  agents: Agent[];
+  tickets: ServiceTicket[];
 }
 
-export const ConciergePanel: React.FC<ConciergePanelProps> = ({ active }) => {
+const STATUS_ORDER: Record<ServiceTicket['status'], number> = { ACTIVE: 0, PENDING: 1, RESOLVED: 2 };
+
+export const ConciergePanel: React.FC<ConciergePanelProps> = ({ active, agents, tickets }) => {
   // Always render - don't conditionally hide
-  const [tickets, setTickets] = useState<Ticket[]>([
-    { id: 'T-101', room: '104', type: 'High Noise Alert', status: 'ACTIVE', time: '08:02' },
-    { id: 'T-102', room: 'Lobby', type: 'Spill Detected', status: 'PENDING', time: '08:05' },
-  ]);
   const [mouse, setMouse] = useState({ x: 0, y: 0 });
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -27,25 +29,21 @@ export const ConciergePanel: React.FC<ConciergePanelProps> = ({ active }) => {
 
   const handleMouseLeave = () => setMouse({ x: 0, y: 0 });
 
-  // --- 2. SIMULATION LOGIC ---
-  useEffect(() => {
-    if (!active) return;
-    const interval = setInterval(() => {
-      if (Math.random() > 0.7) {
-        const types = ['Room Service', 'HVAC Maint', 'Guest Request', 'Bio-Filter'];
-        const statuses: ('PENDING' | 'ACTIVE')[] = ['PENDING', 'ACTIVE'];
-        const newTicket: Ticket = {
-          id: `T-${Math.floor(Math.random() * 1000)}`,
-          room: `${100 + Math.floor(Math.random() * 20)}`,
-          type: types[Math.floor(Math.random() * types.length)],
-          status: statuses[Math.floor(Math.random() * statuses.length)],
-          time: new Date().toLocaleTimeString('en-US', { hour12: false, hour: '2-digit', minute: '2-digit' })
-        };
-        setTickets(prev => [newTicket, ...prev].slice(0, 4));
-      }
-    }, 4000);
-    return () => clearInterval(interval);
-  }, [active]);
+  // Live robot fleet power from the simulation
+  const fleet = useMemo(() => getFleetBatteryStats(agents), [agents]);
+  const onlinePct = fleet.robotCount > 0
+    ? ((fleet.robotCount - fleet.charging) / fleet.robotCount) * 100
+    : 0;
+
+  // --- 2. LIVE TICKETS (from the simulation's ticket engine) ---
+  // Work in progress first, then the queue, then recent fixes; newest first within each
+  const visibleTickets = useMemo(
+    () => [...tickets]
+      .sort((a, b) => STATUS_ORDER[a.status] - STATUS_ORDER[b.status] || b.createdAt - a.createdAt)
+      .slice(0, 4),
+    [tickets]
+  );
+  const openCount = tickets.filter((t) => t.status !== 'RESOLVED').length;
 
   // CSS Transforms for 2.5D effect - increased tilt for more dramatic 3D feel
   const rotateX = active ? mouse.y * -14 : 0; // Invert Y for natural tilt
@@ -139,16 +137,16 @@ export const ConciergePanel: React.FC<ConciergePanelProps> = ({ active }) => {
         {/* --- LAYER 2: SYSTEM VITALS (Mid-section) --- */}
         <div className="absolute top-40 inset-x-4 custom-transform-3d translate-z-10 flex justify-between gap-2">
             {[
-              { label: 'Neural', icon: Cpu, val: 92, col: 'bg-cyan-500' },
-              { label: 'Security', icon: Shield, val: 100, col: 'bg-emerald-500' },
-              { label: 'Uplink', icon: Wifi, val: 88, col: 'bg-amber-500' }
+              { label: 'Fleet Avg', icon: BatteryMedium, val: Math.round(fleet.average), col: 'bg-cyan-500' },
+              { label: 'Lowest', icon: BatteryLow, val: Math.round(fleet.lowest), col: fleet.low > 0 ? 'bg-red-500' : 'bg-emerald-500' },
+              { label: 'Online', icon: PlugZap, val: Math.round(onlinePct), col: 'bg-amber-500' }
             ].map((sys, i) => (
               <div key={i} className="flex-1 bg-slate-900/50 border border-white/5 rounded-lg p-2 flex flex-col items-center group hover:border-cyan-500/30 transition-colors">
                  <sys.icon size={12} className="text-slate-400 mb-2 group-hover:text-white transition-colors" />
                  <div className="w-full h-1 bg-slate-800 rounded-full overflow-hidden mb-1">
                     <div className={`h-full ${active ? sys.col : 'bg-slate-700'} transition-all duration-1000`} style={{ width: active ? `${sys.val}%` : '0%' }} />
                  </div>
-                 <span className="text-[7px] font-mono uppercase text-slate-500">{sys.label}</span>
+                 <span className="text-[7px] font-mono uppercase text-slate-500">{sys.label} {active ? `${sys.val}%` : '--'}</span>
               </div>
             ))}
         </div>
@@ -159,23 +157,26 @@ export const ConciergePanel: React.FC<ConciergePanelProps> = ({ active }) => {
                <span className="text-[9px] font-bold uppercase tracking-[0.2em] text-cyan-400 flex items-center gap-2">
                  <Terminal size={10} /> Active Tasks
                </span>
-               <span className="text-[8px] font-mono text-slate-500">{tickets.length} PENDING</span>
+               <span className="text-[8px] font-mono text-slate-500">{openCount} OPEN</span>
             </div>
 
             <div className="flex-1 space-y-2 overflow-hidden relative">
-               {tickets.map((t) => (
+               {visibleTickets.map((t) => (
                  <div 
                     key={t.id}
                     className="group relative p-3 bg-slate-900/80 border-l-2 border-l-slate-700 hover:border-l-cyan-400 hover:bg-slate-800 transition-all cursor-pointer transform hover:translate-x-1"
                  >
                     <div className="flex justify-between items-start">
-                       <span className="text-[10px] font-bold text-slate-200 group-hover:text-cyan-200 uppercase tracking-wider">{t.type}</span>
-                       <span className="text-[8px] font-mono text-slate-500">{t.time}</span>
+                       <span className="text-[10px] font-bold text-slate-200 group-hover:text-cyan-200 uppercase tracking-wider">{TICKET_LABELS[t.kind]}</span>
+                       <span className="text-[8px] font-mono text-slate-500">{formatTimeOfDay(t.createdAtTime)}</span>
                     </div>
                     <div className="flex justify-between items-center mt-1">
-                       <span className="text-[9px] font-mono text-cyan-600 uppercase">RM {t.room}</span>
+                       <span className="text-[9px] font-mono text-cyan-600 uppercase">{t.roomName}</span>
                        <div className="flex items-center gap-1">
-                          <div className={`w-1.5 h-1.5 rounded-full ${t.status === 'ACTIVE' ? 'bg-amber-500 animate-pulse' : 'bg-slate-600'}`} />
+                          <div className={`w-1.5 h-1.5 rounded-full ${
+                            t.status === 'ACTIVE' ? 'bg-amber-500 animate-pulse' :
+                            t.status === 'RESOLVED' ? 'bg-emerald-500' : 'bg-slate-600'
+                          }`} />
                           <span className="text-[8px] font-bold text-slate-400">{t.status}</span>
                        </div>
                     </div>
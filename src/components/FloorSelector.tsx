@@ -0,0 +1,45 @@
+import React from 'react';
+import { Building2 } from 'lucide-react';
+import type { ElevatorCar } from '../simulation/verticalTransport';
+
+interface FloorSelectorProps {
+  floorCount: number;
+  floor: number;
+  onFloor: (floor: number) => void;
+  elevators: ElevatorCar[];
+  headcount: Record<number, number>; // Agents on each floor, for the button titles
+}
+
+const floorLabel = (floor: number) => (floor === 0 ? 'G' : String(floor));
+
+// Picks which floor the map shows, top floor first; lifts list where each car is
+export const FloorSelector: React.FC<FloorSelectorProps> = ({ floorCount, floor, onFloor, elevators, headcount }) => {
+  const floors = Array.from({ length: floorCount }, (_, i) => floorCount - 1 - i);
+
+  return (
+    <div className="absolute left-8 top-1/2 -translate-y-1/2 z-40 flex flex-col items-center gap-1 text-[10px] font-mono tracking-wider">
+      <Building2 size={14} className="text-cyan-400 mb-1" />
+      {floors.map((f) => (
+        <button
+          key={f}
+          onClick={() => onFloor(f)}
+          className={`w-8 py-1 rounded-md border ${
+            f === floor ? 'border-cyan-400 text-cyan-300 bg-cyan-500/10' : 'border-cyan-500/30 text-slate-400 hover:text-cyan-300'
+          }`}
+          title={`Floor ${floorLabel(f)}: ${headcount[f] ?? 0} agents`}
+        >
+          {floorLabel(f)}
+        </button>
+      ))}
+      {elevators.map((car) => (
+        <span
+          key={car.id}
+          className="mt-1 text-slate-500"
+          title={`${car.riders.length}/${car.capacity} riders, ${car.calls.length} waiting`}
+        >
+          {car.id} {car.direction > 0 ? '▲' : car.direction < 0 ? '▼' : '·'}{floorLabel(car.floor)}
+        </span>
+      ))}
+    </div>
+  );
+};
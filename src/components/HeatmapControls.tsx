@@ -0,0 +1,72 @@
+import React from 'react';
+import { Flame } from 'lucide-react';
+import { AgentRole } from '../types';
+import { HEATMAP_WINDOWS, type HeatBy, type HeatmapQuery } from '../simulation/heatmap';
+import { SIM_HOURS_PER_TICK } from '../constants';
+
+interface HeatmapControlsProps {
+  query: HeatmapQuery | null; // Null while the layer is off
+  onQuery: (query: HeatmapQuery | null) => void;
+  coveredTicks?: number; // How much of the window has been sampled so far
+}
+
+const DEFAULT_QUERY: HeatmapQuery = { window: HEATMAP_WINDOWS[1], by: 'DWELL' };
+
+const roleLabel = (role: string) => role.replace('_', ' ').toLowerCase();
+
+// Turns the crowd heatmap on the map on and off, and picks its window, roles and measure
+export const HeatmapControls: React.FC<HeatmapControlsProps> = ({ query, onQuery, coveredTicks }) => {
+  const selectClass = 'bg-transparent border border-cyan-500/30 rounded-full px-2 py-1 text-slate-300';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <button
+        onClick={() => onQuery(query ? null : DEFAULT_QUERY)}
+        className={`p-1.5 rounded-full border ${
+          query ? 'border-amber-400 text-amber-300' : 'border-cyan-500/30 text-slate-300 hover:text-cyan-300'
+        }`}
+        title={query ? 'Hide crowd heatmap' : 'Show crowd heatmap'}
+      >
+        <Flame size={12} />
+      </button>
+      {query && (
+        <>
+          <select
+            value={query.window}
+            onChange={(e) => onQuery({ ...query, window: Number(e.target.value) })}
+            className={selectClass}
+            title={coveredTicks !== undefined && coveredTicks < query.window ? `${coveredTicks} ticks sampled so far` : 'Time window'}
+          >
+            {HEATMAP_WINDOWS.map((ticks) => (
+              <option key={ticks} value={ticks}>
+                Last {Math.round(ticks * SIM_HOURS_PER_TICK)}h
+              </option>
+            ))}
+          </select>
+          <select
+            value={query.roles?.[0] ?? ''}
+            onChange={(e) => onQuery({ ...query, roles: e.target.value ? [e.target.value as AgentRole] : undefined })}
+            className={selectClass}
+            title="Whose movements"
+          >
+            <option value="">All roles</option>
+            {Object.values(AgentRole).map((role) => (
+              <option key={role} value={role}>
+                {roleLabel(role)}
+              </option>
+            ))}
+          </select>
+          <select
+            value={query.by ?? 'DWELL'}
+            onChange={(e) => onQuery({ ...query, by: e.target.value as HeatBy })}
+            className={selectClass}
+            title="Dwell: time spent on a tile. Visits: agents stepping onto it"
+          >
+            <option value="DWELL">Dwell</option>
+            <option value="VISITS">Visits</option>
+          </select>
+        </>
+      )}
+    </div>
+  );
+};
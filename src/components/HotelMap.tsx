@@ -1,6 +1,7 @@
-import React, { useRef, useEffect, useState, useCallback } from 'react';
+import React, { useRef, useEffect, useState, useCallback, useMemo } from 'react';
 import { EntityType, type Room, type Agent, AgentRole } from '../types';
 import { GRID_WIDTH, GRID_HEIGHT } from '../constants';
+import { floorOf } from '../simulation/floors';
 
 interface HotelMapProps {
   grid: EntityType[][];
@@ -8,9 +9,12 @@ interface HotelMapProps {
   agents: Agent[];
   onRoomClick: (room: Room) => void;
   atmosphere: string;
+  floor?: number; // Only this floor's rooms and agents are drawn
 }
 
-export const HotelMap: React.FC<HotelMapProps> = ({ rooms, agents, onRoomClick, atmosphere }) => {
+export const HotelMap: React.FC<HotelMapProps> = ({ rooms: allRooms, agents: allAgents, onRoomClick, atmosphere, floor = 0 }) => {
+  const rooms = useMemo(() => allRooms.filter(room => floorOf(room.topLeft) === floor), [allRooms, floor]);
+  const agents = useMemo(() => allAgents.filter(agent => floorOf(agent.position) === floor), [allAgents, floor]);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   
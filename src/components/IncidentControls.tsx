@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { Siren } from 'lucide-react';
+import type { Room } from '../types';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { findActiveIncidents, INCIDENT_KINDS, reportIncident, type IncidentKind, type IncidentLog } from '../simulation/incidents';
+
+interface IncidentControlsProps {
+  engine: SimulationEngine;
+  incidents: IncidentLog;
+  rooms: Room[];
+  tick: number;
+  onChanged: () => void;
+}
+
+const KIND_LABELS: Record<IncidentKind, string> = {
+  FIRE_ALARM: 'Fire alarm',
+  POWER_LOSS: 'Power loss',
+  MEDICAL: 'Medical',
+};
+
+// Director drills: set off an incident in a room, follow the evacuation, give the all clear
+export const IncidentControls: React.FC<IncidentControlsProps> = ({ engine, incidents, rooms, tick, onChanged }) => {
+  const [kind, setKind] = useState<IncidentKind>('FIRE_ALARM');
+  const [roomId, setRoomId] = useState(rooms[0]?.id ?? '');
+  const [refused, setRefused] = useState(false);
+  const active = findActiveIncidents(incidents);
+
+  const trigger = () => {
+    const room = rooms.some((r) => r.id === roomId) ? roomId : rooms[0]?.id;
+    if (!room) return;
+    setRefused(engine.triggerIncident(kind, room) === null);
+    onChanged();
+  };
+
+  const selectClass = 'bg-transparent border border-cyan-500/30 rounded-full px-2 py-1 text-slate-300';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <select value={kind} onChange={(e) => setKind(e.target.value as IncidentKind)} className={selectClass} title="Incident">
+        {INCIDENT_KINDS.map((k) => (
+          <option key={k} value={k}>
+            {KIND_LABELS[k]}
+          </option>
+        ))}
+      </select>
+      <select value={roomId} onChange={(e) => setRoomId(e.target.value)} className={selectClass} title="Where it starts">
+        {rooms.map((room) => (
+          <option key={room.id} value={room.id}>
+            {room.name}
+          </option>
+        ))}
+      </select>
+      <button
+        onClick={trigger}
+        className="p-1.5 rounded-full border border-red-500/40 text-red-300 hover:text-red-200"
+        title="Trigger incident"
+      >
+        <Siren size={12} />
+      </button>
+      {refused && (
+        <span className="text-amber-400 uppercase" title="An evacuation is already running, or the hotel has no exits">
+          Refused
+        </span>
+      )}
+      {active.map((incident) => {
+        const report = reportIncident(incident, tick);
+        return (
+          <span key={incident.id} className="flex items-center gap-1 text-red-300 uppercase">
+            {incident.id} {KIND_LABELS[incident.kind]}{' '}
+            {incident.kind === 'MEDICAL'
+              ? report.responseTicks !== undefined ? 'treating' : 'responding'
+              : `${report.evacuated}/${report.evacuees} out`}
+            <button
+              onClick={() => {
+                engine.clearIncident(incident.id);
+                onChanged();
+              }}
+              className="ml-1 text-slate-400 hover:text-cyan-300"
+              title="Give the all clear"
+            >
+              All clear
+            </button>
+          </span>
+        );
+      })}
+    </div>
+  );
+};
@@ -0,0 +1,41 @@
+import React, { useState } from 'react';
+import { AlertTriangle, CheckCircle2 } from 'lucide-react';
+import type { LayoutReport } from '../simulation/layoutValidation';
+
+interface LayoutStatusProps {
+  report: LayoutReport;
+}
+
+// Header badge for the layout validator; click to list the issues
+export const LayoutStatus: React.FC<LayoutStatusProps> = ({ report }) => {
+  const [open, setOpen] = useState(false);
+
+  if (report.valid) {
+    return (
+      <span className="flex items-center gap-1 text-[10px] font-mono text-slate-500 tracking-wider uppercase" title="Every room has a usable door and can be reached from the lobby">
+        <CheckCircle2 size={12} /> Layout OK
+      </span>
+    );
+  }
+
+  return (
+    <div className="relative text-[10px] font-mono tracking-wider">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1 text-amber-400/80 uppercase"
+        title="Show layout issues"
+      >
+        <AlertTriangle size={12} /> {report.issues.length} layout issues
+      </button>
+      {open && (
+        <ul className="absolute top-6 left-0 w-96 max-h-80 overflow-y-auto p-3 space-y-1 rounded-xl bg-slate-950/95 border border-amber-500/30 text-slate-300 z-50">
+          {report.issues.map((issue, i) => (
+            <li key={i}>
+              <span className="text-amber-400/80">{issue.code}</span> {issue.message}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
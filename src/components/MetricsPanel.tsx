@@ -0,0 +1,156 @@
+import React from 'react';
+import { Download, FileSpreadsheet, X } from 'lucide-react';
+import type { Agent } from '../types';
+import {
+  AGENT_STATES,
+  samplesToCsv,
+  serializeCollectedMetrics,
+  type CollectedMetrics,
+} from '../simulation/metricsCollector';
+
+interface MetricsPanelProps {
+  metrics: CollectedMetrics | null;
+  onClose: () => void;
+}
+
+const STATE_COLORS: Record<Agent['state'], string> = {
+  WALKING: '#22d3ee',
+  PAUSING: '#64748b',
+  SOCIALIZING: '#f472b6',
+  OBSERVING: '#a78bfa',
+  SERVICING: '#34d399',
+  CHARGING: '#fbbf24',
+};
+
+// The last two sim hours
+const WINDOW = 40;
+
+const download = (text: string, type: string, name: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const Sparkline: React.FC<{ values: number[]; color: string }> = ({ values, color }) => {
+  const peak = Math.max(1, ...values);
+  const points = values.map((v, i) => `${(i / Math.max(1, values.length - 1)) * 100},${20 - (v / peak) * 20}`).join(' ');
+  return (
+    <svg viewBox="0 0 100 20" preserveAspectRatio="none" className="w-full h-5">
+      <polyline points={points} fill="none" stroke={color} strokeWidth={1} vectorEffect="non-scaling-stroke" />
+    </svg>
+  );
+};
+
+// Live KPIs from the metrics collector: queues, who is doing what, busiest rooms, robot work
+export const MetricsPanel: React.FC<MetricsPanelProps> = ({ metrics, onClose }) => {
+  const latest = metrics?.samples[metrics.samples.length - 1];
+  const recent = metrics?.samples.slice(-WINDOW) ?? [];
+  const headcount = latest ? AGENT_STATES.reduce((sum, state) => sum + latest.agentStates[state], 0) : 0;
+  const busiestRooms = latest
+    ? Object.entries(latest.roomOccupancy).filter(([, n]) => n > 0).sort(([, a], [, b]) => b - a).slice(0, 5)
+    : [];
+
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300';
+  const name = metrics && `seedcore-metrics-seed${metrics.seed}-t${metrics.fromTick}-${metrics.toTick}`;
+
+  return (
+    <div className="absolute top-24 left-20 z-40 w-80 px-4 py-3 rounded-xl bg-slate-950/90 border border-cyan-500/30 text-[10px] font-mono tracking-wider space-y-3">
+      <div className="flex items-center gap-2">
+        <span className="text-cyan-300 uppercase flex-1">
+          Metrics {metrics && latest ? `t${metrics.fromTick}-${metrics.toTick}` : ''}
+        </span>
+        <button
+          onClick={() => metrics && download(serializeCollectedMetrics(metrics), 'application/json', `${name}.json`)}
+          disabled={!latest}
+          className={buttonClass}
+          title="Export everything collected (JSON)"
+        >
+          <Download size={12} />
+        </button>
+        <button
+          onClick={() => metrics && download(samplesToCsv(metrics), 'text/csv', `${name}.csv`)}
+          disabled={!latest}
+          className={buttonClass}
+          title="Export the per-tick series (CSV)"
+        >
+          <FileSpreadsheet size={12} />
+        </button>
+        <button onClick={onClose} className={buttonClass} title="Close">
+          <X size={12} />
+        </button>
+      </div>
+
+      {!metrics || !latest ? (
+        <p className="text-slate-500">Sampling starts with the next tick.</p>
+      ) : (
+        <>
+          <div>
+            <div className="flex justify-between text-slate-400">
+              <span>Reception queue {latest.receptionQueue}</span>
+              <span>avg {metrics.summary.avgReceptionQueue.toFixed(1)} · peak {metrics.summary.peakReceptionQueue}</span>
+            </div>
+            <Sparkline values={recent.map((s) => s.receptionQueue)} color="#22d3ee" />
+            <div className="flex justify-between text-slate-400">
+              <span>Jobs queued {latest.jobQueue} · tickets open {latest.openTickets}</span>
+              <span className={metrics.summary.slaBreaches > 0 ? 'text-amber-400' : ''}>
+                SLA breaches {metrics.summary.slaBreaches}
+              </span>
+            </div>
+            <Sparkline values={recent.map((s) => s.openTickets)} color="#fbbf24" />
+          </div>
+
+          <div>
+            <div className="flex h-2 rounded overflow-hidden bg-slate-800">
+              {AGENT_STATES.map((state) => (
+                <div
+                  key={state}
+                  style={{ width: `${(latest.agentStates[state] / Math.max(1, headcount)) * 100}%`, background: STATE_COLORS[state] }}
+                  title={`${state} ${latest.agentStates[state]}`}
+                />
+              ))}
+            </div>
+            <div className="mt-1 flex flex-wrap gap-x-2 text-slate-500">
+              {AGENT_STATES.filter((state) => latest.agentStates[state] > 0).map((state) => (
+                <span key={state} style={{ color: STATE_COLORS[state] }}>
+                  {state.toLowerCase()} {latest.agentStates[state]}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          <ul className="space-y-0.5 text-slate-400">
+            {busiestRooms.map(([roomId, n]) => (
+              <li key={roomId} className="flex justify-between" title={`Last ${WINDOW} ticks`}>
+                <span className="w-24 truncate">{roomId}</span>
+                <span className="flex-1 mx-2">
+                  <Sparkline values={recent.map((s) => s.roomOccupancy[roomId] ?? 0)} color="#a78bfa" />
+                </span>
+                <span>{n}</span>
+              </li>
+            ))}
+          </ul>
+
+          <div>
+            <div className="flex justify-between text-slate-400">
+              <span>Robots idle {(metrics.summary.avgIdleRatio * 100).toFixed(0)}%</span>
+              <span>{metrics.summary.robotDistance} tiles walked</span>
+            </div>
+            <ul className="mt-1 grid grid-cols-2 gap-x-3 text-slate-500">
+              {metrics.robots.map((robot) => (
+                <li key={robot.agentId} className="flex justify-between" title={robot.role}>
+                  <span>{robot.agentId}</span>
+                  <span>
+                    {robot.distance} · {(robot.idleRatio * 100).toFixed(0)}% idle
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
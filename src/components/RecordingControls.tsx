@@ -0,0 +1,73 @@
+import React, { useRef, useState } from 'react';
+import { History, Save, FolderOpen } from 'lucide-react';
+import { parseRecording, serializeRecording, type SessionRecording } from '../simulation/replay';
+
+interface RecordingControlsProps {
+  getRecording: () => SessionRecording | null;
+  onReplay: (recording: SessionRecording) => void;
+  replaying: boolean;
+}
+
+// Replay this session, save it as a JSON file, or open a saved one (from here or `npm run sim -- --record`)
+export const RecordingControls: React.FC<RecordingControlsProps> = ({ getRecording, onReplay, replaying }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const replaySession = () => {
+    const recording = getRecording();
+    if (recording) onReplay(recording);
+  };
+
+  const exportRecording = () => {
+    const recording = getRecording();
+    if (!recording) return;
+    const url = URL.createObjectURL(new Blob([serializeRecording(recording)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `seedcore-recording-seed${recording.seed}-t${recording.startTick}-${recording.endTick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importRecording = async (file: File) => {
+    try {
+      onReplay(parseRecording(await file.text()));
+      setError(null);
+    } catch (err) {
+      console.error('Recording import failed:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300 disabled:opacity-30';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <button onClick={replaySession} disabled={replaying} className={buttonClass} title="Replay this session">
+        <History size={12} />
+      </button>
+      <button onClick={exportRecording} className={buttonClass} title="Save session recording">
+        <Save size={12} />
+      </button>
+      <button onClick={() => inputRef.current?.click()} disabled={replaying} className={buttonClass} title="Open recording">
+        <FolderOpen size={12} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void importRecording(file);
+          e.target.value = '';
+        }}
+      />
+      {error && (
+        <span className="text-red-400 uppercase" title={error}>
+          Recording rejected
+        </span>
+      )}
+    </div>
+  );
+};
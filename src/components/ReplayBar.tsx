@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, StepForward, X, AlertTriangle } from 'lucide-react';
+import type { SimulationState } from '../simulation/simulationEngine';
+import type { ReplaySession } from '../simulation/replay';
+import { TICK_RATE_MS } from '../constants';
+import { formatTimeOfDay } from '../utils/timeOfDay';
+
+interface ReplayBarProps {
+  session: ReplaySession;
+  state: SimulationState; // The replayed hotel currently on the map
+  onState: (state: SimulationState) => void;
+  onExit: () => void;
+}
+
+// Replays play back faster than live so a sim day takes a couple of minutes
+const PLAYBACK_MS = TICK_RATE_MS / 4;
+const LOG_LINES = 6;
+
+// Timeline scrubber and transport for a recorded session, with the events logged up to the current tick
+export const ReplayBar: React.FC<ReplayBarProps> = ({ session, state, onState, onExit }) => {
+  const [playing, setPlaying] = useState(false);
+  const atEnd = state.tick >= session.endTick;
+  const running = playing && !atEnd;
+
+  useEffect(() => {
+    if (!running) return;
+
+    const i = setInterval(() => onState(session.step()), PLAYBACK_MS);
+    return () => clearInterval(i);
+  }, [session, running, onState]);
+
+  const step = () => {
+    setPlaying(false);
+    onState(session.step());
+  };
+
+  const seek = (tick: number) => onState(session.seek(tick));
+
+  const log = session.eventsUpTo(state.tick, LOG_LINES);
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300 disabled:opacity-30';
+
+  return (
+    <div className="absolute bottom-6 left-8 right-8 z-40 px-4 py-3 rounded-xl bg-slate-950/90 border border-cyan-500/30 text-[10px] font-mono tracking-wider">
+      <div className="flex items-center gap-3">
+        <span className="text-cyan-300 uppercase">Replay</span>
+        <button
+          onClick={() => setPlaying(!running)}
+          disabled={atEnd}
+          className={buttonClass}
+          title={running ? 'Pause' : 'Play'}
+        >
+          {running ? <Pause size={12} /> : <Play size={12} />}
+        </button>
+        <button onClick={step} disabled={atEnd} className={buttonClass} title="Step one tick">
+          <StepForward size={12} />
+        </button>
+        <input
+          type="range"
+          min={session.startTick}
+          max={session.endTick}
+          value={state.tick}
+          onChange={(e) => seek(Number(e.target.value))}
+          className="flex-1 accent-cyan-400"
+          title="Seek"
+        />
+        <span className="text-slate-400 w-40 text-right">
+          {formatTimeOfDay(state.coreState.timeOfDay)} · tick {state.tick}/{session.endTick}
+        </span>
+        {session.divergedAt !== null && (
+          <span
+            className="flex items-center gap-1 text-amber-400 uppercase"
+            title="The replayed engine stopped producing the recorded events (recorded with a different build?)"
+          >
+            <AlertTriangle size={12} /> Diverged at {session.divergedAt}
+          </span>
+        )}
+        <button onClick={onExit} className={buttonClass} title="Back to the live hotel">
+          <X size={12} />
+        </button>
+      </div>
+
+      <ol className="mt-2 space-y-0.5 text-slate-500">
+        {log.map((event, i) => (
+          <li key={`${event.tick}-${i}`} className="truncate">
+            <span className="text-slate-400">{event.tick}</span> {event.type} {JSON.stringify(event.payload)}
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
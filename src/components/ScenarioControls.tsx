@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { FlaskConical, FolderOpen } from 'lucide-react';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { SCENARIO_LIBRARY, checkAssertions, createScenarioEngine, parseScenario, type Scenario } from '../simulation/scenario';
+
+interface ScenarioControlsProps {
+  engine: SimulationEngine;
+  tick: number; // Re-checks the assertions as the run goes on
+  onLoaded: () => void;
+}
+
+// Swap the hotel for a named scenario (or a scenario file) and watch its assertions as it runs
+export const ScenarioControls: React.FC<ScenarioControlsProps> = ({ engine, tick, onLoaded }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = (next: Scenario) => {
+    try {
+      const seed = next.seed ?? engine.getState().seed;
+      engine.restore(createScenarioEngine(next, seed).toSnapshot());
+      setScenario(next);
+      setError(null);
+      onLoaded();
+    } catch (err) {
+      console.error('Scenario load failed:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const importScenario = async (file: File) => {
+    try {
+      load(parseScenario(await file.text()));
+    } catch (err) {
+      console.error('Scenario import failed:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  // Rendered once per tick, so the metrics are fresh
+  const results = scenario ? checkAssertions(scenario.assertions, engine.getMetrics()) : [];
+  const passing = results.filter((result) => result.passed).length;
+
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <FlaskConical size={12} className="text-cyan-400" />
+      <select
+        value=""
+        onChange={(e) => SCENARIO_LIBRARY[e.target.value] && load(SCENARIO_LIBRARY[e.target.value])}
+        className="bg-transparent border border-cyan-500/30 rounded-full px-2 py-1 text-slate-300"
+        title="Load a scenario (restarts the hotel)"
+      >
+        <option value="">{scenario ? scenario.name : 'Scenario'}</option>
+        {Object.entries(SCENARIO_LIBRARY).map(([key, entry]) => (
+          <option key={key} value={key} title={entry.description}>
+            {entry.name}
+          </option>
+        ))}
+      </select>
+      <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Open scenario file">
+        <FolderOpen size={12} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void importScenario(file);
+          e.target.value = '';
+        }}
+      />
+      {scenario && results.length > 0 && (
+        <span
+          className={passing === results.length ? 'text-emerald-400' : 'text-amber-400'}
+          title={results
+            .map(({ metric, op, value, actual, passed }) => `${passed ? '✓' : '✗'} ${metric} ${op} ${value} (${actual ?? '-'})`)
+            .join('\n')}
+        >
+          {passing}/{results.length} {tick >= scenario.ticks ? 'final' : `t${tick}/${scenario.ticks}`}
+        </span>
+      )}
+      {error && (
+        <span className="text-red-400 uppercase" title={error}>
+          Scenario rejected
+        </span>
+      )}
+    </div>
+  );
+};
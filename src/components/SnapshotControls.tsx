@@ -0,0 +1,65 @@
+import React, { useRef, useState } from 'react';
+import { Download, Upload } from 'lucide-react';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { parseSnapshot, serializeSnapshot } from '../simulation/snapshot';
+
+interface SnapshotControlsProps {
+  engine: SimulationEngine;
+  onRestored: () => void;
+}
+
+// Save the hotel as a JSON file to share, or load one to pick up where it left off
+export const SnapshotControls: React.FC<SnapshotControlsProps> = ({ engine, onRestored }) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const exportSnapshot = () => {
+    const snapshot = engine.toSnapshot();
+    const url = URL.createObjectURL(new Blob([serializeSnapshot(snapshot)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `seedcore-snapshot-seed${snapshot.seed}-t${snapshot.tick}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importSnapshot = async (file: File) => {
+    try {
+      engine.restore(parseSnapshot(await file.text()));
+      setError(null);
+      onRestored();
+    } catch (err) {
+      console.error('Snapshot import failed:', err);
+      setError((err as Error).message);
+    }
+  };
+
+  const buttonClass = 'p-1.5 rounded-full border border-cyan-500/30 text-slate-300 hover:text-cyan-300';
+
+  return (
+    <div className="flex items-center gap-2 text-[10px] font-mono tracking-wider">
+      <button onClick={exportSnapshot} className={buttonClass} title="Save snapshot">
+        <Download size={12} />
+      </button>
+      <button onClick={() => inputRef.current?.click()} className={buttonClass} title="Load snapshot">
+        <Upload size={12} />
+      </button>
+      <input
+        ref={inputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) void importSnapshot(file);
+          e.target.value = '';
+        }}
+      />
+      {error && (
+        <span className="text-red-400 uppercase" title={error}>
+          Snapshot rejected
+        </span>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,10 @@
 import { useEffect, useRef, useState, useMemo } from "react";
-import { getTheme, getCoordinates } from "../utils/svgHotelMap";
-import type { Room, Agent } from "../types";
+import { getTheme, getCoordinates, getMoodColor, getTileOffsets } from "../utils/svgHotelMap";
+import type { Room, Agent, Coordinates } from "../types";
+import { floorOf } from "../simulation/floors";
+import type { ElevatorCar } from "../simulation/verticalTransport";
+import { findActiveIncidents, isEvacuation, type IncidentLog } from "../simulation/incidents";
+import { heatColor, type Heatmap } from "../simulation/heatmap";
 
 // --- HOLOGRAPHIC STYLES ---
 const GLOBAL_STYLES = `
@@ -23,6 +27,8 @@ const GLOBAL_STYLES = `
   .animate-spin-slow { transform-origin: center; animation: spin-slow 20s linear infinite; }
   .animate-spin-rev { transform-origin: center; animation: spin-rev 15s linear infinite; }
   .animate-pulse-ring { animation: pulse-ring 3s infinite ease-out; }
+  @keyframes alarm { 0%, 100% { opacity: 0.9; } 50% { opacity: 0.3; } }
+  .animate-alarm { animation: alarm 1s infinite ease-in-out; }
 `;
 
 interface Props {
@@ -32,6 +38,11 @@ interface Props {
   agents: Agent[];
   gridW?: number;
   gridH?: number;
+  floor?: number; // Only this floor's rooms and agents are drawn
+  elevators?: ElevatorCar[];
+  incidents?: IncidentLog; // Rooms with an incident running are outlined in red
+  exits?: Coordinates[]; // Marked while an evacuation is on
+  heatmap?: Heatmap | null; // Crowd heat under the agents, when the layer is on
 }
 
 export function SvgHotelBackdrop({
@@ -41,6 +52,11 @@ export function SvgHotelBackdrop({
   agents,
   gridW = 80,
   gridH = 44,
+  floor = 0,
+  elevators = [],
+  incidents,
+  exits = [],
+  heatmap,
 }: Props) {
   const theme = useMemo(() => getTheme(atmosphere), [atmosphere]);
   const [mouse, setMouse] = useState({ x: 0.5, y: 0.5, rawX: 0, rawY: 0 });
@@ -70,8 +86,15 @@ export function SvgHotelBackdrop({
   const tiltY = (mouse.x - 0.5) * 5; // +/- 2.5deg
 
   // Defensive copies
-  const safeRooms = Array.isArray(rooms) ? rooms : [];
-  const safeAgents = Array.isArray(agents) ? agents : [];
+  const safeRooms = (Array.isArray(rooms) ? rooms : []).filter((room) => floorOf(room.topLeft) === floor);
+  const safeAgents = (Array.isArray(agents) ? agents : []).filter((agent) => floorOf(agent.position) === floor);
+  const landings = elevators.filter((car) => car.floors.includes(floor));
+  const tileOffsets = getTileOffsets(safeAgents);
+  const activeIncidents = incidents ? findActiveIncidents(incidents) : [];
+  const incidentRooms = new Set(activeIncidents.map((incident) => incident.roomId));
+  const evacuating = activeIncidents.some(isEvacuation);
+  const exitMarks = evacuating ? exits.filter((exit) => floorOf(exit) === floor) : [];
+  const heatTiles = heatmap ? heatmap.tiles.filter((tile) => tile.floor === floor) : [];
 
   return (
     <div ref={containerRef} className="absolute inset-0 bg-[#020617] select-none holo-container">
@@ -169,10 +192,90 @@ export function SvgHotelBackdrop({
                   >
                      {room.name.toUpperCase()}
                   </text>
+                  {/* Booking: checked-in guests */}
+                  {room.assignedGuests && room.assignedGuests.length > 0 && (
+                    <text
+                       x={x + w/2} y={y + h/2 + 0.9}
+                       fill={theme.agentHuman}
+                       fontSize="0.5"
+                       textAnchor="middle"
+                       dominantBaseline="middle"
+                       fontFamily="monospace"
+                       opacity="0.8"
+                    >
+                       ● {room.assignedGuests.join(" ")}
+                    </text>
+                  )}
                </g>
              );
           })}
 
+          {/* LAYER 2a: CROWD HEATMAP (dwell or visits per tile over the chosen window) */}
+          {heatTiles.length > 0 && (
+            <g style={{ mixBlendMode: "screen" }}>
+              {heatTiles.map(tile => (
+                <rect
+                   key={`heat-${tile.x}-${tile.y}`}
+                   x={tile.x} y={tile.y} width={1} height={1}
+                   fill={heatColor(tile.heat)}
+                   fillOpacity={0.15 + 0.55 * tile.heat}
+                >
+                   <title>{`${tile.visits} visits, ${tile.dwell} agent-ticks`}</title>
+                </rect>
+              ))}
+            </g>
+          )}
+
+          {/* LAYER 2b: LIFT LANDINGS (lit while the car is at this floor) */}
+          {landings.map(car => (
+             <g key={car.id} opacity="0.8">
+                <rect
+                   x={car.x} y={car.y} width={1} height={1}
+                   fill={car.floor === floor ? theme.agentRobot : "none"}
+                   fillOpacity="0.3"
+                   stroke={theme.roomBorder} strokeWidth="0.08"
+                />
+                <text
+                   x={car.x + 0.5} y={car.y - 0.3}
+                   fill={theme.text}
+                   fontSize="0.45"
+                   textAnchor="middle"
+                   fontFamily="monospace"
+                   opacity="0.7"
+                >
+                   {car.id} {car.calls.filter((call) => call.from === floor).length || ""}
+                </text>
+             </g>
+          ))}
+
+          {/* LAYER 2c: INCIDENTS (origin room pulsing red, exits marked during an evacuation) */}
+          {safeRooms.filter((room) => incidentRooms.has(room.id)).map(room => {
+             const { x, y, w, h } = getCoordinates(room);
+             return (
+                <rect
+                   key={`incident-${room.id}`}
+                   x={x} y={y} width={w} height={h}
+                   fill="#ef4444" fillOpacity="0.08"
+                   stroke="#ef4444" strokeWidth="0.15"
+                   className="animate-alarm"
+                />
+             );
+          })}
+          {exitMarks.map(exit => (
+             <g key={`exit-${exit.x}-${exit.y}`} opacity="0.9">
+                <rect x={exit.x} y={exit.y} width={1} height={1} fill="#22c55e" fillOpacity="0.35" stroke="#22c55e" strokeWidth="0.08" />
+                <text
+                   x={exit.x + 0.5} y={exit.y - 0.3}
+                   fill="#22c55e"
+                   fontSize="0.45"
+                   textAnchor="middle"
+                   fontFamily="monospace"
+                >
+                   EXIT
+                </text>
+             </g>
+          ))}
+
           {/* LAYER 3: THE CORE (Focal Anchor) */}
           <g transform={`translate(${CENTER_X}, ${CENTER_Y})`} opacity="0.8">
              {/* Rotating Rings */}
@@ -187,13 +290,18 @@ export function SvgHotelBackdrop({
           {safeAgents.map(agent => {
              const { x, y, rotation } = getCoordinates(agent);
              const isRobot = agent.role.includes('ROBOT');
-             const color = isRobot ? theme.agentRobot : theme.agentHuman;
+             const color =
+               agent.role === 'ROBOT_GARDENER' ? theme.agentGardener :
+               agent.role === 'STAFF_HUMAN' ? theme.agentStaff :
+               isRobot ? theme.agentRobot : theme.agentHuman;
+             // Role tints the pin, mood tints the head
+             const moodColor = getMoodColor(theme, agent, color);
              // We render the agent "floating" above the grid using Y offset logic
              // But in pure SVG map coords, y is "down". 
              // To simulate height in this tilted view, we draw a line "up" (negative Y) relative to the board tilt.
              
-             // Base coordinate on grid
-             const baseX = x + 0.5;
+             // Base coordinate on grid (agents sharing a tile stand side by side)
+             const baseX = x + 0.5 + (tileOffsets.get(agent.id) ?? 0);
              const baseY = y + 0.5;
              
              // "Height" of the pin
@@ -218,7 +326,7 @@ export function SvgHotelBackdrop({
                      {/* Glow */}
                      <circle r="0.6" fill={color} opacity="0.15" filter="url(#glow-blur)" />
                      {/* Solid Core */}
-                     <circle r="0.25" fill={color} />
+                     <circle r="0.25" fill={moodColor} stroke={color} strokeWidth="0.06" />
                      {/* Direction Arrow */}
                      <path 
                        d="M0,0 L0.6,0" 
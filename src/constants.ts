@@ -2,6 +2,7 @@
 export const GRID_WIDTH = 80;
 export const GRID_HEIGHT = 44;
 export const TICK_RATE_MS = 1000; // Faster tick for smoother agent movement in large map
+export const SIM_HOURS_PER_TICK = 0.05; // 3 sim-minutes per tick
 
 export const THEME_COLORS = {
   primary: '#d6d3d1', // Stone 300
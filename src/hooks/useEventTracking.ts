@@ -1,6 +1,6 @@
 /* ---------------------------- Event Tracking Hook ---------------------------- */
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef } from 'react';
 import { eventEmitter } from '../services/eventEmitter';
 import { kafkaPublisher } from '../services/kafkaPublisher';
 import type { SeedcoreHotelEvent } from '../services/eventTypes';
@@ -21,7 +21,8 @@ export function useEventTracking() {
     };
   }, []);
 
-  return {
+  // One set of bound emitters per mount, so callers can list it in effect deps
+  return useMemo(() => ({
     emitHotelEvent: eventEmitter.emitHotelEvent.bind(eventEmitter),
     emitHotspotEntered: eventEmitter.emitHotspotEntered.bind(eventEmitter),
     emitHotspotLeft: eventEmitter.emitHotspotLeft.bind(eventEmitter),
@@ -30,5 +31,16 @@ export function useEventTracking() {
     emitKeyboardPressed: eventEmitter.emitKeyboardPressed.bind(eventEmitter),
     emitRoomOccupancyChanged: eventEmitter.emitRoomOccupancyChanged.bind(eventEmitter),
     emitAgentStateChanged: eventEmitter.emitAgentStateChanged.bind(eventEmitter),
-  };
+    emitGuestStageChanged: eventEmitter.emitGuestStageChanged.bind(eventEmitter),
+    emitReservationCreated: eventEmitter.emitReservationCreated.bind(eventEmitter),
+    emitReservationStatusChanged: eventEmitter.emitReservationStatusChanged.bind(eventEmitter),
+    emitRoomStatusChanged: eventEmitter.emitRoomStatusChanged.bind(eventEmitter),
+    emitTicketStatusChanged: eventEmitter.emitTicketStatusChanged.bind(eventEmitter),
+    emitDispatchJobChanged: eventEmitter.emitDispatchJobChanged.bind(eventEmitter),
+    emitAgentMoodChanged: eventEmitter.emitAgentMoodChanged.bind(eventEmitter),
+    emitIncidentStarted: eventEmitter.emitIncidentStarted.bind(eventEmitter),
+    emitIncidentEvacuated: eventEmitter.emitIncidentEvacuated.bind(eventEmitter),
+    emitIncidentResolved: eventEmitter.emitIncidentResolved.bind(eventEmitter),
+    emitClockTimeScaleChanged: eventEmitter.emitClockTimeScaleChanged.bind(eventEmitter),
+  }), []);
 }
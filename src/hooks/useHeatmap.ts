@@ -0,0 +1,25 @@
+/* ---------------------------- Heatmap Hook ---------------------------- */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { HeatmapCollector, type Heatmap, type HeatmapQuery } from '../simulation/heatmap';
+
+export interface HeatmapHandle {
+  /** The heatmap for a window and role filter, or null before the collector has started */
+  getHeatmap: (query: HeatmapQuery) => Heatmap | null;
+}
+
+// Notes where the live engine's agents stand every tick, for the map's heatmap layer
+export function useHeatmap(engine: SimulationEngine): HeatmapHandle {
+  const collectorRef = useRef<HeatmapCollector | null>(null);
+
+  useEffect(() => {
+    const collector = new HeatmapCollector(engine);
+    collectorRef.current = collector;
+    return () => collector.stop();
+  }, [engine]);
+
+  const getHeatmap = useCallback((query: HeatmapQuery) => collectorRef.current?.getHeatmap(query) ?? null, []);
+
+  return { getHeatmap };
+}
@@ -0,0 +1,25 @@
+/* ---------------------------- Metrics Collector Hook ---------------------------- */
+
+import { useCallback, useEffect, useRef } from 'react';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { MetricsCollector, type CollectedMetrics } from '../simulation/metricsCollector';
+
+export interface MetricsHandle {
+  /** Everything sampled so far, or null before the collector has started */
+  getMetrics: () => CollectedMetrics | null;
+}
+
+// Samples the live engine every tick for the metrics panel and its exports
+export function useMetricsCollector(engine: SimulationEngine): MetricsHandle {
+  const collectorRef = useRef<MetricsCollector | null>(null);
+
+  useEffect(() => {
+    const collector = new MetricsCollector(engine);
+    collectorRef.current = collector;
+    return () => collector.stop();
+  }, [engine]);
+
+  const getMetrics = useCallback(() => collectorRef.current?.getMetrics() ?? null, []);
+
+  return { getMetrics };
+}
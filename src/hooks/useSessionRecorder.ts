@@ -0,0 +1,34 @@
+/* ---------------------------- Session Recorder Hook ---------------------------- */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { SimulationEngine } from '../simulation/simulationEngine';
+import { SessionRecorder, type SessionRecording } from '../simulation/replay';
+import { eventEmitter } from '../services/eventEmitter';
+
+export interface RecordingHandle {
+  /** The session so far, or null before recording has started */
+  getRecording: () => SessionRecording | null;
+  /** Starts a fresh recording from the engine as it is now (e.g. after loading a snapshot) */
+  restart: () => void;
+}
+
+// Records everything on the hotel event stream, with the Director inputs needed to replay it
+export function useSessionRecorder(engine: SimulationEngine): RecordingHandle {
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [generation, setGeneration] = useState(0);
+
+  useEffect(() => {
+    const recorder = new SessionRecorder(engine);
+    recorderRef.current = recorder;
+    const unsubscribe = eventEmitter.subscribe((event) => recorder.record(event));
+    return () => {
+      unsubscribe();
+      recorder.stop();
+    };
+  }, [engine, generation]);
+
+  const getRecording = useCallback(() => recorderRef.current?.toRecording() ?? null, []);
+  const restart = useCallback(() => setGeneration((g) => g + 1), []);
+
+  return { getRecording, restart };
+}
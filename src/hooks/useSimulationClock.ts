@@ -0,0 +1,93 @@
+/* ---------------------------- Simulation Clock Hook ---------------------------- */
+
+import { useCallback, useEffect, useState } from 'react';
+import type { SimulationEngine, SimulationState } from '../simulation/simulationEngine';
+import type { ClockTimeScaleChangedPayload } from '../services/eventTypes';
+import { SIM_HOURS_PER_TICK, TICK_RATE_MS } from '../constants';
+import { ticksUntil } from '../utils/timeOfDay';
+
+export const CLOCK_SPEEDS = [0.5, 1, 4, 16] as const;
+export type ClockSpeed = typeof CLOCK_SPEEDS[number];
+
+type TimeScaleReason = 'PAUSE' | 'RESUME' | 'SPEED' | 'FAST_FORWARD';
+
+interface ClockOptions {
+  running: boolean; // Core Live; nothing ticks on standby
+  onTick: (state: SimulationState) => void;
+  onTimeScaleChanged: (payload: ClockTimeScaleChangedPayload) => void;
+}
+
+export interface SimulationClock {
+  paused: boolean;
+  speed: ClockSpeed;
+  togglePause: () => void;
+  step: () => void;
+  setSpeed: (speed: ClockSpeed) => void;
+  /** Runs the engine straight to the next time the clock reads `hours`; returns the ticks run */
+  fastForwardTo: (hours: number) => number;
+}
+
+// Wall time enters here, not in the engine: the hook owns the tick interval
+export function useSimulationClock(engine: SimulationEngine, options: ClockOptions): SimulationClock {
+  const { running, onTick, onTimeScaleChanged } = options;
+  const [paused, setPaused] = useState(false);
+  const [speed, setSpeedState] = useState<ClockSpeed>(1);
+
+  useEffect(() => {
+    if (!running || paused) return;
+
+    const i = setInterval(() => onTick(engine.tick()), TICK_RATE_MS / speed);
+    return () => clearInterval(i);
+  }, [engine, running, paused, speed, onTick]);
+
+  const publish = useCallback(
+    (reason: TimeScaleReason, next: { speed: ClockSpeed; paused: boolean }, previousSpeed: ClockSpeed, extra = {}) => {
+      const { tick, coreState } = engine.getState();
+      const tickIntervalMs = TICK_RATE_MS / next.speed;
+      onTimeScaleChanged({
+        reason,
+        speed: next.speed,
+        previousSpeed,
+        paused: next.paused,
+        ...(!next.paused && { tickIntervalMs }),
+        simSecondsPerWallSecond: next.paused ? 0 : (SIM_HOURS_PER_TICK * 3600 * 1000) / tickIntervalMs,
+        tick,
+        timeOfDay: coreState.timeOfDay,
+        ...extra,
+      });
+    },
+    [engine, onTimeScaleChanged]
+  );
+
+  const togglePause = useCallback(() => {
+    setPaused(!paused);
+    publish(paused ? 'RESUME' : 'PAUSE', { speed, paused: !paused }, speed);
+  }, [paused, speed, publish]);
+
+  // Single-stepping implies the clock is stopped
+  const step = useCallback(() => {
+    if (!paused) {
+      setPaused(true);
+      publish('PAUSE', { speed, paused: true }, speed);
+    }
+    onTick(engine.tick());
+  }, [engine, paused, speed, onTick, publish]);
+
+  const setSpeed = useCallback((next: ClockSpeed) => {
+    if (next === speed) return;
+    setSpeedState(next);
+    publish('SPEED', { speed: next, paused }, speed);
+  }, [paused, speed, publish]);
+
+  const fastForwardTo = useCallback((hours: number) => {
+    const from = engine.getState().coreState.timeOfDay;
+    const ticks = ticksUntil(from, hours, SIM_HOURS_PER_TICK);
+    if (ticks === 0) return 0;
+
+    onTick(engine.run(ticks));
+    publish('FAST_FORWARD', { speed, paused }, speed, { skippedTicks: ticks, fromTimeOfDay: from });
+    return ticks;
+  }, [engine, paused, speed, onTick, publish]);
+
+  return { paused, speed, togglePause, step, setSpeed, fastForwardTo };
+}
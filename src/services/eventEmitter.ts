@@ -9,6 +9,17 @@ import type {
   KeyboardPressedPayload,
   RoomOccupancyChangedPayload,
   AgentStateChangedPayload,
+  GuestStageChangedPayload,
+  ReservationCreatedPayload,
+  ReservationStatusChangedPayload,
+  RoomStatusChangedPayload,
+  TicketStatusChangedPayload,
+  DispatchJobChangedPayload,
+  AgentMoodChangedPayload,
+  IncidentStartedPayload,
+  IncidentEvacuatedPayload,
+  IncidentResolvedPayload,
+  ClockTimeScaleChangedPayload,
 } from './eventTypes';
 
 type EventCallback = (event: SeedcoreHotelEvent) => void;
@@ -131,7 +142,7 @@ class EventEmitterService {
 
   // Convenience methods for Sim events
   emitRoomOccupancyChanged(payload: RoomOccupancyChangedPayload) {
-    // Room occupancy events are already filtered for changes in App.tsx
+    // Room occupancy events are already filtered for changes by the engine
     this.emitHotelEvent({
       source: "sim",
       type: "sim.room.occupancy.changed",
@@ -140,13 +151,101 @@ class EventEmitterService {
   }
 
   emitAgentStateChanged(payload: AgentStateChangedPayload) {
-    // Agent state events are already filtered for significance in App.tsx
+    // Agent state events are already filtered for significance by the engine
     this.emitHotelEvent({
       source: "sim",
       type: "sim.agent.state.changed",
       payload,
     });
   }
+
+  emitGuestStageChanged(payload: GuestStageChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.guest.stage.changed",
+      payload,
+    });
+  }
+
+  emitReservationCreated(payload: ReservationCreatedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.reservation.created",
+      payload,
+    });
+  }
+
+  emitReservationStatusChanged(payload: ReservationStatusChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.reservation.status.changed",
+      payload,
+    });
+  }
+
+  emitRoomStatusChanged(payload: RoomStatusChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.room.status.changed",
+      payload,
+    });
+  }
+
+  emitTicketStatusChanged(payload: TicketStatusChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.ticket.status.changed",
+      payload,
+    });
+  }
+
+  emitDispatchJobChanged(payload: DispatchJobChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.dispatch.job.changed",
+      payload,
+    });
+  }
+
+  emitAgentMoodChanged(payload: AgentMoodChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.agent.mood.changed",
+      payload,
+    });
+  }
+
+  emitIncidentStarted(payload: IncidentStartedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.incident.started",
+      payload,
+    });
+  }
+
+  emitIncidentEvacuated(payload: IncidentEvacuatedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.incident.evacuated",
+      payload,
+    });
+  }
+
+  emitIncidentResolved(payload: IncidentResolvedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.incident.resolved",
+      payload,
+    });
+  }
+
+  emitClockTimeScaleChanged(payload: ClockTimeScaleChangedPayload) {
+    this.emitHotelEvent({
+      source: "sim",
+      type: "sim.clock.timescale.changed",
+      payload,
+    });
+  }
 }
 
 export const eventEmitter = new EventEmitterService();
@@ -20,6 +20,17 @@ export const ALLOWED_EVENT_TYPES = new Set([
   "ui.keyboard.pressed",
   "sim.room.occupancy.changed",
   "sim.agent.state.changed",
+  "sim.guest.stage.changed",
+  "sim.reservation.created",
+  "sim.reservation.status.changed",
+  "sim.room.status.changed",
+  "sim.ticket.status.changed",
+  "sim.dispatch.job.changed",
+  "sim.agent.mood.changed",
+  "sim.incident.started",
+  "sim.incident.evacuated",
+  "sim.incident.resolved",
+  "sim.clock.timescale.changed",
 ] as const);
 
 // Event type definitions for type safety
@@ -32,7 +43,18 @@ export type UIEventType =
 
 export type SimEventType =
   | "sim.room.occupancy.changed"
-  | "sim.agent.state.changed";
+  | "sim.agent.state.changed"
+  | "sim.guest.stage.changed"
+  | "sim.reservation.created"
+  | "sim.reservation.status.changed"
+  | "sim.room.status.changed"
+  | "sim.ticket.status.changed"
+  | "sim.dispatch.job.changed"
+  | "sim.agent.mood.changed"
+  | "sim.incident.started"
+  | "sim.incident.evacuated"
+  | "sim.incident.resolved"
+  | "sim.clock.timescale.changed";
 
 export type EventType = UIEventType | SimEventType;
 
@@ -62,7 +84,9 @@ export interface KeyboardPressedPayload extends Record<string, unknown> {
 export interface RoomOccupancyChangedPayload extends Record<string, unknown> {
   roomId: string;
   roomName: string;
-  occupancy: number;
+  occupancy: number; // Agents inside the room's bounds
+  booked?: number; // Guests checked in to the room
+  guestIds?: string[];
 }
 
 export interface AgentStateChangedPayload extends Record<string, unknown> {
@@ -70,5 +94,128 @@ export interface AgentStateChangedPayload extends Record<string, unknown> {
   agentRole: string;
   state: string;
   previousState?: string;
+  battery?: number; // Robots only, 0-100
+  focusId?: string; // SOCIALIZING: who started the conversation; OBSERVING: the robot watched
+  partyId?: string; // Guests travelling in a party (the reservation id)
+}
+
+export interface GuestStageChangedPayload extends Record<string, unknown> {
+  guestId: string;
+  stage: string; // GuestStage, or DEPARTED when the guest leaves the hotel
+  previousStage?: string; // Absent on arrival
+  roomId?: string;
+}
+
+export interface ReservationCreatedPayload extends Record<string, unknown> {
+  reservationId: string;
+  guestId: string; // Lead guest
+  party: string; // SOLO | COUPLE | FAMILY | BUSINESS
+  partySize: number;
+  arrivalTick: number; // Sim ticks (0.05h each)
+  departureTick: number;
+  rate: number; // Per night
+  nights: number;
+  revenue: number; // rate x nights
+  overbooked: boolean; // Accepted beyond the number of sellable suites
+  vip?: boolean; // Booked by the Director or a scenario
+}
+
+export interface ReservationStatusChangedPayload extends Record<string, unknown> {
+  reservationId: string;
+  guestId: string;
+  status: string; // CONFIRMED | ARRIVED | CHECKED_IN | CHECKED_OUT | NO_SHOW | WALKED
+  previousStatus: string;
+  roomId?: string;
+}
+
+export interface RoomStatusChangedPayload extends Record<string, unknown> {
+  roomId: string;
+  roomName: string;
+  status: string; // VACANT_CLEAN | VACANT_DIRTY | OCCUPIED | OUT_OF_ORDER
+  previousStatus: string;
+  previousStatusTicks?: number; // Time spent in previousStatus (dirty -> clean = turnover time)
+}
+
+export interface TicketStatusChangedPayload extends Record<string, unknown> {
+  ticketId: string;
+  kind: string; // GUEST_REQUEST | SPILL | NOISE_ALERT
+  roomId: string;
+  status: string; // PENDING | ACTIVE | RESOLVED
+  previousStatus?: string; // Absent when the ticket is raised
+  assignedTo?: string; // Dispatched robot
+  resolutionTicks?: number; // Raised to resolved
+}
+
+export interface DispatchJobChangedPayload extends Record<string, unknown> {
+  jobId: string; // Ticket id for SERVICE_TICKET jobs, housekeeping task id for TURNOVER
+  kind: string; // SERVICE_TICKET | ROOM_SERVICE | GUEST_ASSIST | TURNOVER
+  status: string; // QUEUED | ASSIGNED | COMPLETED | CANCELLED
+  strategy: string; // Dispatch strategy in use
+  previousStatus?: string; // Absent when the job is queued
+  agentId?: string; // Assigned robot
+  latencyTicks?: number; // Queued to assigned
+  attempt?: number; // 2+ when a dropped job is reassigned
+  completionTicks?: number; // Queued to completed
+}
+
+export interface AgentMoodChangedPayload extends Record<string, unknown> {
+  agentId: string;
+  agentRole: string;
+  mood: string; // Guests: Delighted | Content | Neutral | Impatient | Upset; robots: Operational | Busy | Strained | Low Power
+  previousMood: string;
+  score: number; // 0-100
+  battery?: number; // Robots only
+}
+
+export interface IncidentStartedPayload extends Record<string, unknown> {
+  incidentId: string;
+  kind: string; // FIRE_ALARM | POWER_LOSS | MEDICAL
+  roomId: string;
+  roomName: string;
+  floor?: number; // Above the ground floor only
+  evacuees?: number; // Evacuations: guests and staff inside
+  guides?: number; // Evacuations: robots guiding
+  patientId?: string; // Medical
+  responders?: string[]; // Medical: staff member, then the assisting robot
+}
+
+export interface IncidentEvacuatedPayload extends Record<string, unknown> {
+  incidentId: string;
+  kind: string;
+  roomId: string;
+  evacuationTicks: number; // Alarm to the last evacuee out
+  evacuees: number;
+  avgEgressTicks: number;
+  guided: number; // Evacuees a robot fetched
+  stragglers: number; // Out after 40 ticks
+  stragglerIds: string[];
+  congestion: Array<{ x: number; y: number; floor?: number; waitTicks: number }>; // Where evacuees were held up longest
+}
+
+export interface IncidentResolvedPayload extends Record<string, unknown> {
+  incidentId: string;
+  kind: string;
+  roomId: string;
+  resolution: string; // ALL_CLEAR | TREATED | TIMEOUT | DIRECTOR
+  durationTicks: number;
+  evacuees?: number; // Evacuations
+  evacuated?: number;
+  stragglers?: number;
+  patientId?: string; // Medical
+  responders?: string[];
+  responseTicks?: number; // Alarm to the first responder at the patient's side
+}
+
+export interface ClockTimeScaleChangedPayload extends Record<string, unknown> {
+  reason: string; // PAUSE | RESUME | SPEED | FAST_FORWARD
+  speed: number; // Multiplier on the base tick rate (0.5, 1, 4, 16)
+  previousSpeed: number;
+  paused: boolean;
+  tickIntervalMs?: number; // Wall time between ticks; absent while paused
+  simSecondsPerWallSecond: number; // 0 while paused
+  tick: number;
+  timeOfDay: number;
+  skippedTicks?: number; // FAST_FORWARD: ticks run at once
+  fromTimeOfDay?: number; // FAST_FORWARD: clock before the jump
 }
 
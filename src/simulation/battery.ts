@@ -0,0 +1,126 @@
+/* ---------------------------- Robot Battery Model ---------------------------- */
+
+// Robots drain while they move and serve, head for a SERVICE_HUB tile when low,
+// dock in the CHARGING state and are released back to work once topped up.
+
+import { EntityType, type Agent, type Coordinates } from "../types";
+import { isRobot, routeTo } from "../utils/simulationUtils";
+import { floorOf, type Building } from "./floors";
+
+export const BATTERY = {
+  DRAIN_MOVE: 0.25,    // per tile travelled
+  DRAIN_SERVICE: 0.15, // per tick spent SERVICING
+  DRAIN_IDLE: 0.05,    // standby draw
+  CHARGE_RATE: 2.5,    // per tick while docked
+  LOW: 25,             // seek a hub at or below this level
+  FULL: 95,            // undock at or above this level
+} as const;
+
+export interface FleetBatteryStats {
+  robotCount: number;
+  average: number;
+  lowest: number;
+  charging: number;
+  low: number;
+}
+
+const samePosition = (a: Coordinates | null | undefined, b: Coordinates | null | undefined) =>
+  !!a && !!b && a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+
+export const findServiceHubTiles = (grid: EntityType[][]): Coordinates[] => {
+  const tiles: Coordinates[] = [];
+  grid.forEach((row, y) => row.forEach((cell, x) => {
+    if (cell === EntityType.SERVICE_HUB) tiles.push({ x, y });
+  }));
+  return tiles;
+};
+
+const isHeadingToHub = (agent: Agent, hubTiles: Coordinates[]) =>
+  hubTiles.some((tile) => samePosition(tile, agent.target));
+
+// Nearest reachable hub tile, preferring bays no other robot has claimed
+const planHubRoute = (agent: Agent, agents: Agent[], building: Building, hubTiles: Coordinates[]) => {
+  const claimed = (tile: Coordinates) =>
+    agents.some((other) => other.id !== agent.id && isRobot(other) &&
+      (samePosition(other.target, tile) || (other.state === 'CHARGING' && samePosition(other.position, tile))));
+
+  let best: { target: Coordinates; route: Coordinates[]; cost: number } | null = null;
+  for (const tile of hubTiles) {
+    const route = routeTo(building, agent.position, tile, false);
+    if (!route) continue;
+    const cost = route.length + (claimed(tile) ? 1000 : 0);
+    if (!best || cost < best.cost) best = { target: tile, route, cost };
+  }
+  return best;
+};
+
+/**
+ * Runs before movement: charges docked robots, docks low robots that reached a
+ * hub, and redirects low robots towards the nearest free hub tile.
+ */
+export const applyBatteryBehaviour = (
+  agents: Agent[],
+  building: Building,
+  hubTiles: Coordinates[]
+): Agent[] => {
+  if (hubTiles.length === 0) return agents;
+
+  return agents.map((agent) => {
+    if (!isRobot(agent) || agent.battery === undefined) return agent;
+    const battery = agent.battery;
+
+    if (agent.state === 'CHARGING') {
+      const charged = Math.min(100, battery + BATTERY.CHARGE_RATE);
+      if (charged >= BATTERY.FULL) {
+        // Undock: pick a fresh target on the next movement pass
+        return { ...agent, battery: charged, state: 'WALKING', target: null, route: undefined };
+      }
+      return { ...agent, battery: charged };
+    }
+
+    if (battery > BATTERY.LOW) return agent;
+
+    const onHub = hubTiles.some((tile) => samePosition(tile, agent.position));
+    if (onHub) {
+      return { ...agent, state: 'CHARGING', target: agent.position, route: [], task: undefined };
+    }
+
+    if (isHeadingToHub(agent, hubTiles)) return agent;
+
+    const plan = planHubRoute(agent, agents, building, hubTiles);
+    if (!plan) return agent; // No hub reachable: keep working on reserve power
+    // Charging outranks whatever the robot was doing
+    return { ...agent, state: 'WALKING', target: plan.target, route: plan.route, task: undefined };
+  });
+};
+
+/** Runs after movement: drains each robot for the work it did this tick */
+export const drainBatteries = (prevAgents: Agent[], agents: Agent[]): Agent[] =>
+  agents.map((agent) => {
+    if (!isRobot(agent) || agent.battery === undefined || agent.state === 'CHARGING') return agent;
+
+    const prev = prevAgents.find((a) => a.id === agent.id);
+    const moved = !!prev && !samePosition(prev.position, agent.position);
+
+    let drain = BATTERY.DRAIN_IDLE;
+    if (moved) drain += BATTERY.DRAIN_MOVE;
+    if (agent.state === 'SERVICING') drain += BATTERY.DRAIN_SERVICE;
+
+    return { ...agent, battery: Math.max(0, agent.battery - drain) };
+  });
+
+export const getFleetBatteryStats = (agents: Agent[]): FleetBatteryStats => {
+  const levels = agents.filter((a) => isRobot(a) && a.battery !== undefined);
+  if (levels.length === 0) {
+    return { robotCount: 0, average: 0, lowest: 0, charging: 0, low: 0 };
+  }
+
+  const batteries = levels.map((a) => a.battery as number);
+  return {
+    robotCount: levels.length,
+    average: batteries.reduce((sum, b) => sum + b, 0) / batteries.length,
+    lowest: Math.min(...batteries),
+    charging: levels.filter((a) => a.state === 'CHARGING').length,
+    low: levels.filter((a) => (a.battery as number) <= BATTERY.LOW).length,
+  };
+};
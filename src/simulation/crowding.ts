@@ -0,0 +1,135 @@
+/* ---------------------------- Crowding ---------------------------- */
+
+// Per-tile capacity inside the movement pass. Each tile holds a limited number
+// of agents; a step into a full tile makes the agent sidestep or wait, and
+// after a few ticks of waiting it squeezes past anyway so a jam never locks
+// up. Doorways and the reception desk are single-file bottlenecks: there is
+// no way round them, so agents queue. Waits are recorded per bottleneck kind
+// for crowd-flow studies.
+
+import { EntityType, type Agent, type Coordinates } from "../types";
+import { floorGap, floorOf, samePlace } from "./floors";
+
+export type BottleneckKind = 'DOORWAY' | 'DESK' | 'OPEN_FLOOR';
+
+export interface CrowdFlowState {
+  waits: Record<BottleneckKind, { count: number; totalTicks: number }>; // Finished and ongoing waits
+  squeezes: number; // Waits that ran out of patience and pushed through a full tile
+  longestWait: number;
+  tileWaitTicks: Record<string, number>; // "x,y" of doorway and desk tiles ("x,y,floor" above the ground floor)
+}
+
+// Agents a tile holds at once; anything not listed holds one
+const TILE_CAPACITY: Partial<Record<EntityType, number>> = {
+  [EntityType.LOBBY_FLOOR]: 2,
+  [EntityType.ROOM_FLOOR]: 2,
+  [EntityType.GARDEN_PATH]: 2,
+  [EntityType.SERVICE_HUB]: 2,
+  [EntityType.ROOM_DOOR]: 1,
+  [EntityType.RECEPTION_DESK]: 1,
+  [EntityType.STAIRS]: 2,
+  [EntityType.ELEVATOR]: 4, // The landing, where callers wait for the car
+};
+
+export const PATIENCE_TICKS = 6;
+
+const NEIGHBOURS = [{ x: 1, y: 0 }, { x: -1, y: 0 }, { x: 0, y: 1 }, { x: 0, y: -1 }];
+
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+
+const tileKey = (tile: Coordinates) => floorOf(tile) > 0 ? `${tile.x},${tile.y},${floorOf(tile)}` : `${tile.x},${tile.y}`;
+
+export const classifyTile = (cell: EntityType | undefined): BottleneckKind =>
+  cell === EntityType.ROOM_DOOR ? 'DOORWAY' : cell === EntityType.RECEPTION_DESK ? 'DESK' : 'OPEN_FLOOR';
+
+export const createCrowdFlowState = (): CrowdFlowState => ({
+  waits: {
+    DOORWAY: { count: 0, totalTicks: 0 },
+    DESK: { count: 0, totalTicks: 0 },
+    OPEN_FLOOR: { count: 0, totalTicks: 0 },
+  },
+  squeezes: 0,
+  longestWait: 0,
+  tileWaitTicks: {},
+});
+
+/* ------------------------------ Tile reservations ------------------------------ */
+
+export interface TileOccupancy {
+  canEnter(tile: Coordinates): boolean;
+  move(from: Coordinates, to: Coordinates): void;
+  /** A free neighbouring tile no further from the goal, to step round a blockage */
+  findSidestep(position: Coordinates, goal: Coordinates, isWalkable: (x: number, y: number) => boolean): Coordinates | null;
+}
+
+/**
+ * Occupancy for one movement pass, seeded with where everyone stands now.
+ * Riders in a lift car and evacuees already out of the building take no tile.
+ */
+export const createTileOccupancy = (floors: EntityType[][][], agents: Agent[]): TileOccupancy => {
+  const counts = new Map<string, number>();
+  const capacity = (tile: Coordinates) => TILE_CAPACITY[floors[floorOf(tile)]?.[tile.y]?.[tile.x]] ?? 1;
+  agents.forEach((agent) => {
+    if (agent.transit?.boarded || agent.incident?.outAt !== undefined) return;
+    counts.set(tileKey(agent.position), (counts.get(tileKey(agent.position)) ?? 0) + 1);
+  });
+
+  const canEnter = (tile: Coordinates) => (counts.get(tileKey(tile)) ?? 0) < capacity(tile);
+
+  return {
+    canEnter,
+    move(from, to) {
+      counts.set(tileKey(from), Math.max(0, (counts.get(tileKey(from)) ?? 0) - 1));
+      counts.set(tileKey(to), (counts.get(tileKey(to)) ?? 0) + 1);
+    },
+    findSidestep(position, goal, isWalkable) {
+      const distance = manhattan(position, goal);
+      let best: Coordinates | null = null;
+      NEIGHBOURS.forEach(({ x: dx, y: dy }) => {
+        const tile = { ...position, x: position.x + dx, y: position.y + dy };
+        if (!isWalkable(tile.x, tile.y) || !canEnter(tile) || manhattan(tile, goal) > distance) return;
+        if (!best || manhattan(tile, goal) < manhattan(best, goal)) best = tile;
+      });
+      return best;
+    },
+  };
+};
+
+/** Whether a tile is single file, so there is no stepping round whoever is on it */
+export const isBottleneck = (grid: EntityType[][], tile: Coordinates) =>
+  classifyTile(grid[tile.y]?.[tile.x]) !== 'OPEN_FLOOR';
+
+/* ------------------------------ Flow stats ------------------------------ */
+
+/** Adds this tick's waits (set by the movement pass) to the running stats */
+export const recordCrowdWaits = (
+  crowd: CrowdFlowState,
+  prevAgents: Agent[],
+  agents: Agent[],
+  floors: EntityType[][][]
+): CrowdFlowState => {
+  let next = crowd;
+  const mutable = () => {
+    if (next === crowd) next = { ...crowd, waits: { ...crowd.waits }, tileWaitTicks: { ...crowd.tileWaitTicks } };
+    return next;
+  };
+
+  agents.forEach((agent) => {
+    const before = prevAgents.find((a) => a.id === agent.id)?.waiting;
+    if (before && before.ticks >= PATIENCE_TICKS && samePlace(agent.position, before.tile)) {
+      mutable().squeezes++;
+    }
+    if (!agent.waiting) return;
+
+    const { tile, ticks } = agent.waiting;
+    const kind = classifyTile(floors[floorOf(tile)]?.[tile.y]?.[tile.x]);
+    const stats = mutable().waits[kind];
+    next.waits[kind] = { count: stats.count + (ticks === 1 ? 1 : 0), totalTicks: stats.totalTicks + 1 };
+    next.longestWait = Math.max(next.longestWait, ticks);
+    if (kind !== 'OPEN_FLOOR') {
+      const key = tileKey(tile);
+      next.tileWaitTicks[key] = (next.tileWaitTicks[key] ?? 0) + 1;
+    }
+  });
+  return next;
+};
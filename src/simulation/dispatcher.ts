@@ -0,0 +1,271 @@
+/* ---------------------------- Robot Dispatcher ---------------------------- */
+
+// Open jobs (service tickets, room-service deliveries, guest assistance, suite
+// turnovers) queue here and are handed to idle robots, and to staff off the
+// desk for turnovers, by a pluggable strategy. The dispatcher owns the job
+// lifecycle: QUEUED → ASSIGNED → COMPLETED, back to QUEUED when a robot drops
+// the job (e.g. to charge), CANCELLED when its source withdraws it. Job
+// sources learn the outcome from the returned changes.
+
+import { AgentRole, type Agent, type AgentTask, type Coordinates } from "../types";
+import { BATTERY } from "./battery";
+import { floorGap, floorOf } from "./floors";
+import { isOnShift } from "./roleBehaviors";
+
+export type JobKind = 'SERVICE_TICKET' | 'ROOM_SERVICE' | 'GUEST_ASSIST' | 'TURNOVER';
+export type JobStatus = 'QUEUED' | 'ASSIGNED' | 'COMPLETED' | 'CANCELLED';
+
+export interface DispatchJob {
+  id: string;
+  kind: JobKind;
+  status: JobStatus;
+  roles: AgentRole[]; // Eligible roles, preferred first
+  target: Coordinates;
+  pickup?: Coordinates; // Collected first (room-service trays from the hub)
+  leg?: 'PICKUP' | 'DELIVER';
+  duration: number; // Ticks on site
+  subject?: string; // Guest the job is for: avoids duplicates, credits the service to their mood
+  createdAt: number; // Tick
+  assignedTo?: string;
+  assignedAt?: number;
+  attempts: number; // Times assigned, counting dropped attempts
+}
+
+export type JobRequest = Omit<DispatchJob, 'status' | 'createdAt' | 'assignedTo' | 'assignedAt' | 'leg' | 'attempts'>;
+
+export interface DispatcherState {
+  strategy: string;
+  jobs: DispatchJob[]; // Open jobs, oldest first
+  lastAssigned?: string; // Round-robin cursor
+  created: number;
+  assigned: number; // Jobs that reached a robot at least once
+  completed: number;
+  totalLatencyTicks: number; // Created to first assignment
+  totalCompletionTicks: number; // Created to completed
+}
+
+export interface JobChange {
+  job: DispatchJob;
+  previousStatus?: JobStatus; // Absent when the job was just queued
+}
+
+export interface DispatchUpdate {
+  dispatcher: DispatcherState;
+  agents: Agent[];
+  changes: JobChange[];
+}
+
+export interface StrategyContext {
+  tick: number;
+  agents: Agent[]; // Whole roster, in stable order
+  lastAssigned?: string;
+}
+
+export interface DispatchStrategy {
+  /** Picks who gets the job from the idle eligible agents; null leaves it queued */
+  choose(job: DispatchJob, candidates: Agent[], ctx: StrategyContext): Agent | null;
+}
+
+const PICKUP_TICKS = 2;
+
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+const samePosition = (a: Coordinates, b: Coordinates) => a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+
+const TASK_KINDS: Record<JobKind, AgentTask['kind']> = {
+  SERVICE_TICKET: 'SERVICE_TICKET',
+  ROOM_SERVICE: 'ROOM_SERVICE',
+  GUEST_ASSIST: 'GUEST_ASSIST',
+  TURNOVER: 'HOUSEKEEPING',
+};
+
+/** Queued jobs are offered lowest first, oldest first within a priority: guests before suites */
+export const JOB_PRIORITY: Record<JobKind, number> = {
+  GUEST_ASSIST: 0,
+  SERVICE_TICKET: 1,
+  ROOM_SERVICE: 1,
+  TURNOVER: 2,
+};
+
+// Charge to spare and nothing else on; staff on their desk shift stay at the desk
+const isIdle = (agent: Agent, timeOfDay: number) =>
+  !agent.task &&
+  !agent.incident &&
+  agent.state !== 'CHARGING' &&
+  (agent.battery ?? 100) > BATTERY.LOW &&
+  !(agent.role === AgentRole.STAFF_HUMAN && isOnShift(agent, timeOfDay));
+
+/* ------------------------------ Strategies ------------------------------ */
+
+// Where the robot has to go first
+const firstStop = (job: DispatchJob) => job.pickup ?? job.target;
+
+const nearestIdle: DispatchStrategy = {
+  choose: (job, candidates) => {
+    const distance = (a: Agent) => manhattan(a.position, firstStop(job));
+    return candidates.reduce<Agent | null>((best, a) => (!best || distance(a) < distance(best) ? a : best), null);
+  },
+};
+
+// Every candidate bids its cost: travel, plus a premium for a low battery and
+// for not being the job's preferred role. Cheapest bid wins.
+const AUCTION = { BATTERY_WEIGHT: 0.3, OFF_ROLE_PENALTY: 15 };
+const auction: DispatchStrategy = {
+  choose: (job, candidates) => {
+    const bid = (a: Agent) =>
+      manhattan(a.position, firstStop(job)) +
+      (100 - (a.battery ?? 100)) * AUCTION.BATTERY_WEIGHT +
+      (a.role === job.roles[0] ? 0 : AUCTION.OFF_ROLE_PENALTY);
+    return candidates.reduce<Agent | null>((best, a) => (!best || bid(a) < bid(best) ? a : best), null);
+  },
+};
+
+// Take turns in roster order, starting after whoever got the last job
+const roundRobin: DispatchStrategy = {
+  choose: (_job, candidates, ctx) => {
+    if (candidates.length === 0) return null;
+    const order = (a: Agent) => ctx.agents.findIndex((other) => other.id === a.id);
+    const cursor = ctx.lastAssigned ? ctx.agents.findIndex((a) => a.id === ctx.lastAssigned) : -1;
+    return candidates.find((a) => order(a) > cursor) ?? candidates[0];
+  },
+};
+
+/* ------------------------------ Registry ------------------------------ */
+
+const strategies = new Map<string, DispatchStrategy>([
+  ['nearest-idle', nearestIdle],
+  ['auction', auction],
+  ['round-robin', roundRobin],
+]);
+
+export const DEFAULT_DISPATCH_STRATEGY = 'nearest-idle';
+
+export const registerDispatchStrategy = (name: string, strategy: DispatchStrategy) => {
+  strategies.set(name, strategy);
+};
+
+export const listDispatchStrategies = () => [...strategies.keys()];
+
+export const getDispatchStrategy = (name: string): DispatchStrategy => {
+  const strategy = strategies.get(name);
+  if (!strategy) {
+    throw new Error(`Unknown dispatch strategy "${name}" (available: ${listDispatchStrategies().join(", ")})`);
+  }
+  return strategy;
+};
+
+/* ------------------------------ Dispatcher ------------------------------ */
+
+export const createDispatcherState = (strategy = DEFAULT_DISPATCH_STRATEGY): DispatcherState => {
+  getDispatchStrategy(strategy); // Fail fast on typos
+  return {
+    strategy,
+    jobs: [],
+    created: 0,
+    assigned: 0,
+    completed: 0,
+    totalLatencyTicks: 0,
+    totalCompletionTicks: 0,
+  };
+};
+
+/** Whether an open job already covers this subject (e.g. a guest already being helped) */
+export const hasOpenJob = (dispatcher: DispatcherState, kind: JobKind, subject: string) =>
+  dispatcher.jobs.some((job) => job.kind === kind && job.subject === subject);
+
+export const updateDispatcher = (
+  dispatcher: DispatcherState,
+  agents: Agent[],
+  requests: JobRequest[],
+  ctx: { tick: number; timeOfDay: number; withdrawn?: string[] }
+): DispatchUpdate => {
+  const { tick, withdrawn = [] } = ctx;
+  let nextAgents = agents;
+  const byId = (id: string) => nextAgents.find((a) => a.id === id);
+  const patchAgent = (id: string, patch: Partial<Agent>) => {
+    nextAgents = nextAgents.map((a) => (a.id === id ? { ...a, ...patch } : a));
+  };
+  const giveTask = (agentId: string, job: DispatchJob, leg: 'PICKUP' | 'DELIVER') => {
+    const target = leg === 'PICKUP' && job.pickup ? job.pickup : job.target;
+    patchAgent(agentId, {
+      task: { id: job.id, kind: TASK_KINDS[job.kind], target, duration: leg === 'PICKUP' ? PICKUP_TICKS : job.duration },
+      target,
+      route: undefined,
+    });
+  };
+
+  const next: DispatcherState = { ...dispatcher };
+  const changes: JobChange[] = [];
+  const transition = (job: DispatchJob, status: JobStatus, patch: Partial<DispatchJob> = {}) => {
+    const updated = { ...job, ...patch, status };
+    changes.push({ job: updated, previousStatus: job.status });
+    return updated;
+  };
+
+  // 1. Drop withdrawn jobs. Finished legs: hand over the delivery leg, or close the job; requeue dropped jobs
+  let jobs = dispatcher.jobs.flatMap((job) => {
+    if (withdrawn.includes(job.id)) {
+      const robot = job.assignedTo ? byId(job.assignedTo) : undefined;
+      if (robot?.task?.id === job.id) patchAgent(robot.id, { task: undefined, target: null, route: undefined });
+      changes.push({ job: { ...job, status: 'CANCELLED' }, previousStatus: job.status });
+      return [];
+    }
+    if (job.status !== 'ASSIGNED' || !job.assignedTo) return [job];
+    const robot = byId(job.assignedTo);
+    if (robot?.task?.id === job.id) return [job];
+
+    const legTarget = job.leg === 'PICKUP' && job.pickup ? job.pickup : job.target;
+    if (robot && samePosition(robot.position, legTarget)) {
+      if (job.leg === 'PICKUP' && !robot.task) {
+        giveTask(robot.id, job, 'DELIVER');
+        return [{ ...job, leg: 'DELIVER' as const }];
+      }
+      if (job.leg === 'PICKUP') {
+        // Taken off to other work between legs: someone else collects a fresh tray
+        return [transition(job, 'QUEUED', { assignedTo: undefined, assignedAt: undefined, leg: undefined })];
+      }
+      next.completed++;
+      next.totalCompletionTicks += tick - job.createdAt;
+      changes.push({ job: { ...job, status: 'COMPLETED' }, previousStatus: job.status });
+      return [];
+    }
+    return [transition(job, 'QUEUED', { assignedTo: undefined, assignedAt: undefined, leg: undefined })];
+  });
+
+  // 2. Queue new requests
+  requests.forEach((request) => {
+    const job: DispatchJob = { ...request, status: 'QUEUED', createdAt: tick, attempts: 0 };
+    next.created++;
+    jobs = [...jobs, job];
+    changes.push({ job });
+  });
+
+  // 3. Queued jobs by priority, oldest first, each to the agent the strategy picks
+  const strategy = getDispatchStrategy(dispatcher.strategy);
+  const offerOrder = jobs.map((_, i) => i).sort((a, b) => JOB_PRIORITY[jobs[a].kind] - JOB_PRIORITY[jobs[b].kind]);
+  const offer = (job: DispatchJob): DispatchJob => {
+    if (job.status !== 'QUEUED') return job;
+
+    const candidates = nextAgents.filter((a) => job.roles.includes(a.role) && isIdle(a, ctx.timeOfDay));
+    const robot = candidates.length > 0
+      ? strategy.choose(job, candidates, { tick, agents: nextAgents, lastAssigned: next.lastAssigned })
+      : null;
+    if (!robot) return job;
+
+    const leg = job.pickup ? 'PICKUP' : 'DELIVER';
+    giveTask(robot.id, job, leg);
+    next.lastAssigned = robot.id;
+    if (job.attempts === 0) {
+      next.assigned++;
+      next.totalLatencyTicks += tick - job.createdAt;
+    }
+    return transition(job, 'ASSIGNED', { assignedTo: robot.id, assignedAt: tick, leg, attempts: job.attempts + 1 });
+  };
+  const offered = [...jobs];
+  offerOrder.forEach((i) => {
+    offered[i] = offer(jobs[i]);
+  });
+  jobs = offered;
+
+  next.jobs = jobs;
+  return { dispatcher: next, agents: nextAgents, changes };
+};
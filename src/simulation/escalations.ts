@@ -0,0 +1,106 @@
+/* ---------------------------- Staff Escalations ---------------------------- */
+
+// Situations robots can't resolve on their own are escalated to human staff:
+// a robot that ran flat away from a hub, or a guest request the concierge robot
+// can't handle. The nearest available STAFF_HUMAN (on shift first) walks over,
+// services the escalation and closes it.
+
+import { AgentRole, type Agent, type Coordinates } from "../types";
+import type { Rng } from "../utils/rng";
+import { isOnShift } from "./roleBehaviors";
+import { BATTERY } from "./battery";
+import { floorGap, floorOf } from "./floors";
+
+export interface Escalation {
+  id: string;
+  kind: 'ROBOT_STRANDED' | 'GUEST_REQUEST';
+  position: Coordinates;
+  raisedBy: string;
+  raisedAt: number; // tick
+  assignedTo?: string;
+}
+
+export interface EscalationUpdate {
+  escalations: Escalation[];
+  agents: Agent[];
+  resolved: Escalation[];
+}
+
+const ESCALATION_SERVICE_TICKS = 6;
+const GUEST_REQUEST_CHANCE = 0.01; // Per tick, per concierge robot with a guest alongside
+
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+const samePosition = (a: Coordinates, b: Coordinates) => a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+
+const isHandlingEscalation = (agent: Agent) => agent.task?.kind === 'ESCALATION';
+
+export const updateEscalations = (
+  escalations: Escalation[],
+  agents: Agent[],
+  ctx: { tick: number; timeOfDay: number; rng: Rng }
+): EscalationUpdate => {
+  let nextAgents = agents;
+  const byId = (id: string) => nextAgents.find((a) => a.id === id);
+  const patchAgent = (id: string, patch: Partial<Agent>) => {
+    nextAgents = nextAgents.map((a) => (a.id === id ? { ...a, ...patch } : a));
+  };
+
+  // 1. Close escalations whose staff member finished on site; requeue abandoned ones
+  const resolved: Escalation[] = [];
+  let open = escalations.flatMap((esc) => {
+    if (!esc.assignedTo) return [esc];
+    const staff = byId(esc.assignedTo);
+    if (staff?.task?.id === esc.id) return [esc];
+
+    if (staff && samePosition(staff.position, esc.position)) {
+      resolved.push(esc);
+      if (esc.kind === 'ROBOT_STRANDED') {
+        // Staff swap in a spare pack: enough charge to limp back to a hub
+        patchAgent(esc.raisedBy, { battery: BATTERY.LOW, state: 'WALKING', target: null, route: undefined });
+      }
+      return [];
+    }
+    return [{ ...esc, assignedTo: undefined }];
+  });
+
+  // 2. Raise new escalations
+  const hasOpen = (raisedBy: string) => open.some((esc) => esc.raisedBy === raisedBy);
+  const guests = nextAgents.filter((a) => a.role === AgentRole.GUEST);
+
+  nextAgents.forEach((agent) => {
+    if (hasOpen(agent.id)) return;
+
+    if (agent.battery !== undefined && agent.battery <= 0 && agent.state !== 'CHARGING') {
+      open = [...open, { id: `ESC-${ctx.tick}-${agent.id}`, kind: 'ROBOT_STRANDED', position: agent.position, raisedBy: agent.id, raisedAt: ctx.tick }];
+      return;
+    }
+
+    if (agent.role === AgentRole.ROBOT_CONCIERGE &&
+        guests.some((g) => manhattan(g.position, agent.position) <= 1) &&
+        ctx.rng.next() < GUEST_REQUEST_CHANCE) {
+      open = [...open, { id: `ESC-${ctx.tick}-${agent.id}`, kind: 'GUEST_REQUEST', position: agent.position, raisedBy: agent.id, raisedAt: ctx.tick }];
+    }
+  });
+
+  // 3. Assign unowned escalations to the nearest free staff member (on shift first)
+  open = open.map((esc) => {
+    if (esc.assignedTo) return esc;
+
+    const free = nextAgents.filter((a) => a.role === AgentRole.STAFF_HUMAN && !isHandlingEscalation(a) && !a.incident);
+    const onShift = free.filter((a) => isOnShift(a, ctx.timeOfDay));
+    const pool = onShift.length > 0 ? onShift : free;
+    if (pool.length === 0) return esc;
+
+    const staff = pool.reduce((best, a) =>
+      manhattan(a.position, esc.position) < manhattan(best.position, esc.position) ? a : best
+    );
+    patchAgent(staff.id, {
+      task: { id: esc.id, kind: 'ESCALATION', target: esc.position, duration: ESCALATION_SERVICE_TICKS },
+      target: esc.position,
+      route: undefined,
+    });
+    return { ...esc, assignedTo: staff.id };
+  });
+
+  return { escalations: open, agents: nextAgents, resolved };
+};
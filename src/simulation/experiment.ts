@@ -0,0 +1,283 @@
+/* ---------------------------- Batch Experiments ---------------------------- */
+
+// Monte Carlo runs of a scenario: every variant of the parameter sweep (say
+// robot count 2-12, or each dispatch strategy) is run once per seed, headless,
+// and the KPIs of each run are summarised per variant as a mean with a 95%
+// confidence interval. Reports come out as JSON (every run kept) or as a CSV
+// with one row per variant. The engine is deterministic, so the same plan
+// always produces the same report.
+
+import { AgentRole } from "../types";
+import { listDispatchStrategies } from "./dispatcher";
+import { checkAssertions, createScenarioEngine, readMetric, type Scenario } from "./scenario";
+import type { SimulationMetrics } from "./simulationEngine";
+import { isRobot, robotActivity } from "../utils/simulationUtils";
+
+export const REPORT_FORMAT = 'seedcore-experiment-report';
+export const REPORT_VERSION = 1;
+
+/** One parameter and the values to try; a plan's sweeps are crossed with each other */
+export interface Sweep {
+  param: string; // "robots", "dispatch", "ticks" or "population.<ROLE>"
+  values: Array<number | string>;
+}
+
+export interface ExperimentPlan {
+  scenario: Scenario;
+  seeds: number[];
+  sweeps?: Sweep[];
+  kpis?: Record<string, string>; // Extra KPIs: name -> metric path (see readMetric)
+}
+
+export interface KpiSummary {
+  n: number; // Runs that reported it
+  mean: number;
+  sd: number;
+  ciLow: number; // 95% confidence interval of the mean
+  ciHigh: number;
+}
+
+export interface RunResult {
+  seed: number;
+  kpis: Record<string, number | null>;
+  passed: boolean; // Every scenario assertion held
+}
+
+export interface VariantReport {
+  params: Record<string, number | string>;
+  runs: RunResult[];
+  passRate: number;
+  kpis: Record<string, KpiSummary>;
+}
+
+export interface ExperimentReport {
+  format: typeof REPORT_FORMAT;
+  version: number;
+  scenario: string;
+  seeds: number[];
+  kpis: string[];
+  variants: VariantReport[];
+}
+
+/**
+ * Reported for every run: name -> metric path, or paths to add up. Each
+ * average sits with how much work it covers and how much was left undone,
+ * since an average only ever sees the work that finished.
+ */
+export const DEFAULT_KPIS: Record<string, string | string[]> = {
+  guestWaitTicks: 'guests.avgQueueTicks',
+  guestsCheckedIn: 'guests.checkIns',
+  guestsQueued: 'guests.queueLength',
+  ticketResolutionTicks: 'tickets.avgResolutionTicks',
+  ticketsResolved: 'tickets.resolved',
+  ticketsUnresolved: ['tickets.pending', 'tickets.active'],
+  jobCompletionTicks: 'dispatch.avgCompletionTicks',
+  jobsCompleted: 'dispatch.completed',
+  jobsUnfinished: ['dispatch.queueLength', 'dispatch.inProgress'],
+  walkAways: 'guests.walkAways',
+};
+// The engine reports these averages as 0 when nothing was counted; a run
+// whose count is 0 reports null instead, so it doesn't drag the mean down
+const AVERAGE_OVER: Record<string, string> = {
+  'guests.avgQueueTicks': 'guests.checkIns',
+  'tickets.avgResponseTicks': 'tickets.resolved',
+  'tickets.avgResolutionTicks': 'tickets.resolved',
+  'dispatch.avgCompletionTicks': 'dispatch.completed',
+};
+// Sampled every tick rather than read from the final metrics
+const ROBOT_UTILISATION = 'robotUtilisation'; // Share of service-robot ticks spent working (see robotActivity)
+
+// Two-sided 95% Student t critical values for 1-30 degrees of freedom
+const T95 = [
+  12.706, 4.303, 3.182, 2.776, 2.571, 2.447, 2.365, 2.306, 2.262, 2.228, 2.201, 2.179, 2.16, 2.145, 2.131,
+  2.12, 2.11, 2.101, 2.093, 2.086, 2.08, 2.074, 2.069, 2.064, 2.06, 2.056, 2.052, 2.048, 2.045, 2.042,
+];
+const tCritical = (df: number) => (df <= T95.length ? T95[df - 1] : df <= 60 ? 2.0 : df <= 120 ? 1.98 : 1.96);
+
+const ROLES = new Set<string>(Object.values(AgentRole));
+
+/**
+ * Mean, standard deviation and 95% CI (Student t) of the runs that reported
+ * a value; a single value has a zero-width interval, none gives n = 0.
+ */
+export const summarize = (reported: Array<number | null>): KpiSummary => {
+  const values = reported.filter((v): v is number => v !== null);
+  const n = values.length;
+  if (n === 0) return { n, mean: 0, sd: 0, ciLow: 0, ciHigh: 0 };
+  const mean = values.reduce((sum, v) => sum + v, 0) / n;
+  const sd = n > 1 ? Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (n - 1)) : 0;
+  const half = n > 1 ? (tCritical(n - 1) * sd) / Math.sqrt(n) : 0;
+  return { n, mean, sd, ciLow: mean - half, ciHigh: mean + half };
+};
+
+/* ------------------------------ Sweeps ------------------------------ */
+
+/** The scenario with one parameter changed; throws on a parameter it doesn't know */
+export const applyParam = (scenario: Scenario, param: string, value: number | string): Scenario => {
+  const count = (name: string) => {
+    if (!Number.isInteger(value) || (value as number) < 0) throw new Error(`Sweep ${name} needs whole numbers, got "${value}"`);
+    return value as number;
+  };
+  if (param === 'robots') {
+    // Service robots, a third of them concierges (6 -> 2 + 4, as in the default crew)
+    const robots = count(param);
+    const concierges = robots > 0 ? Math.max(1, Math.round(robots / 3)) : 0;
+    return { ...scenario, population: { ...scenario.population, ROBOT_CONCIERGE: concierges, ROBOT_WAITER: robots - concierges } };
+  }
+  if (param.startsWith('population.') && ROLES.has(param.slice('population.'.length))) {
+    return { ...scenario, population: { ...scenario.population, [param.slice('population.'.length)]: count(param) } };
+  }
+  if (param === 'ticks') {
+    if (count(param) < 1) throw new Error('Sweep ticks needs at least 1');
+    return { ...scenario, ticks: value as number };
+  }
+  if (param === 'dispatch') {
+    if (!listDispatchStrategies().includes(String(value))) {
+      throw new Error(`Sweep dispatch must be one of ${listDispatchStrategies().join(', ')}, got "${value}"`);
+    }
+    return { ...scenario, dispatch: String(value) };
+  }
+  throw new Error(`Unknown sweep parameter "${param}" (robots, dispatch, ticks or population.<ROLE>)`);
+};
+
+/**
+ * Reads "robots=2..12" (a whole-number range), "robots=2,4,8" or
+ * "dispatch=nearest-idle,auction". Numbers stay numbers.
+ */
+export const parseSweep = (text: string): Sweep => {
+  const [param, list] = text.split('=', 2);
+  if (!param || !list) throw new Error(`Sweep "${text}" should look like robots=2..12 or dispatch=nearest-idle,auction`);
+  const range = /^(\d+)\.\.(\d+)$/.exec(list);
+  if (range) {
+    const [from, to] = [Number(range[1]), Number(range[2])];
+    if (to < from) throw new Error(`Sweep ${param} range ${list} runs backwards`);
+    return { param, values: Array.from({ length: to - from + 1 }, (_, i) => from + i) };
+  }
+  return { param, values: list.split(',').map((v) => (/^\d+$/.test(v) ? Number(v) : v)) };
+};
+
+// Every combination of the sweeps' values, the first sweep varying slowest
+const crossSweeps = (sweeps: Sweep[]): Array<Record<string, number | string>> =>
+  sweeps.reduce<Array<Record<string, number | string>>>(
+    (combos, { param, values }) => combos.flatMap((combo) => values.map((value) => ({ ...combo, [param]: value }))),
+    [{}]
+  );
+
+/* ------------------------------ Running ------------------------------ */
+
+// A KPI from the final metrics: null for a missing path, or an average with nothing behind it
+const readKpi = (metrics: SimulationMetrics, paths: string | string[]): number | null => {
+  if (Array.isArray(paths)) {
+    const values = paths.map((path) => readMetric(metrics, path));
+    return values.includes(null) ? null : (values as number[]).reduce((sum, v) => sum + v, 0);
+  }
+  return AVERAGE_OVER[paths] !== undefined && readMetric(metrics, AVERAGE_OVER[paths]) === 0
+    ? null
+    : readMetric(metrics, paths);
+};
+
+/** Runs one scenario variant on one seed and collects its KPIs */
+export const runOnce = (scenario: Scenario, seed: number, kpis: Record<string, string | string[]>): RunResult => {
+  const engine = createScenarioEngine(scenario, seed);
+  let robotTicks = 0;
+  let busyTicks = 0;
+  for (let i = 0; i < scenario.ticks; i++) {
+    engine.tick().agents.forEach((agent) => {
+      if (!isRobot(agent) || agent.role === AgentRole.ROBOT_GARDENER) return;
+      robotTicks++;
+      if (robotActivity(agent) === 'WORKING') busyTicks++;
+    });
+  }
+
+  const metrics = engine.getMetrics();
+  const values: Record<string, number | null> = Object.fromEntries(
+    Object.entries(kpis).map(([name, paths]) => [name, readKpi(metrics, paths)])
+  );
+  values[ROBOT_UTILISATION] = robotTicks > 0 ? busyTicks / robotTicks : null;
+  return { seed, kpis: values, passed: checkAssertions(scenario.assertions, metrics).every((a) => a.passed) };
+};
+
+// Builds each variant's hotel once before anything runs, so a sweep value the
+// scenario can't take (robots=0 when an event breaks R-2) fails up front
+const checkVariants = (variants: Array<{ params: Record<string, number | string>; scenario: Scenario }>, seed: number) =>
+  variants.forEach(({ params, scenario }) => {
+    try {
+      createScenarioEngine(scenario, seed);
+    } catch (error) {
+      const label = Object.entries(params).map(([param, value]) => `${param}=${value}`).join(' ');
+      throw label ? new Error(`Sweep ${label}: ${(error as Error).message}`) : error;
+    }
+  });
+
+/**
+ * Runs every variant on every seed. `onRun` hears each finished run (for
+ * progress); sweeps and each variant's hotel are checked before anything runs.
+ */
+export const runExperiment = (
+  plan: ExperimentPlan,
+  onRun?: (done: number, total: number) => void
+): ExperimentReport => {
+  const kpis = { ...DEFAULT_KPIS, ...plan.kpis };
+  const variants = crossSweeps(plan.sweeps ?? []).map((params) => ({
+    params,
+    scenario: Object.entries(params).reduce((s, [param, value]) => applyParam(s, param, value), plan.scenario),
+  }));
+  checkVariants(variants, plan.seeds[0] ?? 1);
+  const total = variants.length * plan.seeds.length;
+  let done = 0;
+
+  const names = [...Object.keys(kpis), ROBOT_UTILISATION];
+  return {
+    format: REPORT_FORMAT,
+    version: REPORT_VERSION,
+    scenario: plan.scenario.name,
+    seeds: plan.seeds,
+    kpis: names,
+    variants: variants.map(({ params, scenario }) => {
+      const runs = plan.seeds.map((seed) => {
+        const run = runOnce(scenario, seed, kpis);
+        onRun?.(++done, total);
+        return run;
+      });
+      return {
+        params,
+        runs,
+        passRate: runs.filter((run) => run.passed).length / runs.length,
+        kpis: Object.fromEntries(names.map((name) => [
+          name,
+          summarize(runs.map((run) => run.kpis[name])),
+        ])),
+      };
+    }),
+  };
+};
+
+/* ------------------------------ Reports ------------------------------ */
+
+export const serializeReport = (report: ExperimentReport) => JSON.stringify(report, null, 2);
+
+const csvCell = (value: number | string) => {
+  const text = typeof value === 'number' ? String(Math.round(value * 1e4) / 1e4) : value;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per variant: its parameters, run count and pass rate, then each KPI's mean, CI and reporting runs */
+export const reportToCsv = (report: ExperimentReport): string => {
+  const params = Object.keys(report.variants[0]?.params ?? {});
+  const header = [
+    ...params,
+    'runs',
+    'passRate',
+    ...report.kpis.flatMap((kpi) => [`${kpi}_mean`, `${kpi}_ciLow`, `${kpi}_ciHigh`, `${kpi}_n`]),
+  ];
+  const rows = report.variants.map((variant) => [
+    ...params.map((param) => variant.params[param]),
+    variant.runs.length,
+    variant.passRate,
+    ...report.kpis.flatMap((kpi) => {
+      const summary = variant.kpis[kpi];
+      return summary.n > 0 ? [summary.mean, summary.ciLow, summary.ciHigh, summary.n] : ['', '', '', 0];
+    }),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n') + '\n';
+};
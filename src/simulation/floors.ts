@@ -0,0 +1,135 @@
+/* ---------------------------- Floors ---------------------------- */
+
+// A hotel is a stack of same-sized floor grids. floors[0] is the ground floor
+// (the lobby level, SimulationState.grid) and a position without a floor is on
+// it. STAIRS tiles that line up on neighbouring floors link them for guests
+// and staff; elevator shafts link every floor they serve for everyone, robots
+// included (robots can't climb stairs). Agents route one floor at a time: the
+// movement pass walks them to a connector and the vertical transport pass
+// (verticalTransport.ts) carries them up or down.
+
+import { EntityType, type Coordinates } from "../types";
+import { findReachableTiles } from "../utils/pathfinding";
+import { isWalkable } from "../utils/simulationUtils";
+
+export interface ElevatorShaft {
+  id: string;
+  x: number; // The landing tile, the same on every floor served
+  y: number;
+  floors: number[]; // Served floors, ascending
+  capacity: number; // Riders per car
+  ticksPerFloor: number;
+}
+
+export interface Building {
+  floors: EntityType[][][];
+  elevators: ElevatorShaft[];
+  stairs: Coordinates[][]; // Per floor: STAIRS tiles with stairs above or below
+}
+
+// What a change of floor is worth in tiles when comparing distances (walk to the lift, wait, ride)
+export const FLOOR_DISTANCE = 20;
+
+export const floorOf = (tile: Coordinates) => tile.floor ?? 0;
+
+/** The same tile on another floor; ground-floor tiles carry no floor */
+export const onFloor = (tile: Coordinates, floor: number): Coordinates =>
+  floor === 0 ? { x: tile.x, y: tile.y } : { x: tile.x, y: tile.y, floor };
+
+export const samePlace = (a: Coordinates, b: Coordinates) =>
+  a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+
+/** Extra distance for being on different floors (0 on the same floor) */
+export const floorGap = (a: Coordinates, b: Coordinates) =>
+  FLOOR_DISTANCE * Math.abs(floorOf(a) - floorOf(b));
+
+const hasStairs = (floors: EntityType[][][], tile: Coordinates, floor: number) =>
+  floors[floor]?.[tile.y]?.[tile.x] === EntityType.STAIRS;
+
+export const describeBuilding = (floors: EntityType[][][], elevators: ElevatorShaft[] = []): Building => ({
+  floors,
+  elevators,
+  stairs: floors.map((grid, floor) => {
+    const tiles: Coordinates[] = [];
+    grid.forEach((row, y) => row.forEach((cell, x) => {
+      if (cell === EntityType.STAIRS && (hasStairs(floors, { x, y }, floor - 1) || hasStairs(floors, { x, y }, floor + 1))) {
+        tiles.push(onFloor({ x, y }, floor));
+      }
+    }));
+    return tiles;
+  }),
+});
+
+export const isWalkableAt = (building: Building, tile: Coordinates) =>
+  isWalkable(building.floors[floorOf(tile)], tile.x, tile.y);
+
+/** Whether stairs at this tile lead to the given (neighbouring) floor */
+export const stairsLeadTo = (building: Building, tile: Coordinates, floor: number) =>
+  Math.abs(floor - floorOf(tile)) === 1 &&
+  hasStairs(building.floors, tile, floorOf(tile)) &&
+  hasStairs(building.floors, tile, floor);
+
+/** The elevator whose landing this is, if it serves both this floor and `toFloor` */
+export const elevatorAt = (building: Building, tile: Coordinates, toFloor: number) =>
+  building.elevators.find((shaft) =>
+    shaft.x === tile.x && shaft.y === tile.y &&
+    shaft.floors.includes(floorOf(tile)) && shaft.floors.includes(toFloor)
+  );
+
+/** Whether taking this tile's stairs or elevator gets an agent closer to `toFloor` */
+export const isConnectorToward = (building: Building, tile: Coordinates, toFloor: number, canClimb: boolean) => {
+  const floor = floorOf(tile);
+  if (toFloor === floor) return false;
+  return !!elevatorAt(building, tile, toFloor) ||
+    (canClimb && stairsLeadTo(building, tile, floor + Math.sign(toFloor - floor)));
+};
+
+/**
+ * Stairs and elevator landings on `from`'s floor that lead towards `toFloor`,
+ * nearest first. Stairs only count for agents that can climb them.
+ */
+export const findConnectors = (building: Building, from: Coordinates, toFloor: number, canClimb: boolean): Coordinates[] => {
+  const floor = floorOf(from);
+  const candidates = [
+    ...building.elevators.filter((shaft) => shaft.floors.includes(floor) && shaft.floors.includes(toFloor))
+      .map((shaft) => onFloor(shaft, floor)),
+    ...(canClimb ? (building.stairs[floor] ?? []).filter((tile) => isConnectorToward(building, tile, toFloor, true)) : []),
+  ];
+  const distance = (tile: Coordinates) => Math.abs(tile.x - from.x) + Math.abs(tile.y - from.y);
+  return candidates.sort((a, b) => distance(a) - distance(b));
+};
+
+/**
+ * Every tile reachable from `start` on foot, by stairs (when `canClimb`) and
+ * by elevator: one set of `y * width + x` indices per floor.
+ */
+export const findReachableAcross = (building: Building, start: Coordinates, canClimb = true): Set<number>[] => {
+  const { floors } = building;
+  const width = floors[0]?.[0]?.length ?? 0;
+  const height = floors[0]?.length ?? 0;
+  const reached = floors.map(() => new Set<number>());
+  const index = (tile: Coordinates) => tile.y * width + tile.x;
+
+  const pending = [start];
+  while (pending.length > 0) {
+    const seed = pending.pop()!;
+    const floor = floorOf(seed);
+    if (!reached[floor] || reached[floor].has(index(seed))) continue;
+
+    const tiles = findReachableTiles(width, height, seed, (x, y) => isWalkable(floors[floor], x, y));
+    tiles.forEach((tile) => reached[floor].add(tile));
+    building.elevators.forEach((shaft) => {
+      if (shaft.floors.includes(floor) && tiles.has(index(shaft))) {
+        shaft.floors.forEach((to) => pending.push(onFloor(shaft, to)));
+      }
+    });
+    if (!canClimb) continue;
+    (building.stairs[floor] ?? []).forEach((tile) => {
+      if (!tiles.has(index(tile))) return;
+      [floor - 1, floor + 1].forEach((to) => {
+        if (stairsLeadTo(building, tile, to)) pending.push(onFloor(tile, to));
+      });
+    });
+  }
+  return reached;
+};
@@ -0,0 +1,388 @@
+/* ---------------------------- Guest Lifecycle ---------------------------- */
+
+// Guests move through a stay: arrive at the street doors, queue at the
+// reception desk, check in to a suite, spend time in the room, visit the lobby
+// and garden, check out and leave. Arrivals come from due reservations, and
+// check-in/checkout update the room inventory. This pass only advances stages
+// (and keeps Room.assignedGuests in sync); the guest role behaviour turns the
+// current stage into destinations. Parties travel together: the lead guest
+// queues, checks in and picks where to go, and companions mirror the
+// leader's stage and stand beside them.
+
+import {
+  AgentRole,
+  RoomStatus,
+  type Agent,
+  type Coordinates,
+  type EntityType,
+  type GuestStage,
+  type GuestStop,
+  type Room,
+} from "../types";
+import type { Rng } from "../utils/rng";
+import { isWalkable } from "../utils/simulationUtils";
+import type { HotelZones } from "./layout";
+import { findReachableAcross, floorGap, floorOf, type Building } from "./floors";
+import { isOnShift } from "./roleBehaviors";
+import { planOuting, type ActiveSchedule } from "./schedule";
+import {
+  bookInHouseGuest,
+  findCleanSuites,
+  type InventoryLedger,
+  type Reservation,
+} from "./reservations";
+
+export interface GuestFlow {
+  queue: string[]; // Lead guest ids waiting at reception, head first
+  arrivals: number; // Parties; companions check in and out with their leader
+  checkIns: number;
+  checkOuts: number;
+  walkAways: number; // Walked: reached the desk with no clean suite left
+  totalQueueTicks: number; // Arrival to check-in, summed over checked-in guests
+}
+
+export interface GuestStageChange {
+  guestId: string;
+  stage: GuestStage | 'DEPARTED';
+  previousStage?: GuestStage;
+  roomId?: string;
+}
+
+export interface GuestLifecycleUpdate {
+  agents: Agent[];
+  rooms: Room[];
+  flow: GuestFlow;
+  changes: GuestStageChange[];
+}
+
+const CHECK_IN_TICKS = 4;
+const CHECKOUT_TICKS = 2;
+const ROOM_STAY = { min: 40, spread: 61 }; // 2-5 sim hours in the suite
+const STOP_DWELL = { min: 10, spread: 11 }; // 30-60 sim minutes per stop
+const ROOM_WAIT_LIMIT = 60; // Ticks since arrival a guest will wait for a suite to be cleaned
+const DESK_REACH = 3; // Concierge robots this close to reception can check guests in
+// Where companions stand relative to the leader's destination, in party order
+const COMPANION_OFFSETS: Coordinates[] = [{ x: 0, y: 0 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+const samePosition = (a: Coordinates, b: Coordinates) => a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+// The line forms straight down from the desk towards the doors
+const queueSlot = ({ RECEPTION, ENTRANCE }: HotelZones, index: number): Coordinates => ({
+  x: RECEPTION.x,
+  y: Math.min(RECEPTION.y + 1 + index, ENTRANCE.y - 1),
+});
+
+/** Companions follow their party's leader rather than running their own stay */
+export const isCompanion = (agent: Agent) =>
+  !!agent.stay?.party && agent.stay.party.leaderId !== agent.id;
+
+const shuffleStops = (rng: Rng): GuestStop[] =>
+  rng.next() < 0.5 ? ['LOBBY', 'GARDEN'] : ['GARDEN', 'LOBBY'];
+
+const isDeskStaffed = (agents: Agent[], desk: Coordinates, timeOfDay: number) =>
+  agents.some((a) =>
+    (a.role === AgentRole.STAFF_HUMAN && isOnShift(a, timeOfDay) &&
+      a.position.y === desk.y && Math.abs(a.position.x - desk.x) <= 1 && floorOf(a.position) === floorOf(desk)) ||
+    (a.role === AgentRole.ROBOT_CONCIERGE && a.state !== 'CHARGING' &&
+      manhattan(a.position, desk) <= DESK_REACH)
+  );
+
+/** Suites a guest can actually get to from the entrance (some wings are walled off) */
+export const findReachableSuites = (building: Building, rooms: Room[], entrance: Coordinates): Set<string> => {
+  const width = building.floors[0]?.[0]?.length ?? 0;
+  const reachedOn = findReachableAcross(building, entrance);
+
+  const suites = rooms.filter((room) => {
+    if (room.type !== 'SUITE') return false;
+    const reached = reachedOn[floorOf(room.topLeft)];
+    for (let y = room.topLeft.y; y <= room.bottomRight.y; y++) {
+      for (let x = room.topLeft.x; x <= room.bottomRight.x; x++) {
+        if (reached?.has(y * width + x)) return true;
+      }
+    }
+    return false;
+  });
+  return new Set(suites.map((room) => room.id));
+};
+
+/**
+ * Gives the generated guests a reservation and a stay: checked in mid-visit
+ * while clean suites last, queueing after that
+ */
+export const initGuestStays = (
+  agents: Agent[],
+  rooms: Room[],
+  ledger: InventoryLedger,
+  rng: Rng
+): Omit<GuestLifecycleUpdate, 'changes'> => {
+  let nextRooms = rooms;
+  const queue: string[] = [];
+  let checkIns = 0;
+
+  const nextAgents = agents.map((agent): Agent => {
+    if (agent.role !== AgentRole.GUEST || agent.stay) return agent;
+
+    const reservation = bookInHouseGuest(ledger, agent.id, 0, rng);
+    const booking = { reservationId: reservation.id, departureTick: reservation.departureTick };
+    const room = rng.pick(findCleanSuites(ledger.book(), nextRooms));
+    if (!room) {
+      ledger.setReservationStatus(reservation.id, 'ARRIVED');
+      queue.push(agent.id);
+      return { ...agent, stay: { stage: 'QUEUEING', stops: [], arrivedAt: 0, ...booking } };
+    }
+
+    ledger.setRoomStatus(room.id, RoomStatus.OCCUPIED, 0);
+    ledger.setReservationStatus(reservation.id, 'CHECKED_IN', { roomId: room.id });
+    nextRooms = nextRooms.map((r) => (r.id === room.id ? { ...r, assignedGuests: [agent.id] } : r));
+    checkIns++;
+    return {
+      ...agent,
+      stay: { stage: 'VISITING', roomId: room.id, stops: shuffleStops(rng), arrivedAt: 0, checkedInAt: 0, ...booking },
+    };
+  });
+
+  return {
+    agents: nextAgents,
+    rooms: nextRooms,
+    flow: {
+      queue,
+      arrivals: 0,
+      checkIns,
+      checkOuts: 0,
+      walkAways: 0,
+      totalQueueTicks: 0,
+    },
+  };
+};
+
+export const updateGuestLifecycle = (
+  agents: Agent[],
+  rooms: Room[],
+  flow: GuestFlow,
+  due: Reservation[],
+  ctx: {
+    tick: number;
+    timeOfDay: number;
+    rng: Rng;
+    ledger: InventoryLedger;
+    floors: EntityType[][][];
+    zones: HotelZones;
+    schedule: ActiveSchedule;
+  }
+): GuestLifecycleUpdate => {
+  const { tick, rng, ledger, zones, schedule } = ctx;
+  let nextRooms = rooms;
+  const nextFlow: GuestFlow = { ...flow, queue: [...flow.queue] };
+  const changes: GuestStageChange[] = [];
+
+  const setRoomGuests = (roomId: string, update: (ids: string[]) => string[]) => {
+    nextRooms = nextRooms.map((r) => (r.id === roomId ? { ...r, assignedGuests: update(r.assignedGuests ?? []) } : r));
+  };
+  const leaveQueue = (guestId: string) => {
+    nextFlow.queue = nextFlow.queue.filter((id) => id !== guestId);
+  };
+
+  // 1. Arrivals - parties whose reservation is due walk in; the leader joins the line
+  const arrivals = due.flatMap((reservation): Agent[] => {
+    nextFlow.queue.push(reservation.guestId);
+    nextFlow.arrivals++;
+    const party = reservation.companionIds.length > 0
+      ? { id: reservation.id, kind: reservation.party, leaderId: reservation.guestId }
+      : undefined;
+
+    return [reservation.guestId, ...reservation.companionIds].map((guestId): Agent => {
+      const position = { ...zones.ENTRANCE };
+      changes.push({ guestId, stage: 'QUEUEING' });
+      return {
+        id: guestId,
+        role: AgentRole.GUEST,
+        position,
+        previousPosition: { ...position },
+        target: null,
+        state: 'WALKING',
+        mood: 'Neutral',
+        stay: {
+          stage: 'QUEUEING',
+          stops: [],
+          arrivedAt: tick,
+          reservationId: reservation.id,
+          departureTick: reservation.departureTick,
+          ...(party && { party }),
+        },
+      };
+    });
+  });
+  const all = [...agents, ...arrivals];
+  const partyOf = (leaderId: string) =>
+    all.filter((a) => a.stay?.party?.leaderId === leaderId).map((a) => a.id);
+
+  // 2. Advance each guest's stay
+  const deskStaffed = isDeskStaffed(agents, zones.RECEPTION, ctx.timeOfDay);
+  const departed = new Set<string>();
+
+  const led = all.map((agent): Agent => {
+    const stay = agent.stay;
+    if (!stay || isCompanion(agent)) return agent;
+
+    // A new stage means a new destination: drop the old plan
+    const advance = (stage: GuestStage, patch: Partial<typeof stay> = {}): Agent => {
+      changes.push({ guestId: agent.id, stage, previousStage: stay.stage, roomId: patch.roomId ?? stay.roomId });
+      return {
+        ...agent,
+        stay: { ...stay, stageUntil: undefined, waypoint: undefined, ...patch, stage },
+        target: null,
+        route: undefined,
+        task: undefined,
+      };
+    };
+    const update = (patch: Partial<typeof stay>, replan = false): Agent => ({
+      ...agent,
+      stay: { ...stay, ...patch },
+      ...(replan && { target: null, route: undefined }),
+    });
+    const timerDone = stay.stageUntil !== undefined && tick >= stay.stageUntil;
+    // During the checkout peak, guests leaving later in the day go now
+    const departureDue = stay.departureTick !== undefined && tick >= stay.departureTick - schedule.checkoutWindowTicks;
+
+    switch (stay.stage) {
+      case 'QUEUEING': {
+        const index = nextFlow.queue.indexOf(agent.id);
+        if (index === -1) nextFlow.queue.push(agent.id);
+        const slot = queueSlot(zones, index === -1 ? nextFlow.queue.length - 1 : index);
+        if (index === 0 && deskStaffed && samePosition(agent.position, slot)) {
+          return advance('CHECKING_IN', { waypoint: slot, stageUntil: tick + CHECK_IN_TICKS });
+        }
+        // The line moved up: step forward
+        return stay.waypoint && samePosition(stay.waypoint, slot) ? agent : update({ waypoint: slot }, true);
+      }
+
+      case 'CHECKING_IN': {
+        if (!timerDone) return agent;
+        const room = rng.pick(findCleanSuites(ledger.book(), nextRooms));
+        if (!room && tick - stay.arrivedAt < ROOM_WAIT_LIMIT &&
+            Object.values(ledger.book().roomStatus).includes(RoomStatus.VACANT_DIRTY)) {
+          // A suite is being turned around: hold on at the desk a little longer
+          return update({ stageUntil: tick + CHECK_IN_TICKS });
+        }
+        leaveQueue(agent.id);
+        if (!room) {
+          // Overbooked: the guest is walked to another hotel
+          if (stay.reservationId) ledger.setReservationStatus(stay.reservationId, 'WALKED');
+          nextFlow.walkAways++;
+          return advance('DEPARTING', { waypoint: { ...zones.ENTRANCE } });
+        }
+        ledger.setRoomStatus(room.id, RoomStatus.OCCUPIED, tick);
+        if (stay.reservationId) ledger.setReservationStatus(stay.reservationId, 'CHECKED_IN', { roomId: room.id });
+        setRoomGuests(room.id, (ids) => [...ids, ...(stay.party ? partyOf(agent.id) : [agent.id])]);
+        nextFlow.checkIns++;
+        nextFlow.totalQueueTicks += tick - stay.arrivedAt;
+        return advance('IN_ROOM', { roomId: room.id, checkedInAt: tick });
+      }
+
+      case 'IN_ROOM': {
+        const room = nextRooms.find((r) => r.id === stay.roomId);
+        if (departureDue) {
+          // Time to leave: one last look round the lobby on the way to checkout
+          return advance('VISITING', { stops: ['LOBBY'] });
+        }
+        // Breakfast or a nightcap can get guests out before they planned
+        const headingOut = stay.stageUntil !== undefined && schedule.outingChance > 0 && rng.next() < schedule.outingChance;
+        if (!room || timerDone || headingOut) {
+          return advance('VISITING', { stops: planOuting(shuffleStops(rng), schedule) });
+        }
+        // The stay clock starts once the guest is actually in the suite
+        if (stay.stageUntil === undefined && isInside(agent.position, room)) {
+          return update({ stageUntil: tick + ROOM_STAY.min + rng.int(ROOM_STAY.spread) });
+        }
+        return agent;
+      }
+
+      case 'VISITING': {
+        const [stop, ...rest] = stay.stops;
+        const area = stop && nextRooms.find((r) => r.type === stop);
+        if (!stop) {
+          // Back to the suite until the booked departure
+          return departureDue || stay.departureTick === undefined
+            ? advance('CHECKING_OUT', { waypoint: { ...zones.CHECKOUT } })
+            : advance('IN_ROOM');
+        }
+        if (!area || timerDone || (stay.stageUntil === undefined && schedule.closedStops.includes(stop))) {
+          return update({ stops: rest, stageUntil: undefined }, true);
+        }
+        if (departureDue && rest.length > 0) {
+          return update({ stops: [stop] }); // Skip the rest of the outing
+        }
+        if (stay.stageUntil === undefined && isInside(agent.position, area)) {
+          return update({ stageUntil: tick + Math.round((STOP_DWELL.min + rng.int(STOP_DWELL.spread)) * schedule.stopDwell) });
+        }
+        return agent;
+      }
+
+      case 'CHECKING_OUT': {
+        if (!stay.waypoint || !samePosition(agent.position, stay.waypoint)) return agent;
+        if (stay.stageUntil === undefined) return update({ stageUntil: tick + CHECKOUT_TICKS });
+        if (!timerDone) return agent;
+        if (stay.roomId) {
+          const leaving = stay.party ? partyOf(agent.id) : [agent.id];
+          setRoomGuests(stay.roomId, (ids) => ids.filter((id) => !leaving.includes(id)));
+          ledger.setRoomStatus(stay.roomId, RoomStatus.VACANT_DIRTY, tick);
+        }
+        if (stay.reservationId) ledger.setReservationStatus(stay.reservationId, 'CHECKED_OUT');
+        nextFlow.checkOuts++;
+        return advance('DEPARTING', { waypoint: { ...zones.ENTRANCE } });
+      }
+
+      case 'DEPARTING': {
+        if (stay.waypoint && samePosition(agent.position, stay.waypoint)) {
+          departed.add(agent.id);
+          changes.push({ guestId: agent.id, stage: 'DEPARTED', previousStage: stay.stage, roomId: stay.roomId });
+        }
+        return agent;
+      }
+    }
+  });
+
+  // 3. Companions mirror their leader's stage and stand beside them; they leave together
+  const isFree = (tile: Coordinates) => isWalkable(ctx.floors[floorOf(tile)], tile.x, tile.y);
+  const nextAgents = led.map((agent): Agent => {
+    const stay = agent.stay;
+    if (!stay?.party || !isCompanion(agent)) return agent;
+
+    const leader = led.find((a) => a.id === stay.party?.leaderId);
+    if (!leader?.stay || departed.has(leader.id)) {
+      departed.add(agent.id);
+      changes.push({ guestId: agent.id, stage: 'DEPARTED', previousStage: stay.stage, roomId: stay.roomId });
+      return agent;
+    }
+
+    const lead = leader.stay;
+    if (lead.stage !== stay.stage) {
+      changes.push({ guestId: agent.id, stage: lead.stage, previousStage: stay.stage, roomId: lead.roomId });
+    }
+    const place = partyOf(leader.id).indexOf(agent.id) + 1;
+    const anchor = leader.target ?? leader.position;
+    const offset = COMPANION_OFFSETS[place % COMPANION_OFFSETS.length];
+    const beside = { ...anchor, x: anchor.x + offset.x, y: anchor.y + offset.y };
+    const spot = isFree(beside) ? beside : anchor;
+    const moved = !stay.waypoint || !samePosition(stay.waypoint, spot);
+
+    return {
+      ...agent,
+      stay: { ...lead, party: stay.party, arrivedAt: stay.arrivedAt, waypoint: spot },
+      ...(moved && { target: null, route: undefined }),
+    };
+  });
+
+  return {
+    agents: departed.size > 0 ? nextAgents.filter((a) => !departed.has(a.id)) : nextAgents,
+    rooms: nextRooms,
+    flow: nextFlow,
+    changes,
+  };
+};
@@ -0,0 +1,93 @@
+/* ---------------------------- Guest Services ---------------------------- */
+
+// Dispatcher jobs that come straight from guests rather than the ticket board:
+// room-service orders (a waiter collects the tray at the service hub and
+// delivers it to the suite door) and assistance for guests left waiting in
+// the reception line (a concierge robot goes over to them).
+
+import { AgentRole, type Agent, type Coordinates, type Room } from "../types";
+import type { Rng } from "../utils/rng";
+import type { HotelZones } from "./layout";
+import { isCompanion } from "./guestLifecycle";
+import { hasOpenJob, type DispatcherState, type JobRequest } from "./dispatcher";
+import { floorOf } from "./floors";
+
+export interface GuestServicesState {
+  nextOrderNumber: number;
+  nextAssistNumber: number;
+  assisted: string[]; // Guests still in line who have had their visit
+}
+
+const ROOM_SERVICE_CHANCE = 0.0015; // Per tick, per guest resting in their suite
+const ROOM_SERVICE_TICKS = 3;
+const ASSIST_AFTER_TICKS = 10; // Time in line before a concierge comes over
+const ASSIST_TICKS = 3;
+
+// Trays are collected from the kitchen pass at the end of the hub
+const trayPickup = ({ SERVICE_HUB: hub }: HotelZones): Coordinates => ({ x: hub.x + hub.w - 1, y: hub.y });
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+const formatId = (prefix: string, n: number) => `${prefix}-${String(n).padStart(4, '0')}`;
+
+export const createGuestServicesState = (): GuestServicesState => ({
+  nextOrderNumber: 1,
+  nextAssistNumber: 1,
+  assisted: [],
+});
+
+export const updateGuestServices = (
+  services: GuestServicesState,
+  agents: Agent[],
+  rooms: Room[],
+  dispatcher: DispatcherState,
+  ctx: { tick: number; rng: Rng; doors: Record<string, Coordinates>; zones: HotelZones; roomServiceRate: number }
+): { services: GuestServicesState; requests: JobRequest[] } => {
+  const { tick, rng } = ctx;
+  const next = {
+    ...services,
+    assisted: services.assisted.filter((id) => agents.some((a) => a.id === id && a.stay?.stage === 'QUEUEING')),
+  };
+  const requests: JobRequest[] = [];
+
+  agents.forEach((agent) => {
+    const stay = agent.stay;
+    // Parties order and ask for help through their lead guest
+    if (agent.role !== AgentRole.GUEST || !stay || isCompanion(agent)) return;
+
+    if (stay.stage === 'IN_ROOM') {
+      const suite = rooms.find((r) => r.id === stay.roomId);
+      const door = suite && ctx.doors[suite.id];
+      if (!suite || !door || !isInside(agent.position, suite) || hasOpenJob(dispatcher, 'ROOM_SERVICE', agent.id)) return;
+      if (rng.next() < ROOM_SERVICE_CHANCE * ctx.roomServiceRate) {
+        requests.push({
+          id: formatId('RS', next.nextOrderNumber++),
+          kind: 'ROOM_SERVICE',
+          roles: [AgentRole.ROBOT_WAITER],
+          pickup: trayPickup(ctx.zones),
+          target: door,
+          duration: ROOM_SERVICE_TICKS,
+          subject: agent.id,
+        });
+      }
+      return;
+    }
+
+    if (stay.stage === 'QUEUEING' && tick - stay.arrivedAt >= ASSIST_AFTER_TICKS && !next.assisted.includes(agent.id)) {
+      next.assisted = [...next.assisted, agent.id];
+      requests.push({
+        id: formatId('GA', next.nextAssistNumber++),
+        kind: 'GUEST_ASSIST',
+        roles: [AgentRole.ROBOT_CONCIERGE],
+        target: stay.waypoint ?? agent.position,
+        duration: ASSIST_TICKS,
+        subject: agent.id,
+      });
+    }
+  });
+
+  return { services: next, requests };
+};
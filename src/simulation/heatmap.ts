@@ -0,0 +1,115 @@
+/* ---------------------------- Crowd Heatmap ---------------------------- */
+
+// Where people actually spend their time. The collector notes every agent's
+// tile at the end of each tick and keeps the last day of those frames, so a
+// heatmap can be cut for any window up to that (the last hour, the last
+// day) and any set of roles without re-running anything. Per tile it counts
+// visits (an agent stepping onto it) and dwell (agent-ticks spent on it):
+// guests congregating in the lobby show up as dwell, a robot stuck at a
+// doorway as dwell with few visits. The SVG backdrop draws it as an overlay.
+
+import type { AgentRole, Coordinates } from "../types";
+import { floorOf, samePlace } from "./floors";
+import type { SimulationEngine, SimulationState } from "./simulationEngine";
+
+/** Window choices in ticks: 1, 3, 8 and 24 sim hours */
+export const HEATMAP_WINDOWS = [20, 60, 160, 480] as const;
+
+export type HeatBy = 'DWELL' | 'VISITS';
+
+export interface HeatmapQuery {
+  window: number; // Ticks, counting back from the latest
+  roles?: AgentRole[]; // Everyone when absent
+  by?: HeatBy; // What `heat` scales with (default DWELL)
+}
+
+export interface HeatTile {
+  x: number;
+  y: number;
+  floor: number;
+  visits: number;
+  dwell: number; // Agent-ticks
+  heat: number; // 0-1, relative to the hottest tile
+}
+
+export interface Heatmap {
+  ticks: number; // Ticks the window actually covers (fewer early in a run)
+  tiles: HeatTile[]; // Tiles anyone stood on, hottest first
+}
+
+interface Mark {
+  x: number;
+  y: number;
+  floor: number;
+  role: AgentRole;
+  entered: boolean; // Not on this tile the tick before
+}
+
+interface Frame {
+  tick: number;
+  marks: Mark[];
+}
+
+/**
+ * Notes agent tiles every tick until stop(). A tick that doesn't follow the
+ * last one seen (snapshot or scenario loaded) starts over.
+ */
+export class HeatmapCollector {
+  private frames: Frame[] = [];
+  private positions = new Map<string, Coordinates>();
+  private maxWindow: number;
+  private unsubscribe: () => void;
+
+  constructor(engine: SimulationEngine, maxWindow: number = HEATMAP_WINDOWS[HEATMAP_WINDOWS.length - 1]) {
+    this.maxWindow = maxWindow;
+    this.unsubscribe = engine.subscribeTicks((state) => this.record(state));
+  }
+
+  stop() {
+    this.unsubscribe();
+  }
+
+  reset() {
+    this.frames = [];
+    this.positions.clear();
+  }
+
+  private record({ tick, agents }: SimulationState) {
+    const last = this.frames[this.frames.length - 1];
+    if (last && tick !== last.tick + 1) this.reset();
+    const marks = agents.map(({ id, role, position }) => {
+      const previous = this.positions.get(id);
+      this.positions.set(id, position);
+      return { x: position.x, y: position.y, floor: floorOf(position), role, entered: !previous || !samePlace(previous, position) };
+    });
+    this.frames.push({ tick, marks });
+    if (this.frames.length > this.maxWindow) this.frames.shift();
+  }
+
+  /** Visits and dwell per tile over the last `window` ticks, for the roles asked for */
+  getHeatmap({ window, roles, by = 'DWELL' }: HeatmapQuery): Heatmap {
+    const frames = this.frames.slice(-window);
+    const wanted = roles && new Set(roles);
+    const tiles = new Map<string, HeatTile>();
+    frames.forEach(({ marks }) => marks.forEach(({ x, y, floor, role, entered }) => {
+      if (wanted && !wanted.has(role)) return;
+      const key = `${x},${y},${floor}`;
+      const tile = tiles.get(key) ?? { x, y, floor, visits: 0, dwell: 0, heat: 0 };
+      if (entered) tile.visits++;
+      tile.dwell++;
+      tiles.set(key, tile);
+    }));
+
+    const value = (tile: HeatTile) => (by === 'VISITS' ? tile.visits : tile.dwell);
+    const hottest = Math.max(1, ...[...tiles.values()].map(value));
+    return {
+      ticks: frames.length,
+      tiles: [...tiles.values()]
+        .map((tile) => ({ ...tile, heat: value(tile) / hottest }))
+        .sort((a, b) => b.heat - a.heat),
+    };
+  }
+}
+
+/** Heat colour shared by both maps: cyan when cool, through green and yellow, red at the hottest tile */
+export const heatColor = (heat: number) => `hsl(${Math.round(190 - 190 * Math.min(1, Math.max(0, heat)))}, 90%, 55%)`;
@@ -0,0 +1,157 @@
+/* ---------------------------- Housekeeping ---------------------------- */
+
+// Checkout leaves a suite VACANT_DIRTY. Every dirty suite gets a turnover task,
+// queued with the dispatcher as a TURNOVER job behind guest-facing work: the
+// waiter robot or STAFF_HUMAN off the desk it picks walks to the suite's
+// ROOM_DOOR, services it (SERVICING) and the suite goes back to VACANT_CLEAN.
+// Abandoned tasks (flat battery, escalation, a desk shift) go back in the queue.
+
+import {
+  AgentRole,
+  EntityType,
+  RoomStatus,
+  type Agent,
+  type Coordinates,
+  type Room,
+} from "../types";
+import { isOnShift } from "./roleBehaviors";
+import { findReachableAcross, floorOf, onFloor, type Building } from "./floors";
+import type { DispatcherState, JobChange, JobRequest } from "./dispatcher";
+import type { InventoryLedger } from "./reservations";
+
+export interface HousekeepingTask {
+  id: string; // Also the dispatcher job's id
+  roomId: string;
+  door: Coordinates;
+  createdAt: number; // Tick
+  assignedTo?: string; // Mirrored from the job
+}
+
+export interface HousekeepingState {
+  tasks: HousekeepingTask[];
+  completed: number;
+  turnover: Record<string, { count: number; totalTicks: number }>; // Dirty to clean, per suite
+}
+
+export interface HousekeepingUpdate {
+  housekeeping: HousekeepingState;
+  agents: Agent[];
+  requests: JobRequest[]; // New tasks, for the dispatcher
+  withdrawn: string[]; // Jobs for suites no longer dirty
+}
+
+const CLEAN_TICKS = 12; // 36 sim minutes per suite
+const samePosition = (a: Coordinates, b: Coordinates) => a.x === b.x && a.y === b.y && floorOf(a) === floorOf(b);
+
+// Waiters preferred; staff only when off the desk (the dispatcher checks shifts)
+const TURNOVER_ROLES = [AgentRole.ROBOT_WAITER, AgentRole.STAFF_HUMAN];
+
+export const createHousekeepingState = (): HousekeepingState => ({ tasks: [], completed: 0, turnover: {} });
+
+/**
+ * The door housekeeping uses for each suite: the first one reachable from the
+ * entrance. Suites the garden has grown over have no door left; any reachable
+ * tile inside them will do.
+ */
+export const findSuiteDoors = (building: Building, rooms: Room[], entrance: Coordinates): Record<string, Coordinates> => {
+  const width = building.floors[0]?.[0]?.length ?? 0;
+  const reachedOn = findReachableAcross(building, entrance);
+
+  const doors: Record<string, Coordinates> = {};
+  rooms.forEach((room) => {
+    if (room.type !== 'SUITE') return;
+    const floor = floorOf(room.topLeft);
+    const grid = building.floors[floor];
+    const reached = reachedOn[floor];
+    if (!grid || !reached) return;
+    let fallback: Coordinates | undefined;
+    for (let y = room.topLeft.y; y <= room.bottomRight.y && !doors[room.id]; y++) {
+      for (let x = room.topLeft.x; x <= room.bottomRight.x; x++) {
+        if (!reached.has(y * width + x)) continue;
+        if (grid[y]?.[x] === EntityType.ROOM_DOOR) {
+          doors[room.id] = onFloor({ x, y }, floor);
+          break;
+        }
+        fallback ??= onFloor({ x, y }, floor);
+      }
+    }
+    if (!doors[room.id] && fallback) doors[room.id] = fallback;
+  });
+  return doors;
+};
+
+/**
+ * Opens a turnover task for every newly dirty suite and queues it with the
+ * dispatcher, which hands it to a waiter robot or a member of staff off the
+ * desk. Tasks for suites no longer dirty are withdrawn, and staff whose desk
+ * shift has started drop their turnover to go to the desk.
+ */
+export const updateHousekeeping = (
+  housekeeping: HousekeepingState,
+  agents: Agent[],
+  dispatcher: DispatcherState,
+  ctx: { tick: number; timeOfDay: number; ledger: InventoryLedger; doors: Record<string, Coordinates> }
+): HousekeepingUpdate => {
+  const { tick, ledger } = ctx;
+  const requests: JobRequest[] = [];
+  const withdrawn: string[] = [];
+
+  // 1. Drop tasks for suites no longer dirty (taken out of service)
+  let tasks = housekeeping.tasks.filter((task) => {
+    if (ledger.book().roomStatus[task.roomId] === RoomStatus.VACANT_DIRTY) return true;
+    withdrawn.push(task.id);
+    return false;
+  });
+
+  // 2. One task per dirty suite
+  Object.entries(ledger.book().roomStatus).forEach(([roomId, status]) => {
+    const door = ctx.doors[roomId];
+    if (status !== RoomStatus.VACANT_DIRTY || !door || tasks.some((t) => t.roomId === roomId)) return;
+    tasks = [...tasks, { id: `HK-${roomId}-${tick}`, roomId, door, createdAt: tick }];
+  });
+
+  // 3. Every task without a job gets one (new tasks, and tasks from older snapshots)
+  tasks.forEach((task) => {
+    if (dispatcher.jobs.some((job) => job.id === task.id)) return;
+    requests.push({ id: task.id, kind: 'TURNOVER', roles: TURNOVER_ROLES, target: task.door, duration: CLEAN_TICKS });
+  });
+
+  // 4. The desk comes first: staff whose shift has started on the way to a suite leave it to someone
+  // else (one already cleaning finishes; the dispatcher would count an abandoned clean as done)
+  const nextAgents = agents.map((agent) =>
+    agent.role === AgentRole.STAFF_HUMAN && agent.task?.kind === 'HOUSEKEEPING' &&
+    isOnShift(agent, ctx.timeOfDay) && !samePosition(agent.position, agent.task.target)
+      ? { ...agent, task: undefined, target: null, route: undefined }
+      : agent
+  );
+
+  return { housekeeping: { ...housekeeping, tasks }, agents: nextAgents, requests, withdrawn };
+};
+
+/** Mirrors what the dispatcher did with turnover jobs: a completed one leaves the suite clean */
+export const applyTurnoverJobChanges = (
+  housekeeping: HousekeepingState,
+  jobChanges: JobChange[],
+  ctx: { tick: number; ledger: InventoryLedger }
+): HousekeepingState => {
+  const { tick, ledger } = ctx;
+  let { tasks, completed } = housekeeping;
+  const turnover = { ...housekeeping.turnover };
+
+  jobChanges.forEach(({ job, previousStatus }) => {
+    const task = tasks.find((t) => t.id === job.id);
+    if (job.kind !== 'TURNOVER' || !previousStatus || !task) return;
+    if (job.status === 'COMPLETED') {
+      const dirtyFor = tick - (ledger.book().statusSince[task.roomId] ?? tick);
+      const stats = turnover[task.roomId] ?? { count: 0, totalTicks: 0 };
+      turnover[task.roomId] = { count: stats.count + 1, totalTicks: stats.totalTicks + dirtyFor };
+      ledger.setRoomStatus(task.roomId, RoomStatus.VACANT_CLEAN, tick);
+      completed++;
+      tasks = tasks.filter((t) => t !== task);
+      return;
+    }
+    tasks = tasks.map((t) => (t === task ? { ...t, assignedTo: job.status === 'ASSIGNED' ? job.assignedTo : undefined } : t));
+  });
+
+  return { tasks, completed, turnover };
+};
@@ -0,0 +1,445 @@
+/* ---------------------------- Incidents ---------------------------- */
+
+// Emergencies the Director sets off in a room. A fire alarm or a power cut
+// evacuates the hotel: guests and staff make for the nearest exit once the
+// alarm registers with them (at once in the room it started in, later for
+// guests resting in their suites, later still at night), the lifts go out of
+// service, and the robots turn guides and fetch whoever hasn't started
+// moving. A medical emergency brings the nearest staff member over to treat
+// the patient, with a robot to assist. An agent on incident duty
+// (Agent.incident) is left alone by the rest of the hotel until the all clear.
+
+import { AgentRole, type Agent, type Coordinates, type IncidentDuty, type Room } from "../types";
+import { isRobot } from "../utils/simulationUtils";
+import { floorGap, floorOf, isWalkableAt, onFloor, samePlace, type Building } from "./floors";
+import { isOnShift } from "./roleBehaviors";
+import type { HotelZones } from "./layout";
+
+export type IncidentKind = 'FIRE_ALARM' | 'POWER_LOSS' | 'MEDICAL';
+
+export const INCIDENT_KINDS: IncidentKind[] = ['FIRE_ALARM', 'POWER_LOSS', 'MEDICAL'];
+
+// CLEAR: everyone is out and waiting at the exits for the all clear
+export type IncidentStatus = 'ACTIVE' | 'CLEAR' | 'RESOLVED';
+
+export type IncidentResolution = 'ALL_CLEAR' | 'TREATED' | 'TIMEOUT' | 'DIRECTOR';
+
+export interface Incident {
+  id: string;
+  kind: IncidentKind;
+  roomId: string;
+  origin: Coordinates; // Centre of the room it started in
+  startedAt: number; // Tick
+  status: IncidentStatus;
+  evacuees: string[]; // Guests and staff inside when the alarm went off
+  outTicks: Record<string, number>; // Evacuee id -> ticks it took them to get out
+  guided: string[]; // Evacuees a robot fetched before they had started moving
+  congestion: Record<string, number>; // "x,y" ("x,y,floor" upstairs) -> ticks evacuees were held up there
+  evacuatedAt?: number; // Tick the last evacuee got out
+  patientId?: string;
+  responders: string[]; // Medical: the staff member treating, then the robot assisting
+  respondedAt?: number; // Medical: first responder at the patient's side
+  treatmentLeft?: number; // Medical: ticks of treatment still to go
+  resolvedAt?: number;
+  resolution?: IncidentResolution;
+}
+
+export interface IncidentLog {
+  incidents: Incident[]; // Oldest first, resolved ones included
+  nextId: number;
+}
+
+export interface IncidentChange {
+  incident: Incident;
+  kind: 'STARTED' | 'EVACUATED' | 'RESOLVED';
+}
+
+/** What an incident is judged by, so far or in the end */
+export interface IncidentReport {
+  incidentId: string;
+  kind: IncidentKind;
+  roomId: string;
+  status: IncidentStatus;
+  elapsedTicks: number; // Start to now, or to the all clear
+  evacuees: number;
+  evacuated: number; // Out so far
+  guided: number;
+  evacuationTicks?: number; // Start to the last evacuee out
+  avgEgressTicks: number; // Start to out, over the evacuees out
+  stragglers: string[]; // Evacuees not out within STRAGGLER_TICKS
+  congestion: Array<{ x: number; y: number; floor?: number; waitTicks: number }>; // Worst first
+  patientId?: string;
+  responseTicks?: number; // Start to the first responder at the patient's side
+}
+
+// Ticks before the alarm registers and an evacuee starts moving
+const REACTION_TICKS = {
+  AT_ORIGIN: 0, // In the room where it started
+  STAFF: 0,
+  ABOUT: 2, // Up and about in the hotel
+  BUSY: 4, // Chatting or watching a robot
+  IN_SUITE: 10,
+  ASLEEP: 20, // In the suite between midnight and 06:00
+} as const;
+
+export const STRAGGLER_TICKS = 40; // Evacuees still inside after this are stragglers
+const ALL_CLEAR_TICKS = 20; // Everyone waits at the exits this long before going back in
+const INCIDENT_TIMEOUT_TICKS = 160; // The all clear comes regardless (trapped in a lift, nobody to treat)
+const TREATMENT_TICKS = 15;
+
+const NEIGHBOURS = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+
+const tileKey = (tile: Coordinates) => floorOf(tile) > 0 ? `${tile.x},${tile.y},${floorOf(tile)}` : `${tile.x},${tile.y}`;
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+const roomCentre = (room: Room): Coordinates => onFloor({
+  x: Math.floor((room.topLeft.x + room.bottomRight.x) / 2),
+  y: Math.floor((room.topLeft.y + room.bottomRight.y) / 2),
+}, floorOf(room.topLeft));
+
+const nearest = <T extends Coordinates>(from: Coordinates, tiles: T[]): T =>
+  tiles.reduce((best, tile) => (manhattan(from, tile) < manhattan(from, best) ? tile : best));
+
+const nearestAgent = (from: Coordinates, agents: Agent[]): Agent | undefined =>
+  agents.length > 0
+    ? agents.reduce((best, a) => (manhattan(from, a.position) < manhattan(from, best.position) ? a : best))
+    : undefined;
+
+const isHuman = (agent: Agent) => agent.role === AgentRole.GUEST || agent.role === AgentRole.STAFF_HUMAN;
+
+// Robots with power to help: not docked and not run flat
+const canHelp = (agent: Agent) =>
+  isRobot(agent) && !agent.incident && agent.state !== 'CHARGING' && (agent.battery ?? 100) > 0;
+
+const formatIncidentId = (n: number) => `INC-${String(n).padStart(4, '0')}`;
+
+export const createIncidentLog = (): IncidentLog => ({ incidents: [], nextId: 1 });
+
+export const isEvacuation = (incident: Incident) => incident.kind !== 'MEDICAL';
+
+export const findActiveIncidents = (log: IncidentLog) => log.incidents.filter((i) => i.status !== 'RESOLVED');
+
+export const isEvacuating = (log: IncidentLog) => findActiveIncidents(log).some(isEvacuation);
+
+/** Whether the power is out, so the lift cars stand still */
+export const isPowerCut = (log: IncidentLog) => findActiveIncidents(log).some((i) => i.kind === 'POWER_LOSS');
+
+/** Designated exits: the entrance and the layout's fire exits */
+export const findExits = (zones: HotelZones): Coordinates[] => [zones.ENTRANCE, ...(zones.EXITS ?? [])];
+
+/** The building as routing sees it during an evacuation: the lifts are out of service */
+export const withoutLifts = (building: Building): Building => ({ ...building, elevators: [] });
+
+/* ------------------------------ Starting ------------------------------ */
+
+const reactionTicks = (agent: Agent, origin: Room, rooms: Room[], timeOfDay: number) => {
+  if (isInside(agent.position, origin)) return REACTION_TICKS.AT_ORIGIN;
+  if (agent.role === AgentRole.STAFF_HUMAN) return REACTION_TICKS.STAFF;
+  if (agent.activity) return REACTION_TICKS.BUSY;
+  const suite = rooms.find((r) => r.id === agent.stay?.roomId);
+  if (agent.stay?.stage === 'IN_ROOM' && suite && isInside(agent.position, suite)) {
+    return timeOfDay < 6 ? REACTION_TICKS.ASLEEP : REACTION_TICKS.IN_SUITE;
+  }
+  return REACTION_TICKS.ABOUT;
+};
+
+/**
+ * Sets off an incident in a room. An evacuation puts every guest and staff
+ * member on EVACUEE duty and every working robot on GUIDE duty; a medical
+ * emergency takes the guest nearest the room as the patient and sends the
+ * nearest staff member and robot over. Returns null when it can't start: an
+ * evacuation is already under way, or there is nobody to treat.
+ */
+export const startIncident = (
+  log: IncidentLog,
+  agents: Agent[],
+  kind: IncidentKind,
+  room: Room,
+  ctx: { tick: number; timeOfDay: number; rooms: Room[]; building: Building; exits: Coordinates[] }
+): { log: IncidentLog; agents: Agent[]; incident: Incident } | null => {
+  const { tick, exits } = ctx;
+  const base: Incident = {
+    id: formatIncidentId(log.nextId),
+    kind,
+    roomId: room.id,
+    origin: roomCentre(room),
+    startedAt: tick,
+    status: 'ACTIVE',
+    evacuees: [],
+    outTicks: {},
+    guided: [],
+    congestion: {},
+    responders: [],
+  };
+  const opened = (incident: Incident, nextAgents: Agent[]) => ({
+    log: { incidents: [...log.incidents, incident], nextId: log.nextId + 1 },
+    agents: nextAgents,
+    incident,
+  });
+  const duty = (role: IncidentDuty['role'], goal: Coordinates, from = tick): IncidentDuty =>
+    ({ incidentId: base.id, role, goal, from });
+
+  if (kind === 'MEDICAL') {
+    const free = agents.filter((a) => isHuman(a) && !a.incident);
+    const guests = free.filter((a) => a.role === AgentRole.GUEST);
+    const patient = nearestAgent(base.origin, guests.length > 0 ? guests : free);
+    if (!patient) return null;
+
+    // The nearest staff member (on shift first) treats; a concierge robot, or any robot, assists
+    const staff = free.filter((a) => a.role === AgentRole.STAFF_HUMAN && a.id !== patient.id);
+    const onShift = staff.filter((a) => isOnShift(a, ctx.timeOfDay));
+    const medic = nearestAgent(patient.position, onShift.length > 0 ? onShift : staff);
+    const robots = agents.filter(canHelp);
+    const concierges = robots.filter((a) => a.role === AgentRole.ROBOT_CONCIERGE);
+    const assistant = nearestAgent(patient.position, concierges.length > 0 ? concierges : robots);
+    const responders = [medic, assistant].filter((a): a is Agent => !!a);
+
+    // Each responder takes a different side of the patient
+    const sides = NEIGHBOURS
+      .map(({ x, y }) => ({ ...patient.position, x: patient.position.x + x, y: patient.position.y + y }))
+      .filter((tile) => isWalkableAt(ctx.building, tile));
+    const posts = new Map(responders.map((a, i) => [a.id, sides[i] ?? patient.position]));
+
+    const incident: Incident = {
+      ...base,
+      patientId: patient.id,
+      responders: responders.map((a) => a.id),
+      treatmentLeft: TREATMENT_TICKS,
+    };
+    return opened(incident, agents.map((agent): Agent => {
+      if (agent.id === patient.id) return { ...agent, incident: duty('PATIENT', agent.position) };
+      const post = posts.get(agent.id);
+      return post ? { ...agent, incident: duty('RESPONDER', post) } : agent;
+    }));
+  }
+
+  if (isEvacuating(log) || exits.length === 0) return null;
+
+  const incident: Incident = {
+    ...base,
+    evacuees: agents.filter((a) => isHuman(a) && !a.incident).map((a) => a.id),
+  };
+  const nextAgents = agents.map((agent): Agent => {
+    if (agent.incident) return agent;
+    if (isHuman(agent)) {
+      const from = tick + reactionTicks(agent, room, ctx.rooms, ctx.timeOfDay);
+      return { ...agent, incident: duty('EVACUEE', nearest(agent.position, exits), from) };
+    }
+    return canHelp(agent) ? { ...agent, incident: duty('GUIDE', agent.position) } : agent;
+  });
+  return opened(incident, assignGuides(incident, nextAgents, tick).agents);
+};
+
+/* ------------------------------ Running ------------------------------ */
+
+// Guides fetch the nearest evacuee on their floor who hasn't started moving;
+// one within a tile of them starts now. With nobody left to fetch they stand by.
+const assignGuides = (incident: Incident, agents: Agent[], tick: number) => {
+  const byId = new Map(agents.map((a) => [a.id, a]));
+  const isUnaware = (agent: Agent | undefined): agent is Agent =>
+    !!agent?.incident &&
+    agent.incident.incidentId === incident.id &&
+    agent.incident.role === 'EVACUEE' &&
+    agent.incident.outAt === undefined &&
+    tick < agent.incident.from;
+
+  const claimed = new Set<string>();
+  const reached = new Set<string>();
+  agents.forEach((agent) => {
+    const fetching = agent.incident?.incidentId === incident.id ? agent.incident.fetching : undefined;
+    if (fetching) claimed.add(fetching);
+  });
+
+  const guided = agents.map((agent): Agent => {
+    const duty = agent.incident;
+    if (duty?.incidentId !== incident.id || duty.role !== 'GUIDE') return agent;
+
+    let evacuee = duty.fetching ? byId.get(duty.fetching) : undefined;
+    if (!isUnaware(evacuee) || reached.has(evacuee.id)) {
+      evacuee = undefined;
+    } else if (floorOf(evacuee.position) === floorOf(agent.position) && manhattan(evacuee.position, agent.position) <= 1) {
+      reached.add(evacuee.id);
+      evacuee = undefined;
+    }
+    if (!evacuee) {
+      const waiting = agents.filter((other) =>
+        isUnaware(other) && !claimed.has(other.id) && !reached.has(other.id) &&
+        floorOf(other.position) === floorOf(agent.position)
+      );
+      evacuee = nearestAgent(agent.position, waiting);
+      if (evacuee) claimed.add(evacuee.id);
+    }
+    return evacuee
+      ? { ...agent, incident: { ...duty, fetching: evacuee.id, goal: evacuee.position } }
+      : { ...agent, incident: { ...duty, fetching: undefined, goal: agent.position } };
+  });
+
+  return {
+    agents: reached.size === 0 ? guided : guided.map((agent): Agent =>
+      reached.has(agent.id) && agent.incident ? { ...agent, incident: { ...agent.incident, from: tick } } : agent
+    ),
+    reached: [...reached],
+  };
+};
+
+const resolve = (incident: Incident, agents: Agent[], tick: number, resolution: IncidentResolution) => ({
+  incident: { ...incident, status: 'RESOLVED' as const, resolvedAt: tick, resolution },
+  agents: agents.map((agent) => (agent.incident?.incidentId === incident.id ? { ...agent, incident: undefined } : agent)),
+});
+
+const updateEvacuation = (incident: Incident, agents: Agent[], ctx: { tick: number; exits: Coordinates[] }) => {
+  const { tick, exits } = ctx;
+  const next: Incident = { ...incident, outTicks: { ...incident.outTicks }, congestion: { ...incident.congestion } };
+  const evacuees = new Set(incident.evacuees);
+
+  // 1. Evacuees at an exit are out; on the way, note where they are held up
+  let nextAgents = agents.map((agent): Agent => {
+    const duty = agent.incident;
+    if (duty?.incidentId !== incident.id || duty.role !== 'EVACUEE' || duty.outAt !== undefined) return agent;
+    if (exits.some((exit) => samePlace(exit, agent.position))) {
+      if (evacuees.has(agent.id)) next.outTicks[agent.id] = tick - incident.startedAt;
+      return { ...agent, incident: { ...duty, outAt: tick } };
+    }
+    if (agent.waiting) {
+      const key = tileKey(agent.waiting.tile);
+      next.congestion[key] = (next.congestion[key] ?? 0) + 1;
+    }
+    return agent;
+  });
+
+  // 2. Evacuees who left the hotel altogether are out too; arrivals since the alarm wait outside
+  const present = new Set(nextAgents.map((a) => a.id));
+  incident.evacuees.forEach((id) => {
+    if (!present.has(id) && next.outTicks[id] === undefined) next.outTicks[id] = tick - incident.startedAt;
+  });
+  nextAgents = nextAgents.map((agent): Agent =>
+    !agent.incident && isHuman(agent)
+      ? { ...agent, incident: { incidentId: incident.id, role: 'EVACUEE', goal: nearest(agent.position, exits), from: tick } }
+      : agent
+  );
+
+  // 3. Guides go after whoever still hasn't moved
+  const guides = assignGuides(next, nextAgents, tick);
+  if (guides.reached.length > 0) next.guided = [...next.guided, ...guides.reached];
+
+  if (next.status === 'ACTIVE' && incident.evacuees.every((id) => next.outTicks[id] !== undefined)) {
+    return { incident: { ...next, status: 'CLEAR' as const, evacuatedAt: tick }, agents: guides.agents, evacuated: true };
+  }
+  return { incident: next, agents: guides.agents, evacuated: false };
+};
+
+const updateMedical = (incident: Incident, agents: Agent[], tick: number) => {
+  const patient = agents.find((a) => a.id === incident.patientId);
+  if (!patient) return { incident, agents, treated: true }; // Left the hotel before help arrived
+
+  const beside = (agent: Agent) => manhattan(agent.position, patient.position) <= 1;
+  const onScene = agents.filter((a) => incident.responders.includes(a.id) && beside(a));
+  const treating = onScene.filter((a) => a.role === AgentRole.STAFF_HUMAN);
+  const next: Incident = {
+    ...incident,
+    ...(onScene.length > 0 && incident.respondedAt === undefined && { respondedAt: tick }),
+    ...(treating.length > 0 && { treatmentLeft: (incident.treatmentLeft ?? TREATMENT_TICKS) - 1 }),
+  };
+  const nextAgents = treating.length === 0 ? agents : agents.map((agent): Agent =>
+    treating.includes(agent) ? { ...agent, state: 'SERVICING' } : agent
+  );
+  return { incident: next, agents: nextAgents, treated: (next.treatmentLeft ?? 0) <= 0 };
+};
+
+/**
+ * Runs after movement: checks evacuees out at the exits and notes where they
+ * were held up, sends guides after whoever hasn't started moving, counts down
+ * treatment, and resolves incidents that are over.
+ */
+export const updateIncidents = (
+  log: IncidentLog,
+  agents: Agent[],
+  ctx: { tick: number; exits: Coordinates[] }
+): { log: IncidentLog; agents: Agent[]; changes: IncidentChange[] } => {
+  if (findActiveIncidents(log).length === 0) return { log, agents, changes: [] };
+  const { tick } = ctx;
+  const changes: IncidentChange[] = [];
+  let nextAgents = agents;
+
+  const incidents = log.incidents.map((incident) => {
+    if (incident.status === 'RESOLVED') return incident;
+
+    let next: Incident;
+    let resolution: IncidentResolution | null = null;
+    if (isEvacuation(incident)) {
+      const evacuation = updateEvacuation(incident, nextAgents, ctx);
+      next = evacuation.incident;
+      nextAgents = evacuation.agents;
+      if (evacuation.evacuated) changes.push({ incident: next, kind: 'EVACUATED' });
+      if (next.evacuatedAt !== undefined && tick - next.evacuatedAt >= ALL_CLEAR_TICKS) resolution = 'ALL_CLEAR';
+    } else {
+      const medical = updateMedical(incident, nextAgents, tick);
+      next = medical.incident;
+      nextAgents = medical.agents;
+      if (medical.treated) resolution = 'TREATED';
+    }
+    if (!resolution && tick - incident.startedAt >= INCIDENT_TIMEOUT_TICKS) resolution = 'TIMEOUT';
+    if (!resolution) return next;
+
+    const resolved = resolve(next, nextAgents, tick, resolution);
+    nextAgents = resolved.agents;
+    changes.push({ incident: resolved.incident, kind: 'RESOLVED' });
+    return resolved.incident;
+  });
+
+  return { log: { ...log, incidents }, agents: nextAgents, changes };
+};
+
+/** Director input: the all clear for an incident still running; null if there is none */
+export const clearIncident = (
+  log: IncidentLog,
+  agents: Agent[],
+  incidentId: string,
+  tick: number
+): { log: IncidentLog; agents: Agent[]; incident: Incident } | null => {
+  const incident = log.incidents.find((i) => i.id === incidentId && i.status !== 'RESOLVED');
+  if (!incident) return null;
+  const resolved = resolve(incident, agents, tick, 'DIRECTOR');
+  return {
+    log: { ...log, incidents: log.incidents.map((i) => (i.id === incidentId ? resolved.incident : i)) },
+    agents: resolved.agents,
+    incident: resolved.incident,
+  };
+};
+
+/* ------------------------------ Reporting ------------------------------ */
+
+export const reportIncident = (incident: Incident, tick: number): IncidentReport => {
+  const end = incident.resolvedAt ?? tick;
+  const out = Object.values(incident.outTicks);
+  return {
+    incidentId: incident.id,
+    kind: incident.kind,
+    roomId: incident.roomId,
+    status: incident.status,
+    elapsedTicks: end - incident.startedAt,
+    evacuees: incident.evacuees.length,
+    evacuated: out.length,
+    guided: incident.guided.length,
+    ...(incident.evacuatedAt !== undefined && { evacuationTicks: incident.evacuatedAt - incident.startedAt }),
+    avgEgressTicks: out.length > 0 ? out.reduce((sum, ticks) => sum + ticks, 0) / out.length : 0,
+    stragglers: end - incident.startedAt <= STRAGGLER_TICKS ? [] : incident.evacuees.filter((id) =>
+      (incident.outTicks[id] ?? Infinity) > STRAGGLER_TICKS
+    ),
+    congestion: Object.entries(incident.congestion)
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, 5)
+      .map(([key, waitTicks]) => {
+        const [x, y, floor] = key.split(",").map(Number);
+        return { x, y, ...(floor && { floor }), waitTicks };
+      }),
+    ...(incident.patientId && { patientId: incident.patientId }),
+    ...(incident.respondedAt !== undefined && { responseTicks: incident.respondedAt - incident.startedAt }),
+  };
+};
@@ -0,0 +1,340 @@
+/* ---------------------------- Hotel Layouts ---------------------------- */
+
+// A property described as data rather than TypeScript loops. A layout is a
+// JSON file with a grid size, a plan and the semantic zones the AI logic aims
+// for. The plan lists areas (tile rectangles, optionally scattered at random)
+// and rooms (registered rectangles, optionally walled with doors and
+// furniture). Plan entries are painted in order, so later entries overwrite
+// earlier ones. Taller properties add upperFloors, each with its own plan,
+// linked by STAIRS areas and elevator shafts (see floors.ts); the zones are
+// on the ground floor. loadLayout() turns a layout into the { grid, rooms }
+// the engine runs on; the Grand Atrium in src/layouts is the default hotel.
+
+import { EntityType, type Coordinates, type Room } from "../types";
+import type { Rng } from "../utils/rng";
+import { onFloor, type ElevatorShaft } from "./floors";
+import grandAtrium from "../layouts/grandAtrium.json";
+import skylineTower from "../layouts/skylineTower.json";
+
+export const LAYOUT_FORMAT = 'seedcore-hotel-layout';
+export const LAYOUT_VERSION = 1;
+
+// Plain rectangle: a floor plan's own floor is implied, and a room's "floor" is its tile
+export interface ZoneRect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+/** Named places the AI logic aims for */
+export interface HotelZones {
+  LOBBY: ZoneRect;
+  RECEPTION: Coordinates; // Centre of the front desk; the check-in line forms below it
+  SERVICE_HUB: ZoneRect; // Robot docking bay and staff back office
+  ENTRANCE: Coordinates; // Street doors: arrivals appear and departures leave here
+  CHECKOUT: Coordinates; // Express checkout beside the desk
+  EXITS?: Coordinates[]; // Fire exits besides the entrance, for evacuations
+}
+
+export interface ScatterTile {
+  tile: EntityType;
+  chance: number; // Per tile, 0-1; earlier entries win
+}
+
+/** Paints a rectangle (w and h default to 1) */
+export interface LayoutArea extends Coordinates {
+  area: EntityType;
+  w?: number;
+  h?: number;
+  scatter?: ScatterTile[];
+}
+
+/** Registers a room; with walls it is built as ROOM_WALL around ROOM_FLOOR */
+export interface LayoutRoom extends ZoneRect {
+  room: string; // Room id
+  name?: string; // Defaults to "Room <id>"
+  type: Room['type'];
+  floor?: EntityType; // Fills the whole rectangle (ignored when walled)
+  walls?: boolean;
+  doors?: Coordinates[];
+  furniture?: Coordinates[];
+}
+
+export type LayoutFeature = LayoutArea | LayoutRoom;
+
+/** A floor above the ground floor; its plan is painted on an empty grid of the same size */
+export interface LayoutFloor {
+  plan: LayoutFeature[];
+}
+
+export interface HotelLayout {
+  format: typeof LAYOUT_FORMAT;
+  version: number;
+  name: string;
+  width: number;
+  height: number;
+  plan: LayoutFeature[]; // Ground floor
+  upperFloors?: LayoutFloor[]; // Floor 1 first
+  elevators?: ElevatorShaft[]; // Landings are painted as ELEVATOR on every floor served
+  zones: HotelZones;
+}
+
+export interface LoadedLayout {
+  grid: EntityType[][]; // Ground floor, floors[0]
+  floors: EntityType[][][];
+  rooms: Room[];
+  zones: HotelZones;
+  elevators: ElevatorShaft[];
+}
+
+const TILES = new Set<string>(Object.values(EntityType));
+const ROOM_TYPES = new Set<string>(['SUITE', 'LOBBY', 'GARDEN', 'SERVICE']);
+const POINT_ZONES = ['RECEPTION', 'ENTRANCE', 'CHECKOUT'] as const;
+const RECT_ZONES = ['LOBBY', 'SERVICE_HUB'] as const;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/* ------------------------------ Parsing ------------------------------ */
+
+/**
+ * Reads a layout from JSON text (or an already parsed value). Throws with a
+ * readable message naming the offending entry when it isn't one; whether
+ * the hotel it describes actually works is the validator's job.
+ */
+export const parseLayout = (input: string | unknown): HotelLayout => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Layout is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  if (!isObject(raw) || raw.format !== LAYOUT_FORMAT) {
+    throw new Error(`Not a hotel layout (expected format "${LAYOUT_FORMAT}")`);
+  }
+  if (raw.version !== LAYOUT_VERSION) {
+    throw new Error(`Unsupported layout version ${String(raw.version)} (this build reads ${LAYOUT_VERSION})`);
+  }
+
+  const fail = (path: string, problem: string): never => {
+    throw new Error(`Layout ${path} ${problem}`);
+  };
+  const integer = (value: unknown, path: string, min = -Infinity) => {
+    if (!Number.isInteger(value) || (value as number) < min) {
+      fail(path, min > -Infinity ? `must be an integer of at least ${min}` : 'must be an integer');
+    }
+    return value as number;
+  };
+  const point = (value: unknown, path: string): Coordinates => {
+    if (!isObject(value)) return fail(path, 'must be an { x, y } object');
+    return { x: integer(value.x, `${path}.x`), y: integer(value.y, `${path}.y`) };
+  };
+  const rect = (value: unknown, path: string): ZoneRect => {
+    if (!isObject(value)) return fail(path, 'must be an { x, y, w, h } object');
+    const { x, y } = point(value, path);
+    return { x, y, w: integer(value.w, `${path}.w`, 1), h: integer(value.h, `${path}.h`, 1) };
+  };
+  const tile = (value: unknown, path: string) => {
+    if (typeof value !== 'string' || !TILES.has(value)) fail(path, `has unknown tile "${String(value)}"`);
+    return value as EntityType;
+  };
+  const points = (value: unknown, path: string) => {
+    if (value === undefined) return undefined;
+    if (!Array.isArray(value)) return fail(path, 'must be a list of { x, y } objects');
+    return value.map((p, i) => point(p, `${path}[${i}]`));
+  };
+
+  if (typeof raw.name !== 'string') fail('name', 'must be a string');
+  integer(raw.width, 'width', 1);
+  integer(raw.height, 'height', 1);
+  if (!Array.isArray(raw.plan)) fail('plan', 'must be a list of areas and rooms');
+
+  const roomIds = new Set<string>();
+  const feature = (entry: unknown, path: string): LayoutFeature => {
+    if (!isObject(entry) || (entry.area === undefined) === (entry.room === undefined)) {
+      return fail(path, 'must have exactly one of "area" or "room"');
+    }
+
+    if (entry.area !== undefined) {
+      const area: LayoutArea = {
+        area: tile(entry.area, `${path}.area`),
+        ...point(entry, path),
+        w: entry.w === undefined ? 1 : integer(entry.w, `${path}.w`, 1),
+        h: entry.h === undefined ? 1 : integer(entry.h, `${path}.h`, 1),
+      };
+      if (entry.scatter !== undefined) {
+        if (!Array.isArray(entry.scatter)) fail(`${path}.scatter`, 'must be a list of { tile, chance }');
+        area.scatter = (entry.scatter as unknown[]).map((s, j) => {
+          const chance = isObject(s) ? s.chance : undefined;
+          if (typeof chance !== 'number' || chance < 0 || chance > 1) fail(`${path}.scatter[${j}].chance`, 'must be between 0 and 1');
+          return { tile: tile(isObject(s) ? s.tile : undefined, `${path}.scatter[${j}].tile`), chance: chance as number };
+        });
+        if (area.scatter.reduce((sum, s) => sum + s.chance, 0) > 1) fail(`${path}.scatter`, 'chances add up to more than 1');
+      }
+      return area;
+    }
+
+    const id = entry.room;
+    if (typeof id !== 'string' || id === '') return fail(`${path}.room`, 'must be a room id');
+    if (roomIds.has(id)) fail(`${path}.room`, `repeats room id "${id}"`);
+    roomIds.add(id);
+    if (typeof entry.type !== 'string' || !ROOM_TYPES.has(entry.type)) {
+      fail(`${path}.type`, `must be one of ${[...ROOM_TYPES].join(', ')}`);
+    }
+    if (entry.name !== undefined && typeof entry.name !== 'string') fail(`${path}.name`, 'must be a string');
+    return {
+      room: id,
+      type: entry.type as Room['type'],
+      ...rect(entry, path),
+      ...(entry.name !== undefined && { name: entry.name as string }),
+      ...(entry.floor !== undefined && { floor: tile(entry.floor, `${path}.floor`) }),
+      ...(entry.walls !== undefined && { walls: entry.walls === true }),
+      ...(entry.doors !== undefined && { doors: points(entry.doors, `${path}.doors`) }),
+      ...(entry.furniture !== undefined && { furniture: points(entry.furniture, `${path}.furniture`) }),
+    };
+  };
+  const plan = (raw.plan as unknown[]).map((entry, i) => feature(entry, `plan[${i}]`));
+
+  let upperFloors: LayoutFloor[] | undefined;
+  if (raw.upperFloors !== undefined) {
+    if (!Array.isArray(raw.upperFloors)) fail('upperFloors', 'must be a list of { plan } floors');
+    upperFloors = (raw.upperFloors as unknown[]).map((floor, i) => {
+      const path = `upperFloors[${i}]`;
+      if (!isObject(floor) || !Array.isArray(floor.plan)) return fail(`${path}.plan`, 'must be a list of areas and rooms');
+      return { plan: (floor.plan as unknown[]).map((entry, j) => feature(entry, `${path}.plan[${j}]`)) };
+    });
+  }
+
+  let elevators: ElevatorShaft[] | undefined;
+  if (raw.elevators !== undefined) {
+    if (!Array.isArray(raw.elevators)) fail('elevators', 'must be a list of elevator shafts');
+    const topFloor = upperFloors?.length ?? 0;
+    const shaftIds = new Set<string>();
+    elevators = (raw.elevators as unknown[]).map((entry, i) => {
+      const path = `elevators[${i}]`;
+      if (!isObject(entry)) return fail(path, 'must be an { id, x, y, floors, capacity, ticksPerFloor } object');
+      if (typeof entry.id !== 'string' || entry.id === '') fail(`${path}.id`, 'must be an elevator id');
+      if (shaftIds.has(entry.id as string)) fail(`${path}.id`, `repeats elevator id "${String(entry.id)}"`);
+      shaftIds.add(entry.id as string);
+      if (!Array.isArray(entry.floors)) return fail(`${path}.floors`, 'must be a list of floor numbers');
+      const floors = [...new Set((entry.floors as unknown[]).map((floor, j) => integer(floor, `${path}.floors[${j}]`, 0)))]
+        .sort((a, b) => a - b);
+      if (floors.length < 2) fail(`${path}.floors`, 'must name at least two floors');
+      if (floors[floors.length - 1] > topFloor) fail(`${path}.floors`, `goes above the top floor (${topFloor})`);
+      return {
+        id: entry.id as string,
+        ...point(entry, path),
+        floors,
+        capacity: integer(entry.capacity, `${path}.capacity`, 1),
+        ticksPerFloor: integer(entry.ticksPerFloor, `${path}.ticksPerFloor`, 1),
+      };
+    });
+  }
+
+  const zones = raw.zones;
+  if (!isObject(zones)) return fail('zones', `must name ${[...RECT_ZONES, ...POINT_ZONES].join(', ')}`);
+
+  return {
+    format: LAYOUT_FORMAT,
+    version: LAYOUT_VERSION,
+    name: raw.name as string,
+    width: raw.width as number,
+    height: raw.height as number,
+    plan,
+    ...(upperFloors && { upperFloors }),
+    ...(elevators && { elevators }),
+    zones: {
+      LOBBY: rect(zones.LOBBY, 'zones.LOBBY'),
+      RECEPTION: point(zones.RECEPTION, 'zones.RECEPTION'),
+      SERVICE_HUB: rect(zones.SERVICE_HUB, 'zones.SERVICE_HUB'),
+      ENTRANCE: point(zones.ENTRANCE, 'zones.ENTRANCE'),
+      CHECKOUT: point(zones.CHECKOUT, 'zones.CHECKOUT'),
+      ...(zones.EXITS !== undefined && { EXITS: points(zones.EXITS, 'zones.EXITS') }),
+    },
+  };
+};
+
+/** The hotel the engine builds when no layout is given */
+export const DEFAULT_LAYOUT = parseLayout(grandAtrium);
+
+/** Layouts shipped in src/layouts, by file name (scenarios refer to them by name) */
+export const BUNDLED_LAYOUTS: Record<string, HotelLayout> = {
+  grandAtrium: DEFAULT_LAYOUT,
+  skylineTower: parseLayout(skylineTower),
+};
+
+/* ------------------------------ Loading ------------------------------ */
+
+const isRoom = (feature: LayoutFeature): feature is LayoutRoom => 'room' in feature;
+
+/** Builds the floors and rooms a layout describes; the RNG only feeds scattered tiles */
+export const loadLayout = (layout: HotelLayout, rng: Rng): LoadedLayout => {
+  const { width, height } = layout;
+  const plans = [layout.plan, ...(layout.upperFloors ?? []).map((floor) => floor.plan)];
+  const floors: EntityType[][][] = plans.map(() =>
+    Array(height).fill(null).map(() => Array(width).fill(EntityType.EMPTY))
+  );
+  const elevators = layout.elevators ?? [];
+  const rooms: Room[] = [];
+
+  // Features may run off the edge of the grid; only the part inside is painted
+  const safeSet = (grid: EntityType[][], x: number, y: number, type: EntityType) => {
+    if (x >= 0 && x < width && y >= 0 && y < height) {
+      grid[y][x] = type;
+    }
+  };
+
+  const scatterTile = (base: EntityType, scatter: ScatterTile[]) => {
+    const r = rng.next();
+    let threshold = 1;
+    for (const { tile, chance } of scatter) {
+      threshold -= chance;
+      if (r > threshold) return tile;
+    }
+    return base;
+  };
+
+  plans.forEach((plan, level) => plan.forEach((feature) => {
+    const grid = floors[level];
+    if (!isRoom(feature)) {
+      const { area, x, y, w = 1, h = 1, scatter = [] } = feature;
+      for (let ty = y; ty < y + h; ty++) {
+        for (let tx = x; tx < x + w; tx++) {
+          safeSet(grid, tx, ty, scatter.length > 0 ? scatterTile(area, scatter) : area);
+        }
+      }
+      return;
+    }
+
+    const { room, name, type, x, y, w, h, floor, walls, doors = [], furniture = [] } = feature;
+    if (walls || floor) {
+      for (let ty = y; ty < y + h; ty++) {
+        for (let tx = x; tx < x + w; tx++) {
+          const edge = tx === x || tx === x + w - 1 || ty === y || ty === y + h - 1;
+          const tile = walls ? (edge ? EntityType.ROOM_WALL : EntityType.ROOM_FLOOR) : floor;
+          if (tile) safeSet(grid, tx, ty, tile);
+        }
+      }
+    }
+    doors.forEach((door) => safeSet(grid, door.x, door.y, EntityType.ROOM_DOOR));
+    furniture.forEach((item) => safeSet(grid, item.x, item.y, EntityType.ROOM_FURNITURE));
+
+    rooms.push({
+      id: room,
+      name: name ?? `Room ${room}`,
+      type,
+      topLeft: onFloor({ x, y }, level),
+      bottomRight: onFloor({ x: x + w - 1, y: y + h - 1 }, level),
+    });
+  }));
+
+  // Shafts go in last so no plan entry can wall a landing over
+  elevators.forEach((shaft) => shaft.floors.forEach((level) => {
+    if (floors[level]) safeSet(floors[level], shaft.x, shaft.y, EntityType.ELEVATOR);
+  }));
+
+  return { grid: floors[0], floors, rooms, zones: layout.zones, elevators };
+};
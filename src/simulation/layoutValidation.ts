@@ -0,0 +1,169 @@
+/* ---------------------------- Layout Validation ---------------------------- */
+
+// Checks a built hotel (generated, loaded from a layout or restored from a
+// snapshot) for the mistakes that otherwise only show up as guests who never
+// reach their suite: suites without a usable door, rooms cut off from the
+// lobby, spawn points on solid tiles and rooms drawn on top of each other.
+// On multi-floor hotels it also flags rooms robots can't get to (they don't
+// take the stairs). Problems come back as structured issues for the Director
+// UI and the CLI.
+
+import { EntityType, type Coordinates, type Room } from "../types";
+import { isWalkable } from "../utils/simulationUtils";
+import type { HotelZones } from "./layout";
+import { describeBuilding, findReachableAcross, floorOf, onFloor, type ElevatorShaft } from "./floors";
+
+export type LayoutIssueCode =
+  | 'NO_DOOR' // A suite has no ROOM_DOOR on its edge
+  | 'DOOR_BLOCKED' // A suite's doors all open onto solid tiles
+  | 'UNREACHABLE_ROOM' // No walkable path from the lobby into the room
+  | 'SPAWN_NOT_WALKABLE' // Agents would appear on (or aim for) a solid tile
+  | 'ROOMS_OVERLAP' // Two room rectangles share tiles
+  | 'NO_LOBBY' // Nowhere walkable to start the reachability check from
+  | 'NO_LIFT_ACCESS'; // Only the stairs lead to the room, so robots can't serve it
+
+export interface LayoutIssue {
+  code: LayoutIssueCode;
+  message: string;
+  roomIds?: string[];
+  position?: Coordinates;
+}
+
+export interface LayoutReport {
+  valid: boolean;
+  issues: LayoutIssue[];
+}
+
+interface BuiltLayout {
+  grid: EntityType[][];
+  floors?: EntityType[][][]; // Default: just the grid
+  elevators?: ElevatorShaft[];
+  rooms: Room[];
+  zones: HotelZones;
+}
+
+const NEIGHBOURS: Coordinates[] = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+const isOnEdge = (pos: Coordinates, room: Room) =>
+  isInside(pos, room) &&
+  (pos.x === room.topLeft.x || pos.x === room.bottomRight.x || pos.y === room.topLeft.y || pos.y === room.bottomRight.y);
+
+const overlaps = (a: Room, b: Room) =>
+  floorOf(a.topLeft) === floorOf(b.topLeft) &&
+  a.topLeft.x <= b.bottomRight.x && b.topLeft.x <= a.bottomRight.x &&
+  a.topLeft.y <= b.bottomRight.y && b.topLeft.y <= a.bottomRight.y;
+
+const tilesOf = (room: Room): Coordinates[] => {
+  const tiles: Coordinates[] = [];
+  for (let y = room.topLeft.y; y <= room.bottomRight.y; y++) {
+    for (let x = room.topLeft.x; x <= room.bottomRight.x; x++) tiles.push(onFloor({ x, y }, floorOf(room.topLeft)));
+  }
+  return tiles;
+};
+
+const formatPosition = (tile: Coordinates) =>
+  floorOf(tile) > 0 ? `(${tile.x}, ${tile.y}, floor ${floorOf(tile)})` : `(${tile.x}, ${tile.y})`;
+
+/** Where agents appear or head first: the street doors, the desk, checkout and every service hub tile */
+const spawnPoints = (zones: HotelZones): Array<{ name: string; position: Coordinates }> => {
+  const hub = zones.SERVICE_HUB;
+  const hubTiles = tilesOf({
+    id: 'SERVICE_HUB', name: '', type: 'SERVICE',
+    topLeft: { x: hub.x, y: hub.y }, bottomRight: { x: hub.x + hub.w - 1, y: hub.y + hub.h - 1 },
+  });
+  return [
+    { name: 'ENTRANCE', position: zones.ENTRANCE },
+    { name: 'RECEPTION', position: zones.RECEPTION },
+    { name: 'CHECKOUT', position: zones.CHECKOUT },
+    ...hubTiles.map((position) => ({ name: 'SERVICE_HUB', position })),
+    ...(zones.EXITS ?? []).map((position) => ({ name: 'EXIT', position })),
+  ];
+};
+
+/**
+ * Validates a built hotel. Reachability is measured from the entrance (or,
+ * if that isn't walkable, any walkable lobby tile) over walkable tiles,
+ * stairs and elevators, the same way guests and robots route.
+ */
+export const validateLayout = ({ grid, floors = [grid], elevators = [], rooms, zones }: BuiltLayout): LayoutReport => {
+  const width = grid[0]?.length ?? 0;
+  const walkable = (x: number, y: number) => isWalkable(grid, x, y);
+  const walkableAt = (tile: Coordinates) => isWalkable(floors[floorOf(tile)], tile.x, tile.y);
+  const issues: LayoutIssue[] = [];
+
+  // 1. Suites need a door on their edge that opens onto something walkable
+  rooms.filter((room) => room.type === 'SUITE').forEach((room) => {
+    const doors = tilesOf(room).filter((t) => isOnEdge(t, room) && floors[floorOf(t)]?.[t.y]?.[t.x] === EntityType.ROOM_DOOR);
+    if (doors.length === 0) {
+      issues.push({ code: 'NO_DOOR', message: `Suite ${room.id} has no door on its edge`, roomIds: [room.id] });
+      return;
+    }
+    const usable = doors.some((door) =>
+      NEIGHBOURS.some(({ x, y }) => {
+        const outside = { ...door, x: door.x + x, y: door.y + y };
+        return !isInside(outside, room) && walkableAt(outside);
+      })
+    );
+    if (!usable) {
+      issues.push({
+        code: 'DOOR_BLOCKED',
+        message: `Suite ${room.id}: no door opens onto a walkable tile (doors at ${doors.map(formatPosition).join(', ')})`,
+        roomIds: [room.id],
+        position: doors[0],
+      });
+    }
+  });
+
+  // 2. Spawn points must be standable
+  spawnPoints(zones).forEach(({ name, position }) => {
+    if (!walkable(position.x, position.y)) {
+      const tile = grid[position.y]?.[position.x] ?? 'outside the grid';
+      issues.push({ code: 'SPAWN_NOT_WALKABLE', message: `${name} spawn ${formatPosition(position)} is ${tile}`, position });
+    }
+  });
+
+  // 3. Every room must be reachable from the lobby
+  const lobby = zones.LOBBY;
+  const start = walkable(zones.ENTRANCE.x, zones.ENTRANCE.y)
+    ? zones.ENTRANCE
+    : tilesOf({
+      id: 'LOBBY', name: '', type: 'LOBBY',
+      topLeft: { x: lobby.x, y: lobby.y }, bottomRight: { x: lobby.x + lobby.w - 1, y: lobby.y + lobby.h - 1 },
+    }).find((t) => walkable(t.x, t.y));
+  if (!start) {
+    issues.push({ code: 'NO_LOBBY', message: `The lobby zone at ${formatPosition(lobby)} has no walkable tile` });
+  } else {
+    const building = describeBuilding(floors, elevators);
+    const reachedBy = (canClimb: boolean) => {
+      const reached = findReachableAcross(building, start, canClimb);
+      return (room: Room) => tilesOf(room).some((t) => t.x >= 0 && t.x < width && !!reached[floorOf(t)]?.has(t.y * width + t.x));
+    };
+    const reachable = reachedBy(true);
+    const reachableByLift = floors.length > 1 ? reachedBy(false) : reachable;
+    rooms.forEach((room) => {
+      if (!reachable(room)) {
+        issues.push({ code: 'UNREACHABLE_ROOM', message: `${room.name} (${room.id}) can't be reached from the lobby`, roomIds: [room.id] });
+      } else if (!reachableByLift(room)) {
+        issues.push({
+          code: 'NO_LIFT_ACCESS',
+          message: `${room.name} (${room.id}) on floor ${floorOf(room.topLeft)} is only reachable by stairs, so robots can't serve it`,
+          roomIds: [room.id],
+        });
+      }
+    });
+  }
+
+  // 4. Room rectangles must not share tiles
+  rooms.forEach((room, i) => {
+    rooms.slice(i + 1).filter((other) => overlaps(room, other)).forEach((other) => {
+      issues.push({ code: 'ROOMS_OVERLAP', message: `${room.id} and ${other.id} overlap`, roomIds: [room.id, other.id] });
+    });
+  });
+
+  return { valid: issues.length === 0, issues };
+};
@@ -0,0 +1,228 @@
+/* ---------------------------- Metrics Collector ---------------------------- */
+
+// getMetrics() describes the hotel at one moment; the collector keeps the
+// history. It samples the engine at the end of every tick: head count per
+// room, how many agents are in each state, the reception queue and the job
+// queue, plus running totals per robot (tiles walked, ticks without work) and
+// every service ticket that overran its SLA. The Director's metrics panel
+// draws from it, and the CLI writes it out with --metrics, so analysts get
+// the time series directly instead of rebuilding it from the event stream.
+
+import type { Agent, AgentRole } from "../types";
+import { floorOf } from "./floors";
+import type { TicketKind } from "./serviceTickets";
+import { countRoomOccupancy, type SimulationEngine, type SimulationState } from "./simulationEngine";
+import { isRobot, robotActivity } from "../utils/simulationUtils";
+
+export const METRICS_FORMAT = 'seedcore-metrics';
+export const METRICS_VERSION = 1;
+
+export const AGENT_STATES: Agent['state'][] = ['WALKING', 'PAUSING', 'SOCIALIZING', 'OBSERVING', 'SERVICING', 'CHARGING'];
+
+/** Ticks from a ticket being raised to it being resolved before it breaches its SLA (20 ticks = 1 sim hour) */
+export const TICKET_SLA_TICKS: Record<TicketKind, number> = {
+  SPILL: 40,
+  NOISE_ALERT: 40,
+  GUEST_REQUEST: 60,
+};
+
+// Two sim weeks of ticks; older samples are dropped first
+const DEFAULT_MAX_SAMPLES = 6720;
+
+export interface MetricsSample {
+  tick: number;
+  timeOfDay: number;
+  roomOccupancy: Record<string, number>; // Agents inside each room
+  agentStates: Record<Agent['state'], number>;
+  receptionQueue: number; // Guest parties waiting to check in
+  jobQueue: number; // Dispatcher jobs waiting for a robot
+  openTickets: number;
+  slaBreaches: number; // Running total
+}
+
+export interface RobotStats {
+  agentId: string;
+  role: AgentRole;
+  distance: number; // Tiles walked (a floor change counts as none)
+  ticks: number; // Ticks sampled
+  idleTicks: number; // No task and not charging
+  idleRatio: number;
+}
+
+export interface SlaBreach {
+  ticketId: string;
+  kind: TicketKind;
+  roomId: string;
+  createdAt: number;
+  breachedAt: number; // Tick the SLA ran out
+  resolvedAt?: number;
+}
+
+export interface CollectedMetrics {
+  format: typeof METRICS_FORMAT;
+  version: number;
+  seed: number;
+  fromTick: number; // First sample still held
+  toTick: number;
+  samples: MetricsSample[];
+  robots: RobotStats[];
+  breaches: SlaBreach[];
+  summary: {
+    avgReceptionQueue: number;
+    peakReceptionQueue: number;
+    avgIdleRatio: number; // Over all robot ticks
+    robotDistance: number;
+    slaBreaches: number;
+  };
+}
+
+export interface CollectorOptions {
+  slaTicks?: Partial<Record<TicketKind, number>>;
+  maxSamples?: number;
+}
+
+/**
+ * Samples an engine every tick until stop(). Starts empty; a tick that doesn't
+ * follow the last one sampled (a snapshot was loaded, a scenario swapped in)
+ * starts the history over.
+ */
+export class MetricsCollector {
+  private engine: SimulationEngine;
+  private slaTicks: Record<TicketKind, number>;
+  private maxSamples: number;
+  private samples: MetricsSample[] = [];
+  private robots = new Map<string, RobotStats>();
+  private positions = new Map<string, Agent['position']>();
+  private breaches = new Map<string, SlaBreach>();
+  private unsubscribe: () => void;
+
+  constructor(engine: SimulationEngine, options: CollectorOptions = {}) {
+    this.engine = engine;
+    this.slaTicks = { ...TICKET_SLA_TICKS, ...options.slaTicks };
+    this.maxSamples = options.maxSamples ?? DEFAULT_MAX_SAMPLES;
+    this.unsubscribe = engine.subscribeTicks((state) => this.sample(state));
+  }
+
+  /** Stops sampling; what was collected stays available */
+  stop() {
+    this.unsubscribe();
+  }
+
+  /** Forgets everything collected so far */
+  reset() {
+    this.samples = [];
+    this.robots.clear();
+    this.positions.clear();
+    this.breaches.clear();
+  }
+
+  private sample(state: SimulationState) {
+    const last = this.samples[this.samples.length - 1];
+    if (last && state.tick !== last.tick + 1) this.reset();
+    const { tick, agents, rooms, tickets } = state;
+
+    const agentStates = Object.fromEntries(AGENT_STATES.map((s) => [s, 0])) as Record<Agent['state'], number>;
+    agents.forEach((agent) => {
+      agentStates[agent.state]++;
+      const previous = this.positions.get(agent.id);
+      this.positions.set(agent.id, agent.position);
+      if (!isRobot(agent)) return;
+      const stats = this.robots.get(agent.id) ?? { agentId: agent.id, role: agent.role, distance: 0, ticks: 0, idleTicks: 0, idleRatio: 0 };
+      const walked = previous && floorOf(previous) === floorOf(agent.position)
+        ? Math.abs(agent.position.x - previous.x) + Math.abs(agent.position.y - previous.y)
+        : 0;
+      const idle = robotActivity(agent) === 'IDLE';
+      const ticks = stats.ticks + 1;
+      const idleTicks = stats.idleTicks + (idle ? 1 : 0);
+      this.robots.set(agent.id, { ...stats, distance: stats.distance + walked, ticks, idleTicks, idleRatio: idleTicks / ticks });
+    });
+
+    // The board keeps only recent resolved tickets, so overruns are caught as they happen
+    tickets.tickets.forEach((ticket) => {
+      const breach = this.breaches.get(ticket.id);
+      if (breach) {
+        if (ticket.resolvedAt !== undefined && breach.resolvedAt === undefined) {
+          this.breaches.set(ticket.id, { ...breach, resolvedAt: ticket.resolvedAt });
+        }
+        return;
+      }
+      const due = ticket.createdAt + this.slaTicks[ticket.kind];
+      if ((ticket.resolvedAt ?? tick) <= due) return;
+      this.breaches.set(ticket.id, {
+        ticketId: ticket.id,
+        kind: ticket.kind,
+        roomId: ticket.roomId,
+        createdAt: ticket.createdAt,
+        breachedAt: due + 1,
+        ...(ticket.resolvedAt !== undefined && { resolvedAt: ticket.resolvedAt }),
+      });
+    });
+
+    this.samples.push({
+      tick,
+      timeOfDay: state.coreState.timeOfDay,
+      roomOccupancy: Object.fromEntries(rooms.map((room) => [room.id, countRoomOccupancy(room, agents)])),
+      agentStates,
+      receptionQueue: state.guestFlow.queue.length,
+      jobQueue: state.dispatcher.jobs.filter((job) => job.status === 'QUEUED').length,
+      openTickets: tickets.tickets.filter((ticket) => ticket.status !== 'RESOLVED').length,
+      slaBreaches: this.breaches.size,
+    });
+    if (this.samples.length > this.maxSamples) this.samples.shift();
+  }
+
+  /** Everything collected so far, as exported */
+  getMetrics(): CollectedMetrics {
+    const { samples } = this;
+    const robots = [...this.robots.values()];
+    const robotTicks = robots.reduce((sum, robot) => sum + robot.ticks, 0);
+    return {
+      format: METRICS_FORMAT,
+      version: METRICS_VERSION,
+      seed: this.engine.getState().seed,
+      fromTick: samples[0]?.tick ?? 0,
+      toTick: samples[samples.length - 1]?.tick ?? 0,
+      samples: [...samples],
+      robots,
+      breaches: [...this.breaches.values()],
+      summary: {
+        avgReceptionQueue: samples.length > 0 ? samples.reduce((sum, s) => sum + s.receptionQueue, 0) / samples.length : 0,
+        peakReceptionQueue: samples.reduce((peak, s) => Math.max(peak, s.receptionQueue), 0),
+        avgIdleRatio: robotTicks > 0 ? robots.reduce((sum, robot) => sum + robot.idleTicks, 0) / robotTicks : 0,
+        robotDistance: robots.reduce((sum, robot) => sum + robot.distance, 0),
+        slaBreaches: this.breaches.size,
+      },
+    };
+  }
+}
+
+export const serializeCollectedMetrics = (metrics: CollectedMetrics) => JSON.stringify(metrics, null, 2);
+
+/**
+ * The time series as CSV, one row per tick: clock, queues, breaches so far,
+ * then a column per agent state (state_WALKING, ...) and per room (room_LOBBY-MAIN, ...).
+ */
+export const samplesToCsv = (metrics: CollectedMetrics): string => {
+  const roomIds = [...new Set(metrics.samples.flatMap((s) => Object.keys(s.roomOccupancy)))];
+  const header = [
+    'tick',
+    'timeOfDay',
+    'receptionQueue',
+    'jobQueue',
+    'openTickets',
+    'slaBreaches',
+    ...AGENT_STATES.map((s) => `state_${s}`),
+    ...roomIds.map((id) => `room_${id}`),
+  ];
+  const rows = metrics.samples.map((s) => [
+    s.tick,
+    Math.round(s.timeOfDay * 100) / 100,
+    s.receptionQueue,
+    s.jobQueue,
+    s.openTickets,
+    s.slaBreaches,
+    ...AGENT_STATES.map((state) => s.agentStates[state]),
+    ...roomIds.map((id) => s.roomOccupancy[id] ?? 0),
+  ]);
+  return [header, ...rows].map((row) => row.join(',')).join('\n') + '\n';
+};
@@ -0,0 +1,153 @@
+/* ---------------------------- Mood ---------------------------- */
+
+// Numeric mood behind the Agent.mood label. Guests (0-100 satisfaction) drift
+// back to neutral and are pushed around by waiting, crowding, service they
+// receive, the atmosphere and the hour. Robots report a status from their
+// workload and battery. The label changes when the score crosses a band
+// boundary, which is what the engine reports as sim.agent.mood.changed.
+
+import { AgentRole, type Agent, type Coordinates } from "../types";
+import { isRobot } from "../utils/simulationUtils";
+import { BATTERY } from "./battery";
+import type { JobChange } from "./dispatcher";
+import { scheduledAtmosphere, type Atmosphere } from "./schedule";
+import { floorOf } from "./floors";
+
+export interface MoodChange {
+  agent: Agent;
+  previousMood: string;
+}
+
+export interface MoodContext {
+  timeOfDay: number;
+  atmosphere: Atmosphere;
+  served: Map<string, number>; // Guest id -> boost from service completed this tick
+}
+
+// Lower bound of each label, best first
+const GUEST_MOODS: Array<{ min: number; label: string }> = [
+  { min: 80, label: 'Delighted' },
+  { min: 60, label: 'Content' },
+  { min: 40, label: 'Neutral' },
+  { min: 20, label: 'Impatient' },
+  { min: 0, label: 'Upset' },
+];
+const ROBOT_STATUSES: Array<{ min: number; label: string }> = [
+  { min: 70, label: 'Operational' },
+  { min: 45, label: 'Busy' },
+  { min: 0, label: 'Strained' },
+];
+
+const GUEST_BASELINE = 50;
+const DRIFT = 0.02; // Share of the gap to the baseline closed per tick
+
+// Per tick effects on guests
+const GUEST_EFFECTS = {
+  QUEUEING: -0.4, // In line or at the desk
+  BLOCKED: -0.5, // Held up by a full tile
+  CROWDED: -0.3, // Hemmed in (CROWD_LIMIT+ others within a tile)
+  RESTING: 0.15, // Settled in the suite
+  SOCIALIZING: 0.5,
+  OBSERVING: 0.4,
+  ATMOSPHERE_MATCH: 0.1,
+  ATMOSPHERE_MISMATCH: -0.05,
+  UP_LATE: -0.1, // Out of the suite in the small hours
+};
+const CROWD_LIMIT = 3;
+// One-off bumps when a dispatched job for the guest completes
+const SERVICE_BOOST: Record<JobChange["job"]["kind"], number> = {
+  SERVICE_TICKET: 15,
+  ROOM_SERVICE: 20,
+  GUEST_ASSIST: 15,
+  TURNOVER: 0, // No guest behind it
+};
+
+// Robots: a busy robot settles towards ROBOT_BUSY_SCORE, and a draining battery pulls it lower
+const ROBOT_SMOOTHING = 0.1;
+const ROBOT_BUSY_SCORE = 50;
+
+const HYSTERESIS = 2;
+
+const clamp = (v: number) => Math.max(0, Math.min(100, v));
+const chebyshev = (a: Coordinates, b: Coordinates) =>
+  floorOf(a) === floorOf(b) ? Math.max(Math.abs(a.x - b.x), Math.abs(a.y - b.y)) : Infinity;
+
+// The label only moves once the score is clear of the band edge, so a guest
+// hovering on a boundary doesn't flip back and forth every tick
+const labelFor = (bands: Array<{ min: number; label: string }>, score: number, current: string) => {
+  const i = bands.findIndex((band) => band.label === current);
+  if (i >= 0) {
+    const upper = i > 0 ? bands[i - 1].min : Infinity;
+    if (score >= bands[i].min - HYSTERESIS && score < upper + HYSTERESIS) return current;
+  }
+  return bands.find((band) => score >= band.min)?.label ?? bands[bands.length - 1].label;
+};
+
+const guestScore = (agent: Agent, agents: Agent[], ctx: MoodContext) => {
+  const score = agent.moodScore ?? GUEST_BASELINE;
+  let delta = (GUEST_BASELINE - score) * DRIFT;
+  const stage = agent.stay?.stage;
+
+  if (stage === 'QUEUEING' || stage === 'CHECKING_IN') delta += GUEST_EFFECTS.QUEUEING;
+  if (stage === 'IN_ROOM') delta += GUEST_EFFECTS.RESTING;
+  if (agent.waiting) delta += GUEST_EFFECTS.BLOCKED;
+  if (agent.state === 'SOCIALIZING') delta += GUEST_EFFECTS.SOCIALIZING;
+  if (agent.state === 'OBSERVING') delta += GUEST_EFFECTS.OBSERVING;
+
+  const around = agents.filter((a) => a.id !== agent.id && chebyshev(a.position, agent.position) <= 1).length;
+  if (around >= CROWD_LIMIT) delta += GUEST_EFFECTS.CROWDED;
+
+  // Guests like the atmosphere the hour calls for, whoever chose it
+  delta += ctx.atmosphere === scheduledAtmosphere(ctx.timeOfDay)
+    ? GUEST_EFFECTS.ATMOSPHERE_MATCH
+    : GUEST_EFFECTS.ATMOSPHERE_MISMATCH;
+  if (ctx.timeOfDay < 6 && stage !== 'IN_ROOM') delta += GUEST_EFFECTS.UP_LATE;
+
+  return clamp(score + delta + (ctx.served.get(agent.id) ?? 0));
+};
+
+const robotScore = (agent: Agent) => {
+  const battery = agent.battery ?? 100;
+  const target = (agent.task ? ROBOT_BUSY_SCORE : 100) - Math.max(0, 50 - battery);
+  const score = agent.moodScore ?? 100;
+  return clamp(score + (target - score) * ROBOT_SMOOTHING);
+};
+
+const robotLabel = (agent: Agent, score: number) =>
+  (agent.battery ?? 100) <= BATTERY.LOW ? 'Low Power' : labelFor(ROBOT_STATUSES, score, agent.mood);
+
+/** Boost per guest from the jobs completed this tick; the whole party shares it */
+export const collectServiceBoosts = (changes: JobChange[], agents: Agent[]): Map<string, number> => {
+  const boosts = new Map<string, number>();
+  changes.forEach(({ job }) => {
+    if (job.status !== 'COMPLETED' || !job.subject) return;
+    agents
+      .filter((a) => a.id === job.subject || a.stay?.party?.leaderId === job.subject)
+      .forEach((guest) => boosts.set(guest.id, (boosts.get(guest.id) ?? 0) + SERVICE_BOOST[job.kind]));
+  });
+  return boosts;
+};
+
+export const updateMoods = (agents: Agent[], ctx: MoodContext): { agents: Agent[]; changes: MoodChange[] } => {
+  const changes: MoodChange[] = [];
+
+  const nextAgents = agents.map((agent): Agent => {
+    let moodScore: number;
+    let mood: string;
+    if (agent.role === AgentRole.GUEST) {
+      moodScore = guestScore(agent, agents, ctx);
+      mood = labelFor(GUEST_MOODS, moodScore, agent.mood);
+    } else if (isRobot(agent)) {
+      moodScore = robotScore(agent);
+      mood = robotLabel(agent, moodScore);
+    } else {
+      return agent; // Staff keep their disposition
+    }
+
+    const next = { ...agent, moodScore, mood };
+    if (mood !== agent.mood) changes.push({ agent: next, previousMood: agent.mood });
+    return next;
+  });
+
+  return { agents: nextAgents, changes };
+};
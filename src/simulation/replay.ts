@@ -0,0 +1,238 @@
+/* ---------------------------- Session Replay ---------------------------- */
+
+// A recording is the event log of a session (everything that went through
+// the hotel event stream, tagged with the sim tick) plus what it takes to
+// rebuild the world behind it: a snapshot from when recording started and the
+// Director inputs applied since. The engine is deterministic, so replaying
+// those inputs tick by tick reconstructs the hotel at any moment, and the
+// logged sim events double as a check that the replay hasn't drifted.
+
+import { SimulationEngine, type DirectorInput, type SimulationEvent, type SimulationState } from "./simulationEngine";
+import { parseSnapshot, serializeSnapshot, type SimulationSnapshot } from "./snapshot";
+import type { SchedulePeriod } from "./schedule";
+import type { LayoutReport } from "./layoutValidation";
+
+export const RECORDING_FORMAT = 'seedcore-hotel-recording';
+export const RECORDING_VERSION = 1;
+
+export interface RecordedEvent {
+  tick: number;
+  source: string; // "ui" | "sim"
+  type: string;
+  payload: Record<string, unknown>;
+  timestamp?: number; // Wall clock (ms) when it was emitted, if known
+}
+
+export interface RecordedInput {
+  tick: number; // Applied after this tick ran, before the next
+  input: DirectorInput;
+}
+
+export interface SessionRecording {
+  format: typeof RECORDING_FORMAT;
+  version: number;
+  seed: number;
+  startTick: number;
+  endTick: number;
+  start: SimulationSnapshot;
+  inputs: RecordedInput[];
+  events: RecordedEvent[];
+}
+
+// Sim events that come from the browser (the clock controls), not the engine, so a replay can't reproduce them
+const EXTERNAL_SIM_EVENTS = new Set(['sim.clock.timescale.changed']);
+
+const KEYFRAME_TICKS = 60;
+
+// Snapshots taken from a live engine share its objects; a JSON round trip makes them independent
+const copySnapshot = (snapshot: SimulationSnapshot) => parseSnapshot(serializeSnapshot(snapshot));
+
+const isEngineEvent = (event: RecordedEvent) => event.source === 'sim' && !EXTERNAL_SIM_EVENTS.has(event.type);
+
+const sameEvent = (recorded: RecordedEvent, event: SimulationEvent) =>
+  recorded.type === event.type &&
+  recorded.tick === event.tick &&
+  JSON.stringify(recorded.payload) === JSON.stringify(event.payload);
+
+/* ------------------------------ Recording ------------------------------ */
+
+/** Records a session from now on; feed it the hotel event stream through record() */
+export class SessionRecorder {
+  private start: SimulationSnapshot;
+  private inputs: RecordedInput[] = [];
+  private events: RecordedEvent[] = [];
+  private unsubscribe: () => void;
+  private engine: SimulationEngine;
+
+  constructor(engine: SimulationEngine) {
+    this.engine = engine;
+    this.start = copySnapshot(engine.toSnapshot());
+    this.unsubscribe = engine.subscribeInputs((input, tick) => {
+      this.inputs.push({ tick, input: JSON.parse(JSON.stringify(input)) });
+    });
+  }
+
+  record(event: { source: string; type: string; payload: Record<string, unknown>; timestamp?: number }) {
+    const { source, type, payload, timestamp } = event;
+    this.events.push({ tick: this.engine.getState().tick, source, type, payload, ...(timestamp !== undefined && { timestamp }) });
+  }
+
+  /** Stops listening for director inputs; the recording so far stays available */
+  stop() {
+    this.unsubscribe();
+  }
+
+  toRecording(): SessionRecording {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      seed: this.start.seed,
+      startTick: this.start.tick,
+      endTick: this.engine.getState().tick,
+      start: this.start,
+      inputs: [...this.inputs],
+      events: [...this.events],
+    };
+  }
+}
+
+/** Serializes a recording for download or a file */
+export const serializeRecording = (recording: SessionRecording) => JSON.stringify(recording);
+
+/** Reads a recording from JSON text (or an already parsed value); throws with a readable message */
+export const parseRecording = (input: string | unknown): SessionRecording => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Recording is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  const recording = raw as Partial<SessionRecording> | null;
+  if (!recording || recording.format !== RECORDING_FORMAT) {
+    throw new Error(`Not a session recording (expected format "${RECORDING_FORMAT}")`);
+  }
+  if (recording.version !== RECORDING_VERSION) {
+    throw new Error(`Unsupported recording version ${String(recording.version)} (this build reads ${RECORDING_VERSION})`);
+  }
+  if (!Array.isArray(recording.events) || !Array.isArray(recording.inputs) ||
+      typeof recording.startTick !== 'number' || typeof recording.endTick !== 'number') {
+    throw new Error('Recording is missing its events, inputs or tick range');
+  }
+  return { ...recording, start: parseSnapshot(recording.start) } as SessionRecording;
+};
+
+/* ------------------------------ Replay ------------------------------ */
+
+/**
+ * Rebuilds a recorded session tick by tick. Seeking backwards restarts from
+ * the nearest keyframe. While replaying new ground, every event the engine
+ * emits is checked against the log; divergedAt marks the first mismatch
+ * (e.g. the recording came from a different build).
+ */
+export class ReplaySession {
+  readonly recording: SessionRecording;
+  private engine: SimulationEngine;
+  private keyframes = new Map<number, SimulationSnapshot>();
+  private inputsByTick = new Map<number, DirectorInput[]>();
+  private engineEvents: RecordedEvent[];
+  private checkCursor = 0;
+  private frontier: number; // Furthest tick replayed (and checked) so far
+  private verifying = false;
+  private diverged: number | null = null;
+
+  constructor(recording: SessionRecording) {
+    this.recording = recording;
+    this.frontier = recording.startTick;
+    this.engineEvents = recording.events.filter(isEngineEvent);
+    recording.inputs.forEach(({ tick, input }) => {
+      this.inputsByTick.set(tick, [...(this.inputsByTick.get(tick) ?? []), input]);
+    });
+
+    this.engine = new SimulationEngine({ seed: recording.seed });
+    this.engine.restore(copySnapshot(recording.start));
+    this.keyframes.set(recording.startTick, copySnapshot(recording.start));
+    this.engine.subscribe((event) => this.verify(event));
+  }
+
+  get tick() {
+    return this.engine.getState().tick;
+  }
+
+  get startTick() {
+    return this.recording.startTick;
+  }
+
+  get endTick() {
+    return this.recording.endTick;
+  }
+
+  /** First tick where the replay stopped matching the recorded events, if it has */
+  get divergedAt() {
+    return this.diverged;
+  }
+
+  getState(): SimulationState {
+    return this.engine.getState();
+  }
+
+  getRunningPeriods(): SchedulePeriod[] {
+    return this.engine.getRunningPeriods();
+  }
+
+  getLayoutReport(): LayoutReport {
+    return this.engine.getLayoutReport();
+  }
+
+  /** Advances one tick (no further than the end of the recording) */
+  step(): SimulationState {
+    const tick = this.tick;
+    if (tick >= this.endTick) return this.getState();
+
+    this.verifying = tick === this.frontier && this.diverged === null;
+    (this.inputsByTick.get(tick) ?? []).forEach((input) => this.engine.applyInput(input));
+    this.engine.tick();
+    this.verifying = false;
+
+    if (this.tick > this.frontier) {
+      this.frontier = this.tick;
+      if (this.tick % KEYFRAME_TICKS === 0) this.keyframes.set(this.tick, copySnapshot(this.engine.toSnapshot()));
+    }
+    return this.getState();
+  }
+
+  /** Jumps to a tick within the recording */
+  seek(target: number): SimulationState {
+    const tick = Math.max(this.startTick, Math.min(this.endTick, Math.round(target)));
+    if (tick < this.tick || tick - this.tick > KEYFRAME_TICKS) {
+      const from = Math.max(...[...this.keyframes.keys()].filter((k) => k <= tick));
+      if (from > this.tick || tick < this.tick) this.engine.restore(copySnapshot(this.keyframes.get(from)!));
+    }
+    while (this.tick < tick) this.step();
+    return this.getState();
+  }
+
+  /** The logged events up to and including a tick, most recent last */
+  eventsUpTo(tick: number, limit: number): RecordedEvent[] {
+    // Events are logged in tick order: find the first one after the tick
+    let lo = 0;
+    let hi = this.recording.events.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (this.recording.events[mid].tick <= tick) lo = mid + 1;
+      else hi = mid;
+    }
+    return this.recording.events.slice(Math.max(0, lo - limit), lo);
+  }
+
+  private verify(event: SimulationEvent) {
+    if (!this.verifying) return;
+    const expected = this.engineEvents[this.checkCursor];
+    if (expected && sameEvent(expected, event)) {
+      this.checkCursor++;
+    } else {
+      this.diverged = event.tick;
+    }
+  }
+}
@@ -0,0 +1,280 @@
+/* ---------------------------- Reservations & Room Inventory ---------------------------- */
+
+// Front-office layer over the Room[] from generateMap: every suite has a
+// housekeeping status, and guests arrive against a reservation with booked
+// arrival/departure ticks. Bookings are accepted up to a small overbooking
+// margin, on the bet that some guests won't show; when the bet fails the
+// guest is walked at the desk. The guest spawner only lets in guests whose
+// reservation is due.
+
+import { RoomStatus, type PartyKind, type Room } from "../types";
+import { SIM_HOURS_PER_TICK } from "../constants";
+import type { Rng } from "../utils/rng";
+
+export type ReservationStatus =
+  | 'CONFIRMED'
+  | 'ARRIVED' // Guest spawned and queueing at reception
+  | 'CHECKED_IN'
+  | 'CHECKED_OUT'
+  | 'NO_SHOW'
+  | 'WALKED'; // Overbooked: no clean suite left at check-in
+
+export interface Reservation {
+  id: string;
+  guestId: string; // Lead guest
+  companionIds: string[]; // Rest of the party
+  party: PartyKind;
+  roomId?: string; // Assigned at check-in
+  status: ReservationStatus;
+  arrivalTick: number;
+  departureTick: number;
+  createdAt: number; // Tick
+  rate: number; // Per night
+  nights: number;
+  vip?: boolean; // Injected by the Director or a scenario; always shows
+}
+
+export interface ReservationBook {
+  reservations: Reservation[];
+  roomStatus: Record<string, RoomStatus>; // Suites only
+  statusSince: Record<string, number>; // Tick each suite entered its current status
+  nextReservationNumber: number;
+  nextGuestNumber: number;
+  nextBookingTick: number;
+  declined: number; // Requests refused by the overbooking limit
+}
+
+export type InventoryChange =
+  | { kind: 'RESERVATION_CREATED'; reservation: Reservation; overbooked: boolean }
+  | { kind: 'RESERVATION_STATUS'; reservation: Reservation; previousStatus: ReservationStatus }
+  | { kind: 'ROOM_STATUS'; roomId: string; status: RoomStatus; previousStatus: RoomStatus; previousStatusTicks: number };
+
+export const OVERBOOKING = {
+  RATE: 0.1, // Accept up to 10% more overlapping stays than sellable suites
+  NO_SHOW_CHANCE: 0.08,
+};
+
+const TICKS_PER_NIGHT = Math.round(24 / SIM_HOURS_PER_TICK);
+const BOOKING_GAP = { min: 6, spread: 7 };
+const LEAD_TIME = { min: 0, spread: 61 }; // Up to 3 sim hours ahead
+const STAY_LENGTH = { min: 60, spread: 121 }; // 3-9 sim hours
+const ROOM_RATE = { base: 180, step: 20, steps: 5 };
+// Who books: cumulative shares, and how many travel together
+const PARTY_MIX: Array<{ kind: PartyKind; share: number; size: { min: number; spread: number } }> = [
+  { kind: 'SOLO', share: 0.35, size: { min: 1, spread: 1 } },
+  { kind: 'COUPLE', share: 0.7, size: { min: 2, spread: 1 } },
+  { kind: 'FAMILY', share: 0.85, size: { min: 3, spread: 2 } },
+  { kind: 'BUSINESS', share: 1, size: { min: 2, spread: 2 } },
+];
+const VIP_STAY_TICKS = 120; // 6 sim hours
+// Guests finish their last outing before checking out, then the suite needs cleaning:
+// a booking holds its suite for this long past the booked departure
+const DEPARTURE_BUFFER_TICKS = 100;
+
+// Reservations still holding (or about to hold) a suite
+const ACTIVE_STATUSES = new Set<ReservationStatus>(['CONFIRMED', 'ARRIVED', 'CHECKED_IN']);
+
+const formatReservationId = (n: number) => `RES-${String(n).padStart(4, '0')}`;
+
+/** Total folio value of a stay */
+export const reservationRevenue = (reservation: Reservation) => reservation.rate * reservation.nights;
+
+/* ------------------------------ Ledger ------------------------------ */
+
+type ReservationDraft = Omit<Reservation, 'id' | 'guestId' | 'companionIds'> & { partySize: number };
+
+// Working copy of the book for one tick. Passes record changes through it and
+// the engine turns the collected changes into events afterwards.
+export interface InventoryLedger {
+  book(): ReservationBook;
+  readonly changes: InventoryChange[];
+  setRoomStatus(roomId: string, status: RoomStatus, tick: number): void;
+  setReservationStatus(reservationId: string, status: ReservationStatus, patch?: Partial<Reservation>): void;
+  /** Books a new party, or an existing guest (travelling alone) when `guestId` is given */
+  addReservation(reservation: ReservationDraft, overbooked: boolean, guestId?: string): Reservation;
+  /** Bookkeeping fields that don't produce events */
+  patchBook(patch: Partial<Pick<ReservationBook, 'nextBookingTick' | 'declined'>>): void;
+}
+
+export const openLedger = (initial: ReservationBook): InventoryLedger => {
+  let book = initial;
+  const changes: InventoryChange[] = [];
+
+  return {
+    book: () => book,
+    changes,
+    setRoomStatus(roomId, status, tick) {
+      const previousStatus = book.roomStatus[roomId];
+      if (!previousStatus || previousStatus === status) return;
+      const previousStatusTicks = tick - (book.statusSince[roomId] ?? tick);
+      book = {
+        ...book,
+        roomStatus: { ...book.roomStatus, [roomId]: status },
+        statusSince: { ...book.statusSince, [roomId]: tick },
+      };
+      changes.push({ kind: 'ROOM_STATUS', roomId, status, previousStatus, previousStatusTicks });
+    },
+    setReservationStatus(reservationId, status, patch = {}) {
+      const current = book.reservations.find((r) => r.id === reservationId);
+      if (!current || current.status === status) return;
+      const reservation = { ...current, ...patch, status };
+      book = { ...book, reservations: book.reservations.map((r) => (r.id === reservationId ? reservation : r)) };
+      changes.push({ kind: 'RESERVATION_STATUS', reservation, previousStatus: current.status });
+    },
+    addReservation({ partySize, ...draft }, overbooked, guestId) {
+      const size = guestId ? 1 : partySize;
+      const guestIds = guestId ? [guestId] : Array.from({ length: size }, (_, i) => `G-${book.nextGuestNumber + i}`);
+      const reservation: Reservation = {
+        ...draft,
+        ...(guestId && { party: 'SOLO' as const }),
+        id: formatReservationId(book.nextReservationNumber),
+        guestId: guestIds[0],
+        companionIds: guestIds.slice(1),
+      };
+      book = {
+        ...book,
+        reservations: [...book.reservations, reservation],
+        nextReservationNumber: book.nextReservationNumber + 1,
+        nextGuestNumber: book.nextGuestNumber + (guestId ? 0 : size),
+      };
+      changes.push({ kind: 'RESERVATION_CREATED', reservation, overbooked });
+      return reservation;
+    },
+    patchBook(patch) {
+      book = { ...book, ...patch };
+    },
+  };
+};
+
+/* ------------------------------ Inventory ------------------------------ */
+
+/** Fresh book: every suite clean, except the ones guests can't reach */
+export const createReservationBook = (
+  rooms: Room[],
+  reachableSuites: Set<string>,
+  firstGuestNumber: number,
+  rng: Rng
+): ReservationBook => {
+  const roomStatus: Record<string, RoomStatus> = {};
+  const statusSince: Record<string, number> = {};
+  rooms.forEach((room) => {
+    if (room.type !== 'SUITE') return;
+    roomStatus[room.id] = reachableSuites.has(room.id) ? RoomStatus.VACANT_CLEAN : RoomStatus.OUT_OF_ORDER;
+    statusSince[room.id] = 0;
+  });
+
+  return {
+    reservations: [],
+    roomStatus,
+    statusSince,
+    nextReservationNumber: 1,
+    nextGuestNumber: firstGuestNumber,
+    nextBookingTick: BOOKING_GAP.min + rng.int(BOOKING_GAP.spread),
+    declined: 0,
+  };
+};
+
+export const countRoomsByStatus = (book: ReservationBook): Record<RoomStatus, number> => {
+  const counts: Record<RoomStatus, number> = {
+    VACANT_CLEAN: 0,
+    VACANT_DIRTY: 0,
+    OCCUPIED: 0,
+    OUT_OF_ORDER: 0,
+  };
+  Object.values(book.roomStatus).forEach((status) => {
+    counts[status]++;
+  });
+  return counts;
+};
+
+/** Suites ready to hand over at check-in */
+export const findCleanSuites = (book: ReservationBook, rooms: Room[]) =>
+  rooms.filter((room) => book.roomStatus[room.id] === RoomStatus.VACANT_CLEAN);
+
+const draftReservation = (tick: number, arrivalTick: number, rng: Rng): ReservationDraft => {
+  const departureTick = arrivalTick + STAY_LENGTH.min + rng.int(STAY_LENGTH.spread);
+  const roll = rng.next();
+  const party = PARTY_MIX.find((p) => roll < p.share) ?? PARTY_MIX[0];
+  return {
+    party: party.kind,
+    partySize: party.size.min + rng.int(party.size.spread),
+    status: 'CONFIRMED',
+    arrivalTick,
+    departureTick,
+    createdAt: tick,
+    rate: ROOM_RATE.base + ROOM_RATE.step * rng.int(ROOM_RATE.steps),
+    nights: Math.max(1, Math.ceil((departureTick - arrivalTick) / TICKS_PER_NIGHT)),
+  };
+};
+
+/** Books a stay starting now for a guest already in the hotel (generated at start-up) */
+export const bookInHouseGuest = (ledger: InventoryLedger, guestId: string, tick: number, rng: Rng) =>
+  ledger.addReservation(draftReservation(tick, tick, rng), false, guestId);
+
+/**
+ * Books a VIP party arriving now, at the top rate, whatever the schedule says.
+ * Accepted even past the overbooking limit; if no suite is clean they are walked.
+ */
+export const bookVipArrival = (ledger: InventoryLedger, tick: number, party: PartyKind) => {
+  const book = ledger.book();
+  const size = PARTY_MIX.find((p) => p.kind === party)?.size.min ?? 1;
+  const departureTick = tick + VIP_STAY_TICKS;
+  const sellable = Object.values(book.roomStatus).filter((s) => s !== RoomStatus.OUT_OF_ORDER).length;
+  const overlapping = book.reservations.filter((r) =>
+    ACTIVE_STATUSES.has(r.status) && r.arrivalTick < departureTick && r.departureTick + DEPARTURE_BUFFER_TICKS > tick
+  ).length;
+  return ledger.addReservation({
+    party,
+    partySize: size,
+    status: 'CONFIRMED',
+    arrivalTick: tick,
+    departureTick,
+    createdAt: tick,
+    rate: ROOM_RATE.base + ROOM_RATE.step * (ROOM_RATE.steps - 1),
+    nights: Math.max(1, Math.ceil(VIP_STAY_TICKS / TICKS_PER_NIGHT)),
+    vip: true,
+  }, overlapping >= sellable);
+};
+
+/**
+ * Takes new bookings (as often as the schedule's arrivalRate allows) and works out who is due.
+ * Returns the reservations whose guests arrive this tick (no-shows excluded).
+ */
+export const updateReservations = (
+  ledger: InventoryLedger,
+  ctx: { tick: number; rng: Rng; arrivalRate: number }
+): Reservation[] => {
+  const { tick, rng } = ctx;
+
+  // 1. New booking requests, accepted up to the overbooking limit
+  if (tick >= ledger.book().nextBookingTick) {
+    const book = ledger.book();
+    const draft = draftReservation(tick, tick + LEAD_TIME.min + rng.int(LEAD_TIME.spread), rng);
+    const sellable = Object.values(book.roomStatus).filter((s) => s !== RoomStatus.OUT_OF_ORDER).length;
+    const overlapping = book.reservations.filter((r) =>
+      ACTIVE_STATUSES.has(r.status) && r.arrivalTick < draft.departureTick && r.departureTick + DEPARTURE_BUFFER_TICKS > draft.arrivalTick
+    ).length;
+
+    const limit = Math.floor(sellable * (1 + OVERBOOKING.RATE));
+    if (overlapping < limit) {
+      ledger.addReservation(draft, overlapping >= sellable);
+    }
+    ledger.patchBook({
+      nextBookingTick: tick + Math.max(1, Math.round((BOOKING_GAP.min + rng.int(BOOKING_GAP.spread)) / ctx.arrivalRate)),
+      declined: book.declined + (overlapping < limit ? 0 : 1),
+    });
+  }
+
+  // 2. Arrivals due now
+  const due: Reservation[] = [];
+  ledger.book().reservations.forEach((reservation) => {
+    if (reservation.status !== 'CONFIRMED' || reservation.arrivalTick > tick) return;
+    if (!reservation.vip && rng.next() < OVERBOOKING.NO_SHOW_CHANCE) {
+      ledger.setReservationStatus(reservation.id, 'NO_SHOW');
+      return;
+    }
+    ledger.setReservationStatus(reservation.id, 'ARRIVED');
+    due.push(reservation);
+  });
+  return due;
+};
@@ -0,0 +1,200 @@
+/* ---------------------------- Role Behaviours ---------------------------- */
+
+// Each AgentRole gets a target-selection strategy. updateAgentsLogic asks the
+// registered behaviour for a candidate destination (optionally with a task to
+// perform there) and takes care of validation, routing and movement itself.
+// New roles plug in through registerRoleBehavior().
+
+import {
+  AgentRole,
+  EntityType,
+  type Agent,
+  type AgentTask,
+  type Coordinates,
+  type GuestStay,
+  type Room,
+} from "../types";
+import type { Rng } from "../utils/rng";
+import type { HotelZones } from "./layout";
+import { floorOf, onFloor } from "./floors";
+
+export interface RoleContext {
+  grid: EntityType[][]; // Ground floor
+  floors: EntityType[][][]; // Every floor, ground first
+  rooms: Room[];
+  zones: HotelZones;
+  rng: Rng;
+  timeOfDay: number;
+  tick: number;
+  isWalkable: (x: number, y: number, floor?: number) => boolean;
+}
+
+export interface RolePlan {
+  target: Coordinates;
+  task?: AgentTask;
+}
+
+export interface RoleBehavior {
+  /** Chance to idle in place instead of picking a new destination */
+  pauseChance: number;
+  /** One destination candidate; the caller retries when it is unwalkable or unreachable */
+  chooseNext(agent: Agent, ctx: RoleContext): RolePlan | null;
+}
+
+/* ------------------------------ Helpers ------------------------------ */
+
+const randomPoint = (ctx: RoleContext): Coordinates => ({
+  x: ctx.rng.int(ctx.grid[0]?.length ?? 0),
+  y: ctx.rng.int(ctx.grid.length),
+});
+
+const randomPointInRoom = (room: Room, rng: Rng): Coordinates => onFloor({
+  x: room.topLeft.x + rng.int(room.bottomRight.x - room.topLeft.x + 1),
+  y: room.topLeft.y + rng.int(room.bottomRight.y - room.topLeft.y + 1),
+}, floorOf(room.topLeft));
+
+const NEIGHBORS = [{ x: 0, y: -1 }, { x: 1, y: 0 }, { x: 0, y: 1 }, { x: -1, y: 0 }];
+
+/** Whether an hour of day falls inside a shift (handles shifts that wrap midnight) */
+export const isOnShift = (agent: Agent, timeOfDay: number) => {
+  if (!agent.shift) return false;
+  const { start, end } = agent.shift;
+  return start <= end
+    ? timeOfDay >= start && timeOfDay < end
+    : timeOfDay >= start || timeOfDay < end;
+};
+
+/* ------------------------------ Strategies ------------------------------ */
+
+// Waiters (and any role without a dedicated strategy) roam anywhere walkable
+const wanderBehavior: RoleBehavior = {
+  pauseChance: 0.2,
+  chooseNext: (_agent, ctx) => ({ target: randomPoint(ctx) }),
+};
+
+const conciergeBehavior: RoleBehavior = {
+  pauseChance: 0.2,
+  // Stay very close to reception
+  chooseNext: (_agent, { zones, rng }) => ({
+    target: {
+      x: zones.RECEPTION.x + rng.int(6) - 3,
+      y: zones.RECEPTION.y + rng.int(4) - 2,
+    },
+  }),
+};
+
+const lobbyPoint = ({ zones, rng }: RoleContext): Coordinates => ({
+  x: zones.LOBBY.x + 2 + rng.int(zones.LOBBY.w - 4),
+  y: zones.LOBBY.y + 2 + rng.int(zones.LOBBY.h - 4),
+});
+
+// Guests on a stay follow their lifecycle stage (see guestLifecycle.ts)
+const planStay = (stay: GuestStay, ctx: RoleContext): RolePlan | null => {
+  if (stay.waypoint) return { target: stay.waypoint };
+
+  if (stay.stage === 'IN_ROOM') {
+    const room = ctx.rooms.find((r) => r.id === stay.roomId);
+    return room ? { target: randomPointInRoom(room, ctx.rng) } : null;
+  }
+  if (stay.stage === 'VISITING') {
+    const stop = stay.stops[0];
+    if (stop === 'LOBBY') return { target: lobbyPoint(ctx) };
+    const area = ctx.rooms.find((r) => r.type === stop);
+    return area ? { target: randomPointInRoom(area, ctx.rng) } : null;
+  }
+  return null;
+};
+
+const guestBehavior: RoleBehavior = {
+  pauseChance: 0.2,
+  chooseNext: (agent, ctx) => {
+    if (agent.stay) return planStay(agent.stay, ctx);
+
+    const { rng } = ctx;
+    const visitable = ctx.rooms.filter((room) => room.type !== 'SERVICE');
+    const r = rng.next();
+    if (r > 0.4) {
+      // Lobby Area
+      return { target: lobbyPoint(ctx) };
+    }
+    if (r > 0.2 && visitable.length > 0) {
+      // Visit a room (suites, garden) - pathfinding takes care of doors
+      return { target: randomPointInRoom(visitable[rng.int(visitable.length)], rng) };
+    }
+    // Garden / Wing Hallways - Pick random point on map and check if walkable
+    return { target: randomPoint(ctx) };
+  },
+};
+
+// Gardeners patrol the Zen Court, stopping beside plants and water to tend them
+const TEND_TICKS = 6;
+const gardenerBehavior: RoleBehavior = {
+  pauseChance: 0.1,
+  chooseNext: (agent, ctx) => {
+    const { rng } = ctx;
+    const gardens = ctx.rooms.filter((room) => room.type === 'GARDEN');
+    const garden = gardens.length > 0 ? gardens[rng.int(gardens.length)] : undefined;
+    if (!garden) return null;
+
+    const spot = randomPointInRoom(garden, rng);
+    const floor = floorOf(spot);
+    const tile = ctx.floors[floor]?.[spot.y]?.[spot.x];
+    if (tile !== EntityType.GARDEN_PLANT && tile !== EntityType.GARDEN_WATER) {
+      // Between beds: keep patrolling the paths
+      return { target: spot };
+    }
+
+    // Plants and ponds are not walkable - work from an adjacent path tile
+    const start = rng.int(NEIGHBORS.length);
+    for (let i = 0; i < NEIGHBORS.length; i++) {
+      const offset = NEIGHBORS[(start + i) % NEIGHBORS.length];
+      const stand = onFloor({ x: spot.x + offset.x, y: spot.y + offset.y }, floor);
+      if (!ctx.isWalkable(stand.x, stand.y, floor)) continue;
+      return {
+        target: stand,
+        task: {
+          id: `TEND-${agent.id}-${ctx.tick}`,
+          kind: 'TEND_GARDEN',
+          target: stand,
+          duration: TEND_TICKS,
+        },
+      };
+    }
+    return null;
+  },
+};
+
+// Human staff work the reception desk during their shift and rest in the back office otherwise
+const DESK_SHIFT_TICKS = 10;
+const staffBehavior: RoleBehavior = {
+  pauseChance: 0.3,
+  chooseNext: (agent, ctx) => {
+    const { zones, rng } = ctx;
+    if (isOnShift(agent, ctx.timeOfDay)) {
+      const desk = { x: zones.RECEPTION.x + rng.int(3) - 1, y: zones.RECEPTION.y };
+      return {
+        target: desk,
+        task: { id: `DESK-${agent.id}-${ctx.tick}`, kind: 'DESK_SHIFT', target: desk, duration: DESK_SHIFT_TICKS },
+      };
+    }
+    const office = zones.SERVICE_HUB;
+    return { target: { x: office.x + rng.int(office.w), y: office.y + rng.int(office.h) } };
+  },
+};
+
+/* ------------------------------ Registry ------------------------------ */
+
+const behaviors = new Map<AgentRole, RoleBehavior>([
+  [AgentRole.GUEST, guestBehavior],
+  [AgentRole.ROBOT_CONCIERGE, conciergeBehavior],
+  [AgentRole.ROBOT_WAITER, wanderBehavior],
+  [AgentRole.ROBOT_GARDENER, gardenerBehavior],
+  [AgentRole.STAFF_HUMAN, staffBehavior],
+]);
+
+export const registerRoleBehavior = (role: AgentRole, behavior: RoleBehavior) => {
+  behaviors.set(role, behavior);
+};
+
+export const getRoleBehavior = (role: AgentRole): RoleBehavior =>
+  behaviors.get(role) ?? wanderBehavior;
@@ -0,0 +1,334 @@
+/* ---------------------------- Scenarios ---------------------------- */
+
+// A reproducible experiment described as data: which hotel, how many agents of
+// each role open it, what happens when (a VIP party at 09:00, a spill in the
+// lobby at 10:30, robot R-2 breaking down) and what counts as success.
+// Events are Director inputs, scripted into the engine for the tick their
+// clock time falls on; assertions compare the final metrics with thresholds.
+// The CLI runs scenarios headless (--scenario), the Director loads them, and
+// src/scenarios holds the named library.
+
+import { AgentRole, type PartyKind, type SeedCoreState } from "../types";
+import { SIM_HOURS_PER_TICK } from "../constants";
+import { DEFAULT_POPULATION, isRobot, type AgentPopulation } from "../utils/simulationUtils";
+import { parseSeed } from "../utils/rng";
+import { parseTimeOfDay, ticksUntil } from "../utils/timeOfDay";
+import { BUNDLED_LAYOUTS, parseLayout, type HotelLayout } from "./layout";
+import { listDispatchStrategies } from "./dispatcher";
+import { INCIDENT_KINDS, type IncidentKind } from "./incidents";
+import {
+  SimulationEngine,
+  type DirectorInput,
+  type ScriptedInput,
+  type SimulationMetrics,
+} from "./simulationEngine";
+import baselineDay from "../scenarios/baselineDay.json";
+import vipMorning from "../scenarios/vipMorning.json";
+import skeletonCrew from "../scenarios/skeletonCrew.json";
+import towerFireDrill from "../scenarios/towerFireDrill.json";
+
+export const SCENARIO_FORMAT = 'seedcore-scenario';
+export const SCENARIO_VERSION = 1;
+
+/** A Director input and when it happens: a tick, or a clock time ("HH:MM", the first time the clock reads it) */
+export type ScenarioEvent = DirectorInput & { at: number | string };
+
+export type AssertionOp = '<' | '<=' | '>' | '>=' | '==' | '!=';
+
+/** A threshold on a final metric, e.g. { metric: "guests.walkAways", op: "<=", value: 2 } */
+export interface ScenarioAssertion {
+  metric: string; // Dot path into SimulationMetrics; lists count their entries
+  op: AssertionOp;
+  value: number;
+}
+
+export interface Scenario {
+  format: typeof SCENARIO_FORMAT;
+  version: number;
+  name: string;
+  description?: string;
+  layout?: string | HotelLayout; // A bundled layout's name or a layout of its own (default the Grand Atrium)
+  population?: Partial<AgentPopulation>; // Missing roles keep DEFAULT_POPULATION's count
+  startTime?: string; // "HH:MM" (default 08:00)
+  ticks: number;
+  seed?: number; // For runs that don't pass one
+  dispatch?: string; // Dispatch strategy (default nearest-idle)
+  events: ScenarioEvent[];
+  assertions: ScenarioAssertion[];
+}
+
+export interface AssertionResult extends ScenarioAssertion {
+  actual: number | null; // null when the metric doesn't exist
+  passed: boolean;
+}
+
+export interface ScenarioResult {
+  name: string;
+  seed: number;
+  ticks: number;
+  metrics: SimulationMetrics;
+  assertions: AssertionResult[];
+  passed: boolean;
+}
+
+const DEFAULT_START_TIME = 8;
+const ROLES = new Set<string>(Object.values(AgentRole));
+const PARTIES = new Set<string>(['SOLO', 'COUPLE', 'FAMILY', 'BUSINESS']);
+const OPS = new Set<string>(['<', '<=', '>', '>=', '==', '!=']);
+const ATMOSPHERES = new Set<string>(['MORNING_LIGHT', 'GOLDEN_HOUR', 'EVENING_CHIC', 'MIDNIGHT_LOUNGE']);
+const CORE_STATE_KEYS = new Set<string>(['timeOfDay', 'activeAtmosphere', 'atmosphereOverride']);
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/* ------------------------------ Parsing ------------------------------ */
+
+/**
+ * Reads a scenario from JSON text (or an already parsed value). Throws with a
+ * readable message naming the offending entry when it isn't one. Whether the
+ * rooms and robots its events name exist is checked when it is built.
+ */
+export const parseScenario = (input: string | unknown): Scenario => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Scenario is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  if (!isObject(raw) || raw.format !== SCENARIO_FORMAT) {
+    throw new Error(`Not a scenario (expected format "${SCENARIO_FORMAT}")`);
+  }
+  if (raw.version !== SCENARIO_VERSION) {
+    throw new Error(`Unsupported scenario version ${String(raw.version)} (this build reads ${SCENARIO_VERSION})`);
+  }
+
+  const fail = (path: string, problem: string): never => {
+    throw new Error(`Scenario ${path} ${problem}`);
+  };
+  const integer = (value: unknown, path: string, min = -Infinity) => {
+    if (!Number.isInteger(value) || (value as number) < min) {
+      fail(path, min > -Infinity ? `must be an integer of at least ${min}` : 'must be an integer');
+    }
+    return value as number;
+  };
+  const text = (value: unknown, path: string) => {
+    if (typeof value !== 'string' || value === '') fail(path, 'must be a non-empty string');
+    return value as string;
+  };
+  const clockTime = (value: unknown, path: string) => {
+    if (typeof value !== 'string' || parseTimeOfDay(value) === null) fail(path, 'must be a "HH:MM" time');
+    return value as string;
+  };
+
+  if (typeof raw.name !== 'string' || raw.name === '') fail('name', 'must be a non-empty string');
+  if (raw.description !== undefined && typeof raw.description !== 'string') fail('description', 'must be a string');
+
+  let layout: Scenario['layout'];
+  if (typeof raw.layout === 'string') {
+    if (!BUNDLED_LAYOUTS[raw.layout]) fail('layout', `must be one of ${Object.keys(BUNDLED_LAYOUTS).join(', ')} or a layout`);
+    layout = raw.layout;
+  } else if (raw.layout !== undefined) {
+    layout = parseLayout(raw.layout);
+  }
+
+  let population: Scenario['population'];
+  if (raw.population !== undefined) {
+    if (!isObject(raw.population)) fail('population', 'must map roles to agent counts');
+    population = Object.fromEntries(Object.entries(raw.population as Record<string, unknown>).map(([role, count]) => {
+      if (!ROLES.has(role)) fail(`population.${role}`, `is not a role (${[...ROLES].join(', ')})`);
+      return [role, integer(count, `population.${role}`, 0)];
+    }));
+  }
+
+  let seed: number | undefined;
+  if (raw.seed !== undefined) {
+    seed = parseSeed(typeof raw.seed === 'number' || typeof raw.seed === 'string' ? raw.seed : null) ?? undefined;
+    if (seed === undefined) fail('seed', 'must be a number or a word');
+  }
+  if (raw.dispatch !== undefined && !listDispatchStrategies().includes(raw.dispatch as string)) {
+    fail('dispatch', `must be one of ${listDispatchStrategies().join(', ')}`);
+  }
+
+  if (!Array.isArray(raw.events)) fail('events', 'must be a list of timed Director inputs');
+  const events = (raw.events as unknown[]).map((entry, i): ScenarioEvent => {
+    const path = `events[${i}]`;
+    if (!isObject(entry)) return fail(path, 'must be an { at, kind, ... } object');
+    const at = typeof entry.at === 'string' ? clockTime(entry.at, `${path}.at`) : integer(entry.at, `${path}.at`, 0);
+    switch (entry.kind) {
+      case 'VIP_ARRIVAL': {
+        const party = entry.party ?? 'BUSINESS';
+        if (typeof party !== 'string' || !PARTIES.has(party)) fail(`${path}.party`, `must be one of ${[...PARTIES].join(', ')}`);
+        return { at, kind: 'VIP_ARRIVAL', party: party as PartyKind };
+      }
+      case 'SPILL': {
+        const position = entry.position;
+        if (position !== undefined && !isObject(position)) fail(`${path}.position`, 'must be an { x, y } object');
+        return {
+          at,
+          kind: 'SPILL',
+          roomId: text(entry.roomId, `${path}.roomId`),
+          ...(isObject(position) && {
+            position: {
+              x: integer(position.x, `${path}.position.x`, 0),
+              y: integer(position.y, `${path}.position.y`, 0),
+              ...(position.floor !== undefined && { floor: integer(position.floor, `${path}.position.floor`, 1) }),
+            },
+          }),
+        };
+      }
+      case 'ROBOT_FAILURE':
+        return { at, kind: 'ROBOT_FAILURE', agentId: text(entry.agentId, `${path}.agentId`) };
+      case 'INCIDENT':
+        if (!INCIDENT_KINDS.includes(entry.incident as IncidentKind)) {
+          fail(`${path}.incident`, `must be one of ${INCIDENT_KINDS.join(', ')}`);
+        }
+        return { at, kind: 'INCIDENT', incident: entry.incident as IncidentKind, roomId: text(entry.roomId, `${path}.roomId`) };
+      case 'INCIDENT_CLEAR':
+        return { at, kind: 'INCIDENT_CLEAR', incidentId: text(entry.incidentId, `${path}.incidentId`) };
+      case 'ROOM_OUT_OF_ORDER':
+        if (typeof entry.outOfOrder !== 'boolean') fail(`${path}.outOfOrder`, 'must be true or false');
+        return { at, kind: 'ROOM_OUT_OF_ORDER', roomId: text(entry.roomId, `${path}.roomId`), outOfOrder: entry.outOfOrder as boolean };
+      case 'DISPATCH_STRATEGY':
+        if (!listDispatchStrategies().includes(entry.strategy as string)) {
+          fail(`${path}.strategy`, `must be one of ${listDispatchStrategies().join(', ')}`);
+        }
+        return { at, kind: 'DISPATCH_STRATEGY', strategy: entry.strategy as string };
+      case 'CORE_STATE': {
+        const update = entry.update;
+        if (!isObject(update)) return fail(`${path}.update`, 'must be a partial SeedCore state');
+        Object.keys(update).forEach((key) => {
+          if (!CORE_STATE_KEYS.has(key)) fail(`${path}.update.${key}`, `is not one of ${[...CORE_STATE_KEYS].join(', ')}`);
+        });
+        const { timeOfDay, activeAtmosphere, atmosphereOverride } = update;
+        if (timeOfDay !== undefined && (typeof timeOfDay !== 'number' || !(timeOfDay >= 0 && timeOfDay < 24))) {
+          fail(`${path}.update.timeOfDay`, 'must be a number of hours in [0, 24)');
+        }
+        if (activeAtmosphere !== undefined && (typeof activeAtmosphere !== 'string' || !ATMOSPHERES.has(activeAtmosphere))) {
+          fail(`${path}.update.activeAtmosphere`, `must be one of ${[...ATMOSPHERES].join(', ')}`);
+        }
+        if (atmosphereOverride !== undefined && typeof atmosphereOverride !== 'boolean') {
+          fail(`${path}.update.atmosphereOverride`, 'must be true or false');
+        }
+        return { at, kind: 'CORE_STATE', update: update as Partial<SeedCoreState> };
+      }
+      default:
+        return fail(`${path}.kind`, `has unknown event kind "${String(entry.kind)}"`);
+    }
+  });
+
+  if (!Array.isArray(raw.assertions)) fail('assertions', 'must be a list of { metric, op, value }');
+  const assertions = (raw.assertions as unknown[]).map((entry, i): ScenarioAssertion => {
+    const path = `assertions[${i}]`;
+    if (!isObject(entry)) return fail(path, 'must be a { metric, op, value } object');
+    if (typeof entry.op !== 'string' || !OPS.has(entry.op)) fail(`${path}.op`, `must be one of ${[...OPS].join(' ')}`);
+    if (typeof entry.value !== 'number' || !Number.isFinite(entry.value)) fail(`${path}.value`, 'must be a number');
+    return { metric: text(entry.metric, `${path}.metric`), op: entry.op as AssertionOp, value: entry.value as number };
+  });
+
+  return {
+    format: SCENARIO_FORMAT,
+    version: SCENARIO_VERSION,
+    name: raw.name as string,
+    ...(raw.description !== undefined && { description: raw.description as string }),
+    ...(layout !== undefined && { layout }),
+    ...(population && { population }),
+    ...(raw.startTime !== undefined && { startTime: clockTime(raw.startTime, 'startTime') }),
+    ticks: integer(raw.ticks, 'ticks', 1),
+    ...(seed !== undefined && { seed }),
+    ...(raw.dispatch !== undefined && { dispatch: raw.dispatch as string }),
+    events,
+    assertions,
+  };
+};
+
+/** The named scenarios shipped in src/scenarios, by file name */
+export const SCENARIO_LIBRARY: Record<string, Scenario> = {
+  baselineDay: parseScenario(baselineDay),
+  vipMorning: parseScenario(vipMorning),
+  skeletonCrew: parseScenario(skeletonCrew),
+  towerFireDrill: parseScenario(towerFireDrill),
+};
+
+/* ------------------------------ Running ------------------------------ */
+
+const startTimeOf = (scenario: Scenario) =>
+  scenario.startTime !== undefined ? parseTimeOfDay(scenario.startTime) ?? DEFAULT_START_TIME : DEFAULT_START_TIME;
+
+/** The scenario's events as engine script entries, clock times turned into ticks */
+export const scheduleScenario = (scenario: Scenario): ScriptedInput[] => {
+  const startTime = startTimeOf(scenario);
+  return scenario.events.map(({ at, ...input }) => ({
+    tick: typeof at === 'number' ? at : ticksUntil(startTime, parseTimeOfDay(at) ?? startTime, SIM_HOURS_PER_TICK),
+    input: input as DirectorInput,
+  }));
+};
+
+/**
+ * Builds the hotel a scenario opens on, its events scripted in. Throws if an
+ * event names a room or robot the hotel doesn't have.
+ */
+export const createScenarioEngine = (scenario: Scenario, seed: number): SimulationEngine => {
+  const layout = typeof scenario.layout === 'string' ? BUNDLED_LAYOUTS[scenario.layout] : scenario.layout;
+  const engine = new SimulationEngine({
+    seed,
+    layout,
+    population: { ...DEFAULT_POPULATION, ...scenario.population },
+    dispatchStrategy: scenario.dispatch,
+    initialCoreState: { timeOfDay: startTimeOf(scenario) },
+    script: scheduleScenario(scenario),
+  });
+
+  const { rooms, agents } = engine.getState();
+  scenario.events.forEach((event, i) => {
+    if ('roomId' in event && !rooms.some((room) => room.id === event.roomId)) {
+      throw new Error(`Scenario events[${i}].roomId names no room "${event.roomId}" in this hotel`);
+    }
+    if (event.kind === 'ROBOT_FAILURE' && !agents.some((agent) => agent.id === event.agentId && isRobot(agent))) {
+      throw new Error(`Scenario events[${i}].agentId names no robot "${event.agentId}" in this hotel`);
+    }
+  });
+  return engine;
+};
+
+/** A metric by dot path ("tickets.avgResolutionTicks"); lists give their length, missing paths null */
+export const readMetric = (metrics: SimulationMetrics, path: string): number | null => {
+  let value: unknown = metrics;
+  for (const key of path.split('.')) {
+    if (!isObject(value) && !Array.isArray(value)) return null;
+    value = (value as Record<string, unknown>)[key];
+  }
+  if (Array.isArray(value)) return value.length;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return typeof value === 'number' ? value : null;
+};
+
+const compare = (actual: number, op: AssertionOp, value: number) => {
+  switch (op) {
+    case '<': return actual < value;
+    case '<=': return actual <= value;
+    case '>': return actual > value;
+    case '>=': return actual >= value;
+    case '==': return actual === value;
+    case '!=': return actual !== value;
+  }
+};
+
+export const checkAssertions = (assertions: ScenarioAssertion[], metrics: SimulationMetrics): AssertionResult[] =>
+  assertions.map((assertion) => {
+    const actual = readMetric(metrics, assertion.metric);
+    return { ...assertion, actual, passed: actual !== null && compare(actual, assertion.op, assertion.value) };
+  });
+
+/** Runs a scenario start to finish headless (seed from the options, else the scenario's own) */
+export const runScenario = (scenario: Scenario, options: { seed?: number; ticks?: number } = {}): ScenarioResult => {
+  const seed = options.seed ?? scenario.seed;
+  if (seed === undefined) throw new Error(`Scenario "${scenario.name}" has no seed; pass one`);
+  const ticks = options.ticks ?? scenario.ticks;
+  const engine = createScenarioEngine(scenario, seed);
+  engine.run(ticks);
+  const metrics = engine.getMetrics();
+  const assertions = checkAssertions(scenario.assertions, metrics);
+  return { name: scenario.name, seed, ticks, metrics, assertions, passed: assertions.every((a) => a.passed) };
+};
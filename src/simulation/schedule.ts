@@ -0,0 +1,127 @@
+/* ---------------------------- Daily Schedule ---------------------------- */
+
+// The hotel's day, keyed off SeedCoreState.timeOfDay. Each period nudges the
+// other passes while it runs: how often bookings come in, when guests leave
+// their suites and where they go, room-service demand and when checkouts
+// bunch up. Periods may overlap; their effects combine. The clock also picks
+// the atmosphere unless the Director has overridden it.
+
+import type { GuestStop, SeedCoreState } from "../types";
+
+export type Atmosphere = SeedCoreState["activeAtmosphere"];
+
+export interface ScheduleEffects {
+  arrivalRate: number; // Multiplier on booking requests
+  outingChance: number; // Per tick, for guests resting in their suite to head out early
+  preferredStop?: GuestStop; // Visited first on an outing
+  closedStops: GuestStop[]; // Skipped on outings
+  stopDwell: number; // Multiplier on time spent at each stop
+  roomServiceRate: number; // Multiplier on room-service orders
+  checkoutWindowTicks: number; // Guests due to leave within this many ticks check out now
+}
+
+export interface SchedulePeriod {
+  id: string;
+  label: string;
+  start: number; // Hour of day, inclusive
+  end: number; // Hour of day, exclusive; may wrap past midnight
+  effects: Partial<ScheduleEffects>;
+}
+
+export interface ActiveSchedule extends ScheduleEffects {
+  periods: string[]; // Ids of the periods running now
+}
+
+export const DAILY_SCHEDULE: SchedulePeriod[] = [
+  {
+    id: 'BREAKFAST_RUSH',
+    label: 'Breakfast rush',
+    start: 7,
+    end: 9.5,
+    effects: { outingChance: 0.04, preferredStop: 'LOBBY', roomServiceRate: 3, arrivalRate: 0.5 },
+  },
+  {
+    id: 'CHECKOUT_PEAK',
+    label: 'Checkout peak',
+    start: 10,
+    end: 12,
+    effects: { checkoutWindowTicks: 120, arrivalRate: 0.5 },
+  },
+  {
+    id: 'AFTERNOON_ARRIVALS',
+    label: 'Afternoon arrivals',
+    start: 14,
+    end: 19,
+    effects: { arrivalRate: 1.6 },
+  },
+  {
+    id: 'LATE_LOUNGE',
+    label: 'Late-night lounge',
+    start: 21,
+    end: 1,
+    effects: { outingChance: 0.02, preferredStop: 'LOBBY', stopDwell: 1.5 },
+  },
+  {
+    id: 'GARDEN_QUIET',
+    label: 'Garden quiet hours',
+    start: 22,
+    end: 7,
+    effects: { closedStops: ['GARDEN'], arrivalRate: 0.4 },
+  },
+];
+
+// Atmosphere the clock picks, by the hour it starts
+const ATMOSPHERE_BY_HOUR: Array<{ from: number; atmosphere: Atmosphere }> = [
+  { from: 6, atmosphere: 'MORNING_LIGHT' },
+  { from: 16, atmosphere: 'GOLDEN_HOUR' },
+  { from: 19, atmosphere: 'EVENING_CHIC' },
+  { from: 23, atmosphere: 'MIDNIGHT_LOUNGE' },
+];
+
+const NO_EFFECTS: ScheduleEffects = {
+  arrivalRate: 1,
+  outingChance: 0,
+  closedStops: [],
+  stopDwell: 1,
+  roomServiceRate: 1,
+  checkoutWindowTicks: 0,
+};
+
+/** Whether an hour of day falls inside a period (handles periods that wrap midnight) */
+export const isWithinPeriod = (hour: number, { start, end }: { start: number; end: number }) =>
+  start <= end ? hour >= start && hour < end : hour >= start || hour < end;
+
+/** What the schedule asks of the hotel at this hour */
+export const getActiveSchedule = (schedule: SchedulePeriod[], timeOfDay: number): ActiveSchedule => {
+  const running = schedule.filter((period) => isWithinPeriod(timeOfDay, period));
+  return running.reduce<ActiveSchedule>(
+    (active, { id, effects }) => ({
+      periods: [...active.periods, id],
+      arrivalRate: active.arrivalRate * (effects.arrivalRate ?? 1),
+      outingChance: Math.max(active.outingChance, effects.outingChance ?? 0),
+      preferredStop: active.preferredStop ?? effects.preferredStop,
+      closedStops: [...active.closedStops, ...(effects.closedStops ?? [])],
+      stopDwell: active.stopDwell * (effects.stopDwell ?? 1),
+      roomServiceRate: active.roomServiceRate * (effects.roomServiceRate ?? 1),
+      checkoutWindowTicks: Math.max(active.checkoutWindowTicks, effects.checkoutWindowTicks ?? 0),
+    }),
+    { ...NO_EFFECTS, periods: [] }
+  );
+};
+
+/** The atmosphere for this hour when the Director isn't overriding it */
+export const scheduledAtmosphere = (timeOfDay: number): Atmosphere => {
+  const current = [...ATMOSPHERE_BY_HOUR].reverse().find(({ from }) => timeOfDay >= from);
+  // Before the first change of the day, last night's atmosphere still holds
+  return (current ?? ATMOSPHERE_BY_HOUR[ATMOSPHERE_BY_HOUR.length - 1]).atmosphere;
+};
+
+/** Orders an outing's stops for the hour: closed areas dropped, the preferred one first */
+export const planOuting = (stops: GuestStop[], active: ActiveSchedule): GuestStop[] => {
+  const open = stops.filter((stop) => !active.closedStops.includes(stop));
+  const preferred = active.preferredStop;
+  const ordered = preferred && !active.closedStops.includes(preferred)
+    ? [preferred, ...open.filter((stop) => stop !== preferred)]
+    : open;
+  return ordered.length > 0 ? ordered : ['LOBBY'];
+};
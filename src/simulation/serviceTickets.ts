@@ -0,0 +1,242 @@
+/* ---------------------------- Service Tickets ---------------------------- */
+
+// Work the robots are dispatched to, raised by what happens in the hotel:
+// guests calling from their suite, spills where guests gather, and noise in
+// busy suites, or reported by the Director (a scenario's spill). Each ticket goes to the dispatcher as a job: it is PENDING
+// until a robot is dispatched (ACTIVE) and RESOLVED once that robot has
+// serviced it on site.
+
+import { AgentRole, type Agent, type Coordinates, type Room } from "../types";
+import type { Rng } from "../utils/rng";
+import type { JobChange, JobRequest } from "./dispatcher";
+import { floorOf, isWalkableAt, onFloor, type Building } from "./floors";
+
+export type TicketKind = 'GUEST_REQUEST' | 'SPILL' | 'NOISE_ALERT';
+export type TicketStatus = 'PENDING' | 'ACTIVE' | 'RESOLVED';
+
+export interface ServiceTicket {
+  id: string;
+  kind: TicketKind;
+  status: TicketStatus;
+  roomId: string;
+  roomName: string;
+  position: Coordinates; // Where the robot works
+  createdAt: number; // Tick
+  createdAtTime: number; // Hour of day, for display
+  assignedTo?: string;
+  activatedAt?: number;
+  resolvedAt?: number;
+}
+
+export interface TicketBoard {
+  tickets: ServiceTicket[]; // Open tickets plus the most recently resolved
+  nextTicketNumber: number;
+  created: number;
+  resolved: number;
+  totalResponseTicks: number; // Created to ACTIVE, over resolved tickets
+  totalResolutionTicks: number; // Created to RESOLVED
+  reported?: TicketReport[]; // Raised on the next pass
+}
+
+/** A ticket reported from outside rather than noticed by the pass */
+export interface TicketReport {
+  kind: TicketKind;
+  roomId: string;
+  position: Coordinates;
+}
+
+export interface TicketChange {
+  ticket: ServiceTicket;
+  previousStatus?: TicketStatus; // Absent when the ticket was just raised
+}
+
+export interface TicketUpdate {
+  board: TicketBoard;
+  changes: TicketChange[];
+  requests: JobRequest[]; // New tickets, for the dispatcher
+}
+
+export const TICKET_LABELS: Record<TicketKind, string> = {
+  GUEST_REQUEST: 'Guest Request',
+  SPILL: 'Spill Detected',
+  NOISE_ALERT: 'High Noise Alert',
+};
+
+// Per tick chances
+const GUEST_REQUEST_CHANCE = 0.004; // Per guest resting in their suite
+const SPILL_CHANCE = 0.0015; // Per guest in the lobby or garden
+const NOISE_CHANCE = 0.01; // Per suite with company (more people inside than the party booked, 2+)
+
+const SERVICE_TICKS: Record<TicketKind, number> = {
+  GUEST_REQUEST: 6,
+  SPILL: 8,
+  NOISE_ALERT: 4,
+};
+// Who can handle each kind, preferred first
+const TICKET_ROLES: Record<TicketKind, AgentRole[]> = {
+  GUEST_REQUEST: [AgentRole.ROBOT_WAITER],
+  SPILL: [AgentRole.ROBOT_WAITER],
+  NOISE_ALERT: [AgentRole.ROBOT_CONCIERGE, AgentRole.ROBOT_WAITER],
+};
+const RESOLVED_HISTORY = 10;
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+const formatTicketId = (n: number) => `T-${String(n).padStart(4, '0')}`;
+
+export const createTicketBoard = (): TicketBoard => ({
+  tickets: [],
+  nextTicketNumber: 1,
+  created: 0,
+  resolved: 0,
+  totalResponseTicks: 0,
+  totalResolutionTicks: 0,
+});
+
+/**
+ * Queues a ticket reported by the Director, raised on the next pass. Without
+ * a position the robot works at the open tile nearest the room's centre.
+ */
+export const reportTicket = (
+  board: TicketBoard,
+  kind: TicketKind,
+  room: Room,
+  building: Building,
+  position?: Coordinates
+): TicketBoard => {
+  const floor = floorOf(room.topLeft);
+  const centre = {
+    x: Math.floor((room.topLeft.x + room.bottomRight.x) / 2),
+    y: Math.floor((room.topLeft.y + room.bottomRight.y) / 2),
+  };
+  const offCentre = (tile: Coordinates) => Math.abs(tile.x - centre.x) + Math.abs(tile.y - centre.y);
+  let spot = position;
+  if (!spot) {
+    for (let y = room.topLeft.y; y <= room.bottomRight.y; y++) {
+      for (let x = room.topLeft.x; x <= room.bottomRight.x; x++) {
+        const tile = onFloor({ x, y }, floor);
+        if (isWalkableAt(building, tile) && (!spot || offCentre(tile) < offCentre(spot))) spot = tile;
+      }
+    }
+  }
+  return { ...board, reported: [...(board.reported ?? []), { kind, roomId: room.id, position: spot ?? onFloor(centre, floor) }] };
+};
+
+/** Raises new tickets from what guests are up to, and the dispatcher jobs for them */
+export const updateServiceTickets = (
+  board: TicketBoard,
+  agents: Agent[],
+  rooms: Room[],
+  ctx: { tick: number; timeOfDay: number; rng: Rng; doors: Record<string, Coordinates> }
+): TicketUpdate => {
+  const { tick, rng } = ctx;
+  const { reported = [], ...rest } = board;
+  const next: TicketBoard = rest;
+  const changes: TicketChange[] = [];
+  const requests: JobRequest[] = [];
+
+  let tickets = board.tickets;
+  const raise = (kind: TicketKind, room: Room, position: Coordinates, guestId?: string) => {
+    if (tickets.some((t) => t.status !== 'RESOLVED' && t.kind === kind && t.roomId === room.id)) return;
+    const ticket: ServiceTicket = {
+      id: formatTicketId(next.nextTicketNumber),
+      kind,
+      status: 'PENDING',
+      roomId: room.id,
+      roomName: room.name,
+      position,
+      createdAt: tick,
+      createdAtTime: ctx.timeOfDay,
+    };
+    next.nextTicketNumber++;
+    next.created++;
+    tickets = [...tickets, ticket];
+    changes.push({ ticket });
+    requests.push({
+      id: ticket.id,
+      kind: 'SERVICE_TICKET',
+      roles: TICKET_ROLES[kind],
+      target: position,
+      duration: SERVICE_TICKS[kind],
+      subject: guestId,
+    });
+  };
+
+  reported.forEach((report) => {
+    const room = rooms.find((r) => r.id === report.roomId);
+    if (room) raise(report.kind, room, report.position);
+  });
+
+  const publicAreas = rooms.filter((room) => room.type === 'LOBBY' || room.type === 'GARDEN');
+  agents.forEach((agent) => {
+    if (agent.role !== AgentRole.GUEST) return;
+
+    const suite = agent.stay?.stage === 'IN_ROOM' ? rooms.find((r) => r.id === agent.stay?.roomId) : undefined;
+    const door = suite && ctx.doors[suite.id];
+    if (suite && door && isInside(agent.position, suite) && rng.next() < GUEST_REQUEST_CHANCE) {
+      raise('GUEST_REQUEST', suite, door, agent.id);
+      return;
+    }
+
+    const area = publicAreas.find((room) => isInside(agent.position, room));
+    if (area && rng.next() < SPILL_CHANCE) {
+      raise('SPILL', area, agent.position);
+    }
+  });
+
+  rooms.forEach((room) => {
+    const door = ctx.doors[room.id];
+    if (room.type !== 'SUITE' || !door) return;
+    const inside = agents.filter((a) => isInside(a.position, room)).length;
+    if (inside > Math.max(1, room.assignedGuests?.length ?? 0) && rng.next() < NOISE_CHANCE) {
+      raise('NOISE_ALERT', room, door);
+    }
+  });
+
+  next.tickets = tickets;
+  return { board: next, changes, requests };
+};
+
+/** Mirrors what the dispatcher did with ticket jobs onto the tickets */
+export const applyTicketJobChanges = (
+  board: TicketBoard,
+  jobChanges: JobChange[],
+  tick: number
+): { board: TicketBoard; changes: TicketChange[] } => {
+  const next: TicketBoard = { ...board };
+  const changes: TicketChange[] = [];
+  const transition = (ticket: ServiceTicket, status: TicketStatus, patch: Partial<ServiceTicket> = {}) => {
+    const updated = { ...ticket, ...patch, status };
+    changes.push({ ticket: updated, previousStatus: ticket.status });
+    return updated;
+  };
+
+  let tickets = board.tickets;
+  jobChanges.forEach(({ job, previousStatus }) => {
+    if (job.kind !== 'SERVICE_TICKET' || !previousStatus) return;
+    tickets = tickets.map((ticket) => {
+      if (ticket.id !== job.id) return ticket;
+      if (job.status === 'ASSIGNED') {
+        return transition(ticket, 'ACTIVE', { assignedTo: job.assignedTo, activatedAt: tick });
+      }
+      if (job.status === 'COMPLETED') {
+        next.resolved++;
+        next.totalResponseTicks += (ticket.activatedAt ?? tick) - ticket.createdAt;
+        next.totalResolutionTicks += tick - ticket.createdAt;
+        return transition(ticket, 'RESOLVED', { resolvedAt: tick });
+      }
+      return transition(ticket, 'PENDING', { assignedTo: undefined, activatedAt: undefined });
+    });
+  });
+
+  // Keep open tickets and a short resolved history
+  const resolved = tickets.filter((t) => t.status === 'RESOLVED');
+  next.tickets = resolved.length > RESOLVED_HISTORY
+    ? tickets.filter((t) => t.status !== 'RESOLVED' || resolved.indexOf(t) >= resolved.length - RESOLVED_HISTORY)
+    : tickets;
+
+  return { board: next, changes };
+};
@@ -0,0 +1,1106 @@
+/* ---------------------------- Simulation Engine ---------------------------- */
+
+// Framework-free owner of the hotel world: grid, rooms, agents and the SeedCore
+// clock. The React app and the headless CLI both drive the same engine, so it
+// must not touch the DOM, React or wall-clock time.
+
+import { AgentRole, RoomStatus, type Agent, type Coordinates, type EntityType, type PartyKind, type Room, type SeedCoreState } from "../types";
+import { SIM_HOURS_PER_TICK } from "../constants";
+import { DEFAULT_POPULATION, generateAgents, isRobot, updateAgentsLogic, type AgentPopulation } from "../utils/simulationUtils";
+import { createRng, type Rng } from "../utils/rng";
+import { DEFAULT_LAYOUT, loadLayout, type HotelLayout, type HotelZones } from "./layout";
+import { validateLayout, type LayoutReport } from "./layoutValidation";
+import { describeBuilding, floorOf, type Building } from "./floors";
+import {
+  createElevatorCars,
+  getElevatorMetrics,
+  updateVerticalTransport,
+  type ElevatorCar,
+  type ElevatorMetrics,
+} from "./verticalTransport";
+import type { SimEventType } from "../services/eventTypes";
+import {
+  applyBatteryBehaviour,
+  drainBatteries,
+  findServiceHubTiles,
+  getFleetBatteryStats,
+  type FleetBatteryStats,
+} from "./battery";
+import { updateEscalations, type Escalation } from "./escalations";
+import {
+  findReachableSuites,
+  initGuestStays,
+  updateGuestLifecycle,
+  type GuestFlow,
+  type GuestStageChange,
+} from "./guestLifecycle";
+import {
+  applyTurnoverJobChanges,
+  createHousekeepingState,
+  findSuiteDoors,
+  updateHousekeeping,
+  type HousekeepingState,
+} from "./housekeeping";
+import {
+  applyTicketJobChanges,
+  createTicketBoard,
+  reportTicket,
+  updateServiceTickets,
+  type TicketBoard,
+  type TicketChange,
+} from "./serviceTickets";
+import {
+  createDispatcherState,
+  getDispatchStrategy,
+  updateDispatcher,
+  type DispatcherState,
+  type JobChange,
+} from "./dispatcher";
+import {
+  createCrowdFlowState,
+  recordCrowdWaits,
+  type BottleneckKind,
+  type CrowdFlowState,
+} from "./crowding";
+import { updateSocializing } from "./socializing";
+import { createGuestServicesState, updateGuestServices, type GuestServicesState } from "./guestServices";
+import { collectServiceBoosts, updateMoods, type MoodChange } from "./mood";
+import {
+  clearIncident,
+  createIncidentLog,
+  findActiveIncidents,
+  findExits,
+  isEvacuating,
+  isEvacuation,
+  isPowerCut,
+  reportIncident,
+  startIncident,
+  updateIncidents,
+  withoutLifts,
+  type Incident,
+  type IncidentChange,
+  type IncidentKind,
+  type IncidentLog,
+  type IncidentReport,
+} from "./incidents";
+import {
+  DAILY_SCHEDULE,
+  getActiveSchedule,
+  isWithinPeriod,
+  scheduledAtmosphere,
+  type SchedulePeriod,
+} from "./schedule";
+import { SNAPSHOT_FORMAT, SNAPSHOT_VERSION, type SimulationSnapshot } from "./snapshot";
+import {
+  countRoomsByStatus,
+  createReservationBook,
+  bookVipArrival,
+  openLedger,
+  reservationRevenue,
+  updateReservations,
+  type InventoryChange,
+  type ReservationBook,
+  type ReservationStatus,
+} from "./reservations";
+
+export interface SimulationConfig {
+  seed: number;
+  /** The hotel to build (default the Grand Atrium, DEFAULT_LAYOUT) */
+  layout?: HotelLayout;
+  /** Override the layout's grid size; features beyond the edge are cut off */
+  width?: number;
+  height?: number;
+  /** Agents per role at the start (default DEFAULT_POPULATION; missing roles keep their default) */
+  population?: Partial<AgentPopulation>;
+  initialCoreState?: Partial<SeedCoreState>;
+  /** Ticks between room occupancy scans (occupancy is noisy tick-to-tick) */
+  occupancyCheckInterval?: number;
+  /** Registered dispatch strategy name (default "nearest-idle") */
+  dispatchStrategy?: string;
+  /** Daily periods that shape arrivals and guest routines (default DAILY_SCHEDULE) */
+  schedule?: SchedulePeriod[];
+  /** Director inputs to apply at set ticks, e.g. a scenario's events (see scenario.ts) */
+  script?: ScriptedInput[];
+}
+
+export interface SimulationState {
+  seed: number;
+  tick: number;
+  width: number;
+  height: number;
+  grid: EntityType[][]; // Ground floor, floors[0]
+  floors: EntityType[][][];
+  elevators: ElevatorCar[];
+  rooms: Room[];
+  zones: HotelZones;
+  agents: Agent[];
+  escalations: Escalation[];
+  guestFlow: GuestFlow;
+  reservations: ReservationBook;
+  housekeeping: HousekeepingState;
+  tickets: TicketBoard;
+  guestServices: GuestServicesState;
+  dispatcher: DispatcherState;
+  crowd: CrowdFlowState;
+  incidents: IncidentLog;
+  script: ScriptedInput[]; // Scripted inputs still to come, soonest first
+  coreState: SeedCoreState;
+}
+
+export interface SimulationEvent {
+  type: SimEventType;
+  payload: Record<string, unknown>;
+  tick: number;
+  timeOfDay: number;
+}
+
+/** Director inputs that change a run; with the seed they are all a replay needs */
+export type DirectorInput =
+  | { kind: 'CORE_STATE'; update: Partial<SeedCoreState> }
+  | { kind: 'ROOM_OUT_OF_ORDER'; roomId: string; outOfOrder: boolean }
+  | { kind: 'DISPATCH_STRATEGY'; strategy: string }
+  | { kind: 'INCIDENT'; incident: IncidentKind; roomId: string }
+  | { kind: 'INCIDENT_CLEAR'; incidentId: string }
+  | { kind: 'VIP_ARRIVAL'; party: PartyKind }
+  | { kind: 'SPILL'; roomId: string; position?: Coordinates }
+  | { kind: 'ROBOT_FAILURE'; agentId: string };
+
+/** A Director input due when the engine reaches `tick` (applied before that tick runs) */
+export interface ScriptedInput {
+  tick: number;
+  input: DirectorInput;
+}
+
+export interface SimulationMetrics {
+  tick: number;
+  timeOfDay: number;
+  agentsByState: Record<string, number>;
+  agentsByRole: Record<string, number>;
+  roomOccupancy: Record<string, number>;
+  guests: GuestMetrics;
+  inventory: InventoryMetrics;
+  housekeeping: HousekeepingMetrics;
+  tickets: TicketMetrics;
+  dispatch: DispatchMetrics;
+  crowd: CrowdMetrics;
+  elevators: ElevatorMetrics;
+  incidents: IncidentMetrics;
+  mood: MoodMetrics;
+  schedule: ScheduleMetrics;
+  fleet: FleetBatteryStats;
+  escalations: { open: number; resolved: number };
+  eventCounts: Record<string, number>;
+}
+
+export interface GuestMetrics {
+  inHouse: number;
+  queueLength: number;
+  arrivals: number;
+  checkIns: number;
+  checkOuts: number;
+  walkAways: number;
+  avgQueueTicks: number; // Arrival to check-in
+}
+
+export interface InventoryMetrics {
+  rooms: Record<RoomStatus, number>;
+  occupancyRate: number; // OCCUPIED share of sellable suites, 0-1
+  reservations: Partial<Record<ReservationStatus, number>>;
+  declined: number;
+  revenue: number; // Folios of checked-in and checked-out stays
+}
+
+export interface HousekeepingMetrics {
+  dirtyBacklog: number; // VACANT_DIRTY suites
+  openTasks: number;
+  assignedTasks: number;
+  completed: number;
+  avgTurnoverTicks: number; // Checkout (dirty) to clean
+  turnoverByRoom: Record<string, number>; // Average per suite
+}
+
+export interface TicketMetrics {
+  pending: number;
+  active: number;
+  resolved: number;
+  avgResponseTicks: number; // Raised to robot dispatched
+  avgResolutionTicks: number; // Raised to resolved
+}
+
+export interface DispatchMetrics {
+  strategy: string;
+  queueLength: number; // Jobs waiting for a robot
+  inProgress: number;
+  created: number;
+  completed: number;
+  avgAssignmentLatencyTicks: number; // Queued to first assignment
+  avgCompletionTicks: number; // Queued to completed
+}
+
+export interface CrowdMetrics {
+  waitingNow: number; // Agents blocked by a full tile this tick
+  bottlenecks: Record<BottleneckKind, { waits: number; totalTicks: number; avgTicks: number }>;
+  squeezes: number;
+  longestWait: number;
+  busiestTiles: Array<{ x: number; y: number; floor?: number; waitTicks: number }>; // Doorway and desk tiles, worst first
+}
+
+export interface IncidentMetrics {
+  active: number;
+  resolved: number;
+  evacuations: number; // Fire alarms and power cuts so far
+  latest: IncidentReport | null; // The most recent incident, running or over
+}
+
+export interface ScheduleMetrics {
+  periods: string[]; // Schedule periods running now
+  atmosphere: SeedCoreState["activeAtmosphere"];
+  atmosphereSource: 'CLOCK' | 'DIRECTOR';
+}
+
+export interface MoodMetrics {
+  avgGuestSatisfaction: number; // Mean guest mood score, 0-100
+  guests: Record<string, number>; // Guests per mood label
+  robots: Record<string, number>; // Robots per status label
+}
+
+type SimulationListener = (event: SimulationEvent) => void;
+type InputListener = (input: DirectorInput, tick: number) => void;
+type TickListener = (state: SimulationState) => void;
+
+// Only these transitions are always reported; WALKING/PAUSING churn is sampled
+const SIGNIFICANT_STATES = new Set<Agent["state"]>(['SOCIALIZING', 'SERVICING', 'CHARGING', 'OBSERVING']);
+const MINOR_STATE_SAMPLE_RATE = 0.1;
+
+const DEFAULT_CORE_STATE: SeedCoreState = {
+  activeAtmosphere: "MORNING_LIGHT",
+  logs: [],
+  timeOfDay: 8,
+};
+
+// Rounded so float drift never leaks into the event stream (8.05, not 8.0500000001)
+const advanceTimeOfDay = (timeOfDay: number) =>
+  (Math.round((timeOfDay + SIM_HOURS_PER_TICK) * 1000) / 1000) % 24;
+
+export const countRoomOccupancy = (room: Room, agents: Agent[]) =>
+  agents.filter((agent) =>
+    agent.position.x >= room.topLeft.x &&
+    agent.position.x <= room.bottomRight.x &&
+    agent.position.y >= room.topLeft.y &&
+    agent.position.y <= room.bottomRight.y &&
+    floorOf(agent.position) === floorOf(room.topLeft)
+  ).length;
+
+const countBookings = (room: Room) => room.assignedGuests?.length ?? 0;
+
+export class SimulationEngine {
+  private state: SimulationState;
+  private rng: Rng;
+  private listeners: SimulationListener[] = [];
+  private inputListeners: InputListener[] = [];
+  private tickListeners: TickListener[] = [];
+  private lastOccupancy = new Map<string, { occupancy: number; booked: number }>();
+  private eventCounts: Record<string, number> = {};
+  private occupancyCheckInterval: number;
+  private building: Building;
+  private hubTiles: Coordinates[];
+  private suiteDoors: Record<string, Coordinates>;
+  private layoutReport: LayoutReport;
+  private resolvedEscalations = 0;
+  private schedule: SchedulePeriod[];
+  private scripting = false;
+
+  constructor(config: SimulationConfig) {
+    const layout = config.layout ?? DEFAULT_LAYOUT;
+    const width = config.width ?? layout.width;
+    const height = config.height ?? layout.height;
+
+    this.rng = createRng(config.seed);
+    this.occupancyCheckInterval = config.occupancyCheckInterval ?? 5;
+    this.schedule = config.schedule ?? DAILY_SCHEDULE;
+
+    const map = loadLayout({ ...layout, width, height }, this.rng);
+    const { grid, zones } = map;
+    this.building = describeBuilding(map.floors, map.elevators);
+    this.hubTiles = findServiceHubTiles(grid);
+    this.suiteDoors = findSuiteDoors(this.building, map.rooms, zones.ENTRANCE);
+    this.layoutReport = validateLayout(map);
+    const generated = generateAgents({ ...DEFAULT_POPULATION, ...config.population }, width, height, zones, this.rng);
+    const guestCount = generated.filter((a) => a.role === AgentRole.GUEST).length;
+    const ledger = openLedger(
+      createReservationBook(map.rooms, findReachableSuites(this.building, map.rooms, zones.ENTRANCE), guestCount, this.rng)
+    );
+    const { agents, rooms, flow } = initGuestStays(generated, map.rooms, ledger, this.rng);
+
+    this.state = {
+      seed: this.rng.seed,
+      tick: 0,
+      width,
+      height,
+      grid,
+      floors: map.floors,
+      elevators: createElevatorCars(map.elevators),
+      rooms,
+      zones,
+      agents,
+      escalations: [],
+      guestFlow: flow,
+      reservations: ledger.book(),
+      housekeeping: createHousekeepingState(),
+      tickets: createTicketBoard(),
+      guestServices: createGuestServicesState(),
+      dispatcher: createDispatcherState(config.dispatchStrategy),
+      crowd: createCrowdFlowState(),
+      incidents: createIncidentLog(),
+      script: [...(config.script ?? [])].sort((a, b) => a.tick - b.tick),
+      coreState: this.followClock({ ...DEFAULT_CORE_STATE, ...config.initialCoreState }),
+    };
+  }
+
+  /** Current world state. Treat as read-only: every tick replaces changed parts. */
+  getState(): SimulationState {
+    return this.state;
+  }
+
+  subscribe(listener: SimulationListener): () => void {
+    this.listeners.push(listener);
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  /** Hears every director input as it is applied, with the tick it lands on (for recording) */
+  subscribeInputs(listener: InputListener): () => void {
+    this.inputListeners.push(listener);
+    return () => {
+      const index = this.inputListeners.indexOf(listener);
+      if (index > -1) {
+        this.inputListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /** Hears the new state at the end of every tick, after its events (for metrics sampling) */
+  subscribeTicks(listener: TickListener): () => void {
+    this.tickListeners.push(listener);
+    return () => {
+      const index = this.tickListeners.indexOf(listener);
+      if (index > -1) {
+        this.tickListeners.splice(index, 1);
+      }
+    };
+  }
+
+  /** Applies a recorded director input */
+  applyInput(input: DirectorInput) {
+    switch (input.kind) {
+      case 'CORE_STATE':
+        this.updateCoreState(input.update);
+        break;
+      case 'ROOM_OUT_OF_ORDER':
+        this.setRoomOutOfOrder(input.roomId, input.outOfOrder);
+        break;
+      case 'DISPATCH_STRATEGY':
+        this.setDispatchStrategy(input.strategy);
+        break;
+      case 'INCIDENT':
+        this.triggerIncident(input.incident, input.roomId);
+        break;
+      case 'INCIDENT_CLEAR':
+        this.clearIncident(input.incidentId);
+        break;
+      case 'VIP_ARRIVAL':
+        this.bookVipArrival(input.party);
+        break;
+      case 'SPILL':
+        this.reportSpill(input.roomId, input.position);
+        break;
+      case 'ROBOT_FAILURE':
+        this.failRobot(input.agentId);
+        break;
+    }
+  }
+
+  /**
+   * Director input: merges a partial SeedCore state (atmosphere, time, logs).
+   * Picking a different atmosphere overrides the clock until
+   * { atmosphereOverride: false } hands it back.
+   */
+  updateCoreState(update: Partial<SeedCoreState>) {
+    this.notifyInput({ kind: 'CORE_STATE', update });
+    const { coreState } = this.state;
+    const overriding = update.activeAtmosphere !== undefined && update.activeAtmosphere !== coreState.activeAtmosphere;
+    this.state = {
+      ...this.state,
+      coreState: this.followClock({
+        ...coreState,
+        ...(overriding && { atmosphereOverride: true }),
+        ...update,
+      }),
+    };
+  }
+
+  /**
+   * Takes a suite out of service (or puts it back, to be cleaned first).
+   * Occupied suites can't be taken out; returns whether the status changed.
+   */
+  setRoomOutOfOrder(roomId: string, outOfOrder: boolean): boolean {
+    this.notifyInput({ kind: 'ROOM_OUT_OF_ORDER', roomId, outOfOrder });
+    const ledger = openLedger(this.state.reservations);
+    const status = ledger.book().roomStatus[roomId];
+    if (outOfOrder ? status === RoomStatus.VACANT_CLEAN || status === RoomStatus.VACANT_DIRTY : status === RoomStatus.OUT_OF_ORDER) {
+      ledger.setRoomStatus(roomId, outOfOrder ? RoomStatus.OUT_OF_ORDER : RoomStatus.VACANT_DIRTY, this.state.tick);
+    }
+    this.state = { ...this.state, reservations: ledger.book() };
+    this.emitInventoryChanges(ledger.changes);
+    return ledger.changes.length > 0;
+  }
+
+  /**
+   * Director input: sets off a fire alarm, power cut or medical emergency in
+   * a room (see incidents.ts). Returns the incident, or null when it can't
+   * start: an evacuation is already under way, or there is nobody to treat.
+   */
+  triggerIncident(kind: IncidentKind, roomId: string): Incident | null {
+    const { rooms, zones, agents, tick, coreState } = this.state;
+    const room = rooms.find((r) => r.id === roomId);
+    if (!room) throw new Error(`Unknown room "${roomId}"`);
+    this.notifyInput({ kind: 'INCIDENT', incident: kind, roomId });
+    const started = startIncident(this.state.incidents, agents, kind, room, {
+      tick,
+      timeOfDay: coreState.timeOfDay,
+      rooms,
+      building: this.building,
+      exits: findExits(zones),
+    });
+    if (!started) return null;
+    this.state = { ...this.state, incidents: started.log, agents: started.agents };
+    this.emitIncidentChanges([{ incident: started.incident, kind: 'STARTED' }]);
+    return started.incident;
+  }
+
+  /** Director input: gives the all clear early; returns whether the incident was still running */
+  clearIncident(incidentId: string): boolean {
+    this.notifyInput({ kind: 'INCIDENT_CLEAR', incidentId });
+    const cleared = clearIncident(this.state.incidents, this.state.agents, incidentId, this.state.tick);
+    if (!cleared) return false;
+    this.state = { ...this.state, incidents: cleared.log, agents: cleared.agents };
+    this.emitIncidentChanges([{ incident: cleared.incident, kind: 'RESOLVED' }]);
+    return true;
+  }
+
+  /** Director input: a VIP party walks in at the street doors on the next tick */
+  bookVipArrival(party: PartyKind = 'BUSINESS') {
+    this.notifyInput({ kind: 'VIP_ARRIVAL', party });
+    const ledger = openLedger(this.state.reservations);
+    const reservation = bookVipArrival(ledger, this.state.tick + 1, party);
+    this.state = { ...this.state, reservations: ledger.book() };
+    this.emitInventoryChanges(ledger.changes);
+    return reservation;
+  }
+
+  /** Director input: a spill in a room (by default near its centre), ticketed on the next tick */
+  reportSpill(roomId: string, position?: Coordinates) {
+    const room = this.state.rooms.find((r) => r.id === roomId);
+    if (!room) throw new Error(`Unknown room "${roomId}"`);
+    this.notifyInput({ kind: 'SPILL', roomId, ...(position && { position }) });
+    this.state = { ...this.state, tickets: reportTicket(this.state.tickets, 'SPILL', room, this.building, position) };
+  }
+
+  /**
+   * Director input: a robot breaks down where it stands. It drops its job
+   * (the dispatcher requeues it) and waits, flat, for staff to swap its pack.
+   */
+  failRobot(agentId: string) {
+    const robot = this.state.agents.find((a) => a.id === agentId);
+    if (!robot || !isRobot(robot)) throw new Error(`Unknown robot "${agentId}"`);
+    this.notifyInput({ kind: 'ROBOT_FAILURE', agentId });
+    this.state = {
+      ...this.state,
+      agents: this.state.agents.map((a) =>
+        a.id === agentId ? { ...a, battery: 0, state: 'PAUSING', target: a.position, route: [], task: undefined } : a
+      ),
+    };
+  }
+
+  /** Everything needed to resume this run later, as plain JSON-safe data */
+  toSnapshot(): SimulationSnapshot {
+    return {
+      format: SNAPSHOT_FORMAT,
+      version: SNAPSHOT_VERSION,
+      seed: this.state.seed,
+      tick: this.state.tick,
+      state: this.state,
+      engine: {
+        rngState: this.rng.getState(),
+        eventCounts: { ...this.eventCounts },
+        resolvedEscalations: this.resolvedEscalations,
+        lastOccupancy: Object.fromEntries(this.lastOccupancy),
+        occupancyCheckInterval: this.occupancyCheckInterval,
+        schedule: this.schedule,
+      },
+    };
+  }
+
+  /**
+   * Replaces the world with a snapshot's (see parseSnapshot). Listeners stay
+   * subscribed; the next tick carries on exactly where the snapshot left off.
+   */
+  restore(snapshot: SimulationSnapshot) {
+    const { state, engine } = snapshot;
+    this.rng = createRng(state.seed, engine.rngState);
+    this.state = state;
+    this.eventCounts = { ...engine.eventCounts };
+    this.resolvedEscalations = engine.resolvedEscalations;
+    this.lastOccupancy = new Map(Object.entries(engine.lastOccupancy));
+    this.occupancyCheckInterval = engine.occupancyCheckInterval;
+    this.schedule = engine.schedule;
+    this.building = describeBuilding(state.floors, state.elevators);
+    this.hubTiles = findServiceHubTiles(state.grid);
+    this.suiteDoors = findSuiteDoors(this.building, state.rooms, state.zones.ENTRANCE);
+    this.layoutReport = validateLayout(state);
+  }
+
+  /** Schedule periods running at the current hour */
+  getRunningPeriods(): SchedulePeriod[] {
+    return this.schedule.filter((period) => isWithinPeriod(this.state.coreState.timeOfDay, period));
+  }
+
+  /** Problems with the hotel the engine was built on (checked once, when it is built or restored) */
+  getLayoutReport(): LayoutReport {
+    return this.layoutReport;
+  }
+
+  /** Switches how open jobs are handed out; jobs already assigned keep their robot */
+  setDispatchStrategy(name: string) {
+    getDispatchStrategy(name);
+    this.notifyInput({ kind: 'DISPATCH_STRATEGY', strategy: name });
+    this.state = { ...this.state, dispatcher: { ...this.state.dispatcher, strategy: name } };
+  }
+
+  tick(): SimulationState {
+    this.runScript();
+    const { floors, zones, rooms: prevRooms, agents: prevAgents, coreState } = this.state;
+    const tick = this.state.tick + 1;
+    const clock = { tick, timeOfDay: coreState.timeOfDay };
+    // What the hour asks of arrivals and guest routines
+    const schedule = getActiveSchedule(this.schedule, coreState.timeOfDay);
+    // In an evacuation the lifts are out of service: everyone routes by the stairs
+    const building = isEvacuating(this.state.incidents) ? withoutLifts(this.building) : this.building;
+
+    // Battery pass first so low robots are redirected before they move
+    const powered = applyBatteryBehaviour(prevAgents, this.building, this.hubTiles);
+    // Staff pick up escalations before choosing their own next move
+    const escalated = updateEscalations(this.state.escalations, powered, { ...clock, rng: this.rng });
+    this.resolvedEscalations += escalated.resolved.length;
+    // Bookings first: due reservations become this tick's arrivals
+    const ledger = openLedger(this.state.reservations);
+    const due = updateReservations(ledger, { tick, rng: this.rng, arrivalRate: schedule.arrivalRate });
+    // Stage changes (check-in, checkout, ...) set guests' next destination
+    const stays = updateGuestLifecycle(escalated.agents, prevRooms, this.state.guestFlow, due, {
+      ...clock,
+      rng: this.rng,
+      ledger,
+      floors,
+      zones,
+      schedule,
+    });
+    const { rooms } = stays;
+    // Lingering guests stop to chat or watch the robots
+    const social = updateSocializing(stays.agents, rooms, { tick, rng: this.rng });
+    // Suites vacated this tick get a turnover task straight away, queued with the dispatcher
+    const turnover = updateHousekeeping(this.state.housekeeping, social, this.state.dispatcher, {
+      ...clock,
+      ledger,
+      doors: this.suiteDoors,
+    });
+    // Tickets, guest orders and turnovers become jobs; the dispatcher hands them to idle robots
+    const raised = updateServiceTickets(this.state.tickets, turnover.agents, rooms, {
+      ...clock,
+      rng: this.rng,
+      doors: this.suiteDoors,
+    });
+    const services = updateGuestServices(this.state.guestServices, turnover.agents, rooms, this.state.dispatcher, {
+      tick,
+      rng: this.rng,
+      doors: this.suiteDoors,
+      zones,
+      roomServiceRate: schedule.roomServiceRate,
+    });
+    const dispatched = updateDispatcher(
+      this.state.dispatcher,
+      turnover.agents,
+      [...raised.requests, ...services.requests, ...turnover.requests],
+      { ...clock, withdrawn: turnover.withdrawn }
+    );
+    const serviced = applyTicketJobChanges(raised.board, dispatched.changes, tick);
+    const cleaned = applyTurnoverJobChanges(turnover.housekeeping, dispatched.changes, { tick, ledger });
+    // Agents at stairs and lift landings change floors before the rest move
+    const lifted = updateVerticalTransport(dispatched.agents, this.state.elevators, {
+      tick,
+      building,
+      halted: isPowerCut(this.state.incidents),
+    });
+    const moved = updateAgentsLogic(lifted.agents, building, rooms, zones, this.rng, clock);
+    const drained = drainBatteries(lifted.agents, moved);
+    // Incidents after movement: who got out, who is held up, who the guides reached
+    const incidents = updateIncidents(this.state.incidents, drained, { tick, exits: findExits(zones) });
+    // Moods last, so they see where everyone ended up and what got done
+    const moods = updateMoods(incidents.agents, {
+      timeOfDay: coreState.timeOfDay,
+      atmosphere: coreState.activeAtmosphere,
+      served: collectServiceBoosts(dispatched.changes, incidents.agents),
+    });
+    const { agents } = moods;
+
+    this.state = {
+      ...this.state,
+      tick,
+      rooms,
+      agents,
+      escalations: escalated.escalations,
+      guestFlow: stays.flow,
+      reservations: ledger.book(),
+      housekeeping: cleaned,
+      tickets: serviced.board,
+      guestServices: services.services,
+      dispatcher: dispatched.dispatcher,
+      elevators: lifted.elevators,
+      crowd: recordCrowdWaits(this.state.crowd, prevAgents, agents, floors),
+      incidents: incidents.log,
+      coreState: this.followClock({ ...coreState, timeOfDay: advanceTimeOfDay(coreState.timeOfDay) }),
+    };
+
+    this.emitStateChanges(prevAgents, agents);
+    this.emitInventoryChanges(ledger.changes);
+    this.emitGuestStageChanges(stays.changes);
+    this.emitTicketChanges([...raised.changes, ...serviced.changes]);
+    this.emitDispatchChanges(dispatched.changes);
+    this.emitMoodChanges(moods.changes);
+    this.emitIncidentChanges(incidents.changes);
+    // Head counts are scanned on an interval; bookings are reported as they happen
+    if (tick % this.occupancyCheckInterval === 0) {
+      this.emitOccupancyChanges(rooms);
+    } else if (rooms !== prevRooms) {
+      this.emitOccupancyChanges(rooms.filter((room, i) => room !== prevRooms[i]));
+    }
+    this.tickListeners.forEach((listener) => {
+      try {
+        listener(this.state);
+      } catch (error) {
+        console.error('[SimulationEngine] Tick listener error:', error);
+      }
+    });
+
+    return this.state;
+  }
+
+  run(ticks: number): SimulationState {
+    for (let i = 0; i < ticks; i++) this.tick();
+    return this.state;
+  }
+
+  getMetrics(): SimulationMetrics {
+    const { tick, agents, rooms, coreState } = this.state;
+    const agentsByState: Record<string, number> = {};
+    const agentsByRole: Record<string, number> = {};
+    agents.forEach((agent) => {
+      agentsByState[agent.state] = (agentsByState[agent.state] ?? 0) + 1;
+      agentsByRole[agent.role] = (agentsByRole[agent.role] ?? 0) + 1;
+    });
+
+    const roomOccupancy: Record<string, number> = {};
+    rooms.forEach((room) => {
+      roomOccupancy[room.id] = countRoomOccupancy(room, agents);
+    });
+
+    return {
+      tick,
+      timeOfDay: coreState.timeOfDay,
+      agentsByState,
+      agentsByRole,
+      roomOccupancy,
+      guests: this.getGuestMetrics(),
+      inventory: this.getInventoryMetrics(),
+      housekeeping: this.getHousekeepingMetrics(),
+      tickets: this.getTicketMetrics(),
+      dispatch: this.getDispatchMetrics(),
+      crowd: this.getCrowdMetrics(),
+      elevators: getElevatorMetrics(this.state.elevators),
+      incidents: this.getIncidentMetrics(),
+      mood: this.getMoodMetrics(),
+      schedule: {
+        periods: getActiveSchedule(this.schedule, coreState.timeOfDay).periods,
+        atmosphere: coreState.activeAtmosphere,
+        atmosphereSource: coreState.atmosphereOverride ? 'DIRECTOR' : 'CLOCK',
+      },
+      fleet: getFleetBatteryStats(agents),
+      escalations: { open: this.state.escalations.length, resolved: this.resolvedEscalations },
+      eventCounts: { ...this.eventCounts },
+    };
+  }
+
+  private notifyInput(input: DirectorInput) {
+    if (this.scripting) return;
+    this.inputListeners.forEach((listener) => listener(input, this.state.tick));
+  }
+
+  // Scripted inputs are part of the world (snapshots carry the script), so a
+  // replay runs them itself: they aren't reported as Director inputs
+  private runScript() {
+    const { script, tick } = this.state;
+    if (script.length === 0 || script[0].tick > tick) return;
+    this.state = { ...this.state, script: script.filter((entry) => entry.tick > tick) };
+    this.scripting = true;
+    try {
+      script.filter((entry) => entry.tick <= tick).forEach(({ input }) => this.applyInput(input));
+    } finally {
+      this.scripting = false;
+    }
+  }
+
+  // The clock sets the atmosphere unless the Director has picked one
+  private followClock(coreState: SeedCoreState): SeedCoreState {
+    if (coreState.atmosphereOverride) return coreState;
+    const activeAtmosphere = scheduledAtmosphere(coreState.timeOfDay);
+    return activeAtmosphere === coreState.activeAtmosphere ? coreState : { ...coreState, activeAtmosphere };
+  }
+
+  private getGuestMetrics(): GuestMetrics {
+    const { agents, guestFlow } = this.state;
+    return {
+      inHouse: agents.filter((a) => a.stay?.checkedInAt !== undefined && a.stay.stage !== 'DEPARTING').length,
+      queueLength: guestFlow.queue.length,
+      arrivals: guestFlow.arrivals,
+      checkIns: guestFlow.checkIns,
+      checkOuts: guestFlow.checkOuts,
+      walkAways: guestFlow.walkAways,
+      avgQueueTicks: guestFlow.checkIns > 0 ? guestFlow.totalQueueTicks / guestFlow.checkIns : 0,
+    };
+  }
+
+  private getInventoryMetrics(): InventoryMetrics {
+    const book = this.state.reservations;
+    const rooms = countRoomsByStatus(book);
+    const sellable = rooms.VACANT_CLEAN + rooms.VACANT_DIRTY + rooms.OCCUPIED;
+    const reservations: InventoryMetrics["reservations"] = {};
+    let revenue = 0;
+    book.reservations.forEach((reservation) => {
+      reservations[reservation.status] = (reservations[reservation.status] ?? 0) + 1;
+      if (reservation.status === 'CHECKED_IN' || reservation.status === 'CHECKED_OUT') {
+        revenue += reservationRevenue(reservation);
+      }
+    });
+
+    return {
+      rooms,
+      occupancyRate: sellable > 0 ? rooms.OCCUPIED / sellable : 0,
+      reservations,
+      declined: book.declined,
+      revenue,
+    };
+  }
+
+  private getHousekeepingMetrics(): HousekeepingMetrics {
+    const { housekeeping, reservations } = this.state;
+    const turnoverByRoom: Record<string, number> = {};
+    let count = 0;
+    let totalTicks = 0;
+    Object.entries(housekeeping.turnover).forEach(([roomId, stats]) => {
+      turnoverByRoom[roomId] = stats.totalTicks / stats.count;
+      count += stats.count;
+      totalTicks += stats.totalTicks;
+    });
+
+    return {
+      dirtyBacklog: countRoomsByStatus(reservations).VACANT_DIRTY,
+      openTasks: housekeeping.tasks.length,
+      assignedTasks: housekeeping.tasks.filter((task) => task.assignedTo).length,
+      completed: housekeeping.completed,
+      avgTurnoverTicks: count > 0 ? totalTicks / count : 0,
+      turnoverByRoom,
+    };
+  }
+
+  private getTicketMetrics(): TicketMetrics {
+    const board = this.state.tickets;
+    return {
+      pending: board.tickets.filter((t) => t.status === 'PENDING').length,
+      active: board.tickets.filter((t) => t.status === 'ACTIVE').length,
+      resolved: board.resolved,
+      avgResponseTicks: board.resolved > 0 ? board.totalResponseTicks / board.resolved : 0,
+      avgResolutionTicks: board.resolved > 0 ? board.totalResolutionTicks / board.resolved : 0,
+    };
+  }
+
+  private getDispatchMetrics(): DispatchMetrics {
+    const dispatcher = this.state.dispatcher;
+    return {
+      strategy: dispatcher.strategy,
+      queueLength: dispatcher.jobs.filter((job) => job.status === 'QUEUED').length,
+      inProgress: dispatcher.jobs.filter((job) => job.status === 'ASSIGNED').length,
+      created: dispatcher.created,
+      completed: dispatcher.completed,
+      avgAssignmentLatencyTicks: dispatcher.assigned > 0 ? dispatcher.totalLatencyTicks / dispatcher.assigned : 0,
+      avgCompletionTicks: dispatcher.completed > 0 ? dispatcher.totalCompletionTicks / dispatcher.completed : 0,
+    };
+  }
+
+  private getCrowdMetrics(): CrowdMetrics {
+    const { crowd, agents } = this.state;
+    const bottlenecks = {} as CrowdMetrics["bottlenecks"];
+    (Object.keys(crowd.waits) as BottleneckKind[]).forEach((kind) => {
+      const { count, totalTicks } = crowd.waits[kind];
+      bottlenecks[kind] = { waits: count, totalTicks, avgTicks: count > 0 ? totalTicks / count : 0 };
+    });
+
+    return {
+      waitingNow: agents.filter((a) => a.waiting).length,
+      bottlenecks,
+      squeezes: crowd.squeezes,
+      longestWait: crowd.longestWait,
+      busiestTiles: Object.entries(crowd.tileWaitTicks)
+        .sort(([, a], [, b]) => b - a)
+        .slice(0, 5)
+        .map(([key, waitTicks]) => {
+          const [x, y, floor] = key.split(",").map(Number);
+          return { x, y, ...(floor && { floor }), waitTicks };
+        }),
+    };
+  }
+
+  private getIncidentMetrics(): IncidentMetrics {
+    const { incidents } = this.state.incidents;
+    const latest = incidents[incidents.length - 1];
+    return {
+      active: findActiveIncidents(this.state.incidents).length,
+      resolved: incidents.filter((i) => i.status === 'RESOLVED').length,
+      evacuations: incidents.filter(isEvacuation).length,
+      latest: latest ? reportIncident(latest, this.state.tick) : null,
+    };
+  }
+
+  private getMoodMetrics(): MoodMetrics {
+    const guests: Record<string, number> = {};
+    const robots: Record<string, number> = {};
+    let totalScore = 0;
+    let scored = 0;
+    this.state.agents.forEach((agent) => {
+      if (agent.role === AgentRole.GUEST) {
+        guests[agent.mood] = (guests[agent.mood] ?? 0) + 1;
+        totalScore += agent.moodScore ?? 0;
+        scored += agent.moodScore !== undefined ? 1 : 0;
+      } else if (isRobot(agent)) {
+        robots[agent.mood] = (robots[agent.mood] ?? 0) + 1;
+      }
+    });
+
+    return { avgGuestSatisfaction: scored > 0 ? totalScore / scored : 0, guests, robots };
+  }
+
+  private emit(type: SimEventType, payload: Record<string, unknown>) {
+    this.eventCounts[type] = (this.eventCounts[type] ?? 0) + 1;
+    const event: SimulationEvent = {
+      type,
+      payload,
+      tick: this.state.tick,
+      timeOfDay: this.state.coreState.timeOfDay,
+    };
+
+    this.listeners.forEach((listener) => {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[SimulationEngine] Listener error:', error);
+      }
+    });
+  }
+
+  private emitStateChanges(prevAgents: Agent[], agents: Agent[]) {
+    agents.forEach((agent) => {
+      const prev = prevAgents.find((a) => a.id === agent.id);
+      if (!prev || prev.state === agent.state) return;
+
+      const isSignificant = SIGNIFICANT_STATES.has(agent.state) || SIGNIFICANT_STATES.has(prev.state);
+      if (isSignificant || this.rng.next() < MINOR_STATE_SAMPLE_RATE) {
+        this.emit("sim.agent.state.changed", {
+          agentId: agent.id,
+          agentRole: agent.role,
+          state: agent.state,
+          previousState: prev.state,
+          ...(agent.battery !== undefined && { battery: Math.round(agent.battery) }),
+          ...(agent.activity && { focusId: agent.activity.focusId }),
+          ...(agent.stay?.party && { partyId: agent.stay.party.id }),
+        });
+      }
+    });
+  }
+
+  private emitInventoryChanges(changes: InventoryChange[]) {
+    changes.forEach((change) => {
+      switch (change.kind) {
+        case 'RESERVATION_CREATED': {
+          const { reservation } = change;
+          this.emit("sim.reservation.created", {
+            reservationId: reservation.id,
+            guestId: reservation.guestId,
+            party: reservation.party,
+            partySize: 1 + reservation.companionIds.length,
+            arrivalTick: reservation.arrivalTick,
+            departureTick: reservation.departureTick,
+            rate: reservation.rate,
+            nights: reservation.nights,
+            revenue: reservationRevenue(reservation),
+            overbooked: change.overbooked,
+            ...(reservation.vip && { vip: true }),
+          });
+          break;
+        }
+        case 'RESERVATION_STATUS':
+          this.emit("sim.reservation.status.changed", {
+            reservationId: change.reservation.id,
+            guestId: change.reservation.guestId,
+            status: change.reservation.status,
+            previousStatus: change.previousStatus,
+            ...(change.reservation.roomId && { roomId: change.reservation.roomId }),
+          });
+          break;
+        case 'ROOM_STATUS':
+          this.emit("sim.room.status.changed", {
+            roomId: change.roomId,
+            roomName: this.state.rooms.find((room) => room.id === change.roomId)?.name ?? change.roomId,
+            status: change.status,
+            previousStatus: change.previousStatus,
+            previousStatusTicks: change.previousStatusTicks,
+          });
+          break;
+      }
+    });
+  }
+
+  private emitTicketChanges(changes: TicketChange[]) {
+    changes.forEach(({ ticket, previousStatus }) => {
+      this.emit("sim.ticket.status.changed", {
+        ticketId: ticket.id,
+        kind: ticket.kind,
+        roomId: ticket.roomId,
+        status: ticket.status,
+        ...(previousStatus && { previousStatus }),
+        ...(ticket.assignedTo && { assignedTo: ticket.assignedTo }),
+        ...(ticket.resolvedAt !== undefined && { resolutionTicks: ticket.resolvedAt - ticket.createdAt }),
+      });
+    });
+  }
+
+  private emitDispatchChanges(changes: JobChange[]) {
+    const { strategy } = this.state.dispatcher;
+    changes.forEach(({ job, previousStatus }) => {
+      this.emit("sim.dispatch.job.changed", {
+        jobId: job.id,
+        kind: job.kind,
+        status: job.status,
+        strategy,
+        ...(previousStatus && { previousStatus }),
+        ...(job.assignedTo && { agentId: job.assignedTo }),
+        ...(job.status === 'ASSIGNED' && job.assignedAt !== undefined && {
+          latencyTicks: job.assignedAt - job.createdAt,
+          attempt: job.attempts,
+        }),
+        ...(job.status === 'COMPLETED' && { completionTicks: this.state.tick - job.createdAt }),
+      });
+    });
+  }
+
+  private emitMoodChanges(changes: MoodChange[]) {
+    changes.forEach(({ agent, previousMood }) => {
+      this.emit("sim.agent.mood.changed", {
+        agentId: agent.id,
+        agentRole: agent.role,
+        mood: agent.mood,
+        previousMood,
+        score: Math.round(agent.moodScore ?? 0),
+        ...(agent.battery !== undefined && { battery: Math.round(agent.battery) }),
+      });
+    });
+  }
+
+  private emitIncidentChanges(changes: IncidentChange[]) {
+    changes.forEach(({ incident, kind }) => {
+      const report = reportIncident(incident, this.state.tick);
+      const base = { incidentId: incident.id, kind: incident.kind, roomId: incident.roomId };
+      switch (kind) {
+        case 'STARTED': {
+          const room = this.state.rooms.find((r) => r.id === incident.roomId);
+          const floor = floorOf(incident.origin);
+          this.emit("sim.incident.started", {
+            ...base,
+            roomName: room?.name ?? incident.roomId,
+            ...(floor > 0 && { floor }),
+            ...(isEvacuation(incident)
+              ? {
+                evacuees: incident.evacuees.length,
+                guides: this.state.agents.filter((a) => a.incident?.incidentId === incident.id && a.incident.role === 'GUIDE').length,
+              }
+              : { patientId: incident.patientId, responders: incident.responders }),
+          });
+          break;
+        }
+        case 'EVACUATED':
+          this.emit("sim.incident.evacuated", {
+            ...base,
+            evacuationTicks: report.evacuationTicks,
+            evacuees: report.evacuees,
+            avgEgressTicks: Math.round(report.avgEgressTicks * 10) / 10,
+            guided: report.guided,
+            stragglers: report.stragglers.length,
+            stragglerIds: report.stragglers,
+            congestion: report.congestion.slice(0, 3),
+          });
+          break;
+        case 'RESOLVED':
+          this.emit("sim.incident.resolved", {
+            ...base,
+            resolution: incident.resolution,
+            durationTicks: report.elapsedTicks,
+            ...(isEvacuation(incident)
+              ? { evacuees: report.evacuees, evacuated: report.evacuated, stragglers: report.stragglers.length }
+              : {
+                patientId: incident.patientId,
+                responders: incident.responders,
+                ...(report.responseTicks !== undefined && { responseTicks: report.responseTicks }),
+              }),
+          });
+          break;
+      }
+    });
+  }
+
+  private emitGuestStageChanges(changes: GuestStageChange[]) {
+    changes.forEach((change) => {
+      this.emit("sim.guest.stage.changed", { ...change });
+    });
+  }
+
+  private emitOccupancyChanges(rooms: Room[]) {
+    const { agents } = this.state;
+    rooms.forEach((room) => {
+      const occupancy = countRoomOccupancy(room, agents);
+      const booked = countBookings(room);
+      // Only emit if the head count or the booking actually changed
+      const last = this.lastOccupancy.get(room.id);
+      if (last?.occupancy !== occupancy || last.booked !== booked) {
+        this.lastOccupancy.set(room.id, { occupancy, booked });
+        this.emit("sim.room.occupancy.changed", {
+          roomId: room.id,
+          roomName: room.name,
+          occupancy,
+          booked,
+          guestIds: room.assignedGuests ?? [],
+        });
+      }
+    });
+  }
+}
@@ -0,0 +1,108 @@
+/* ---------------------------- Snapshots ---------------------------- */
+
+// A complete, versioned JSON picture of a running simulation: the world state
+// (grid, rooms, agents with their targets and routes, SeedCore state with its
+// logs, tickets, bookings, ...) plus what the engine keeps beside it (RNG
+// position, event counters, change detection). Restoring one resumes the run
+// exactly: ticking on from a snapshot gives the same events as never stopping.
+
+import type { SimulationState } from "./simulationEngine";
+import type { SchedulePeriod } from "./schedule";
+import { DEFAULT_LAYOUT } from "./layout";
+import { createIncidentLog } from "./incidents";
+
+export const SNAPSHOT_FORMAT = 'seedcore-hotel-snapshot';
+export const SNAPSHOT_VERSION = 5;
+
+export interface EngineSnapshot {
+  rngState: number;
+  eventCounts: Record<string, number>;
+  resolvedEscalations: number;
+  lastOccupancy: Record<string, { occupancy: number; booked: number }>; // Room id -> last reported
+  occupancyCheckInterval: number;
+  schedule: SchedulePeriod[];
+}
+
+export interface SimulationSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number;
+  seed: number;
+  tick: number;
+  state: SimulationState;
+  engine: EngineSnapshot;
+}
+
+// Upgrades from each older version to the next, keyed by the version they upgrade from
+const MIGRATIONS: Record<number, (snapshot: Record<string, unknown>) => Record<string, unknown>> = {
+  // v2 keeps the layout's semantic zones in state; v1 runs were all in the Grand Atrium
+  1: (snapshot) => ({ ...snapshot, state: { ...(snapshot.state as object), zones: DEFAULT_LAYOUT.zones } }),
+  // v3 adds upper floors and elevators; earlier hotels had a single floor
+  2: (snapshot) => {
+    const state = snapshot.state as Record<string, unknown>;
+    return { ...snapshot, state: { ...state, floors: [state.grid], elevators: [] } };
+  },
+  // v4 adds the incident log; nothing had gone wrong before
+  3: (snapshot) => ({ ...snapshot, state: { ...(snapshot.state as object), incidents: createIncidentLog() } }),
+  // v5 adds the script of scenario inputs
+  4: (snapshot) => ({ ...snapshot, state: { ...(snapshot.state as object), script: [] } }),
+};
+
+// Top-level SimulationState fields a snapshot can't do without
+const REQUIRED_STATE_KEYS: Array<keyof SimulationState> = [
+  'seed', 'tick', 'width', 'height', 'grid', 'floors', 'elevators', 'rooms', 'zones', 'agents', 'escalations', 'guestFlow',
+  'reservations', 'housekeeping', 'tickets', 'guestServices', 'dispatcher', 'crowd', 'incidents', 'script', 'coreState',
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Serializes a snapshot for download or a file */
+export const serializeSnapshot = (snapshot: SimulationSnapshot) => JSON.stringify(snapshot);
+
+/**
+ * Reads a snapshot from JSON text (or an already parsed value), upgrading
+ * older versions. Throws with a readable message when it isn't one.
+ */
+export const parseSnapshot = (input: string | unknown): SimulationSnapshot => {
+  let raw: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch (error) {
+      throw new Error(`Snapshot is not valid JSON: ${(error as Error).message}`);
+    }
+  }
+  if (!isObject(raw) || raw.format !== SNAPSHOT_FORMAT) {
+    throw new Error(`Not a simulation snapshot (expected format "${SNAPSHOT_FORMAT}")`);
+  }
+
+  let snapshot = raw;
+  let version = Number(snapshot.version);
+  if (!Number.isInteger(version) || version < 1 || version > SNAPSHOT_VERSION) {
+    throw new Error(`Unsupported snapshot version ${String(snapshot.version)} (this build reads up to ${SNAPSHOT_VERSION})`);
+  }
+  while (version < SNAPSHOT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No upgrade from snapshot version ${version}`);
+    snapshot = { ...migrate(snapshot), version: ++version };
+  }
+
+  const { state, engine } = snapshot;
+  if (!isObject(state) || !isObject(engine)) {
+    throw new Error('Snapshot is missing its state or engine section');
+  }
+  const missing = REQUIRED_STATE_KEYS.filter((key) => state[key] === undefined);
+  if (missing.length > 0) {
+    throw new Error(`Snapshot state is missing ${missing.join(', ')}`);
+  }
+  const fitsSize = (grid: unknown) =>
+    Array.isArray(grid) && grid.length === state.height && grid.every((row) => Array.isArray(row) && row.length === state.width);
+  if (!fitsSize(state.grid) || !Array.isArray(state.floors) || !state.floors.every(fitsSize)) {
+    throw new Error(`Snapshot grid does not match its ${String(state.width)}x${String(state.height)} size`);
+  }
+  if (typeof engine.rngState !== 'number') {
+    throw new Error('Snapshot is missing the RNG state');
+  }
+
+  return snapshot as unknown as SimulationSnapshot;
+};
@@ -0,0 +1,89 @@
+/* ---------------------------- Socializing ---------------------------- */
+
+// Guests lingering in the atrium or the garden strike up conversations with
+// whoever is standing nearby (SOCIALIZING, in clusters of up to five) or stop
+// to watch a robot at work (OBSERVING). Both hold the guest in place until
+// the activity runs out (or an alarm goes off); updateAgentsLogic leaves them
+// standing meanwhile.
+
+import { AgentRole, type Agent, type AgentActivity, type Coordinates, type Room } from "../types";
+import { isRobot } from "../utils/simulationUtils";
+import type { Rng } from "../utils/rng";
+import { floorGap, floorOf } from "./floors";
+
+const CHAT_RADIUS = 3;
+const CHAT_CHANCE = 0.1; // Per tick, per idle guest with someone in reach
+const CHAT_TICKS = { min: 8, spread: 13 };
+const MAX_CLUSTER = 5;
+const WATCH_RADIUS = 4;
+const WATCH_CHANCE = 0.05; // Per tick, per idle guest with a robot in view
+const WATCH_TICKS = { min: 4, spread: 6 };
+
+const manhattan = (a: Coordinates, b: Coordinates) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y) + floorGap(a, b);
+
+const isInside = (pos: Coordinates, room: Room) =>
+  pos.x >= room.topLeft.x && pos.x <= room.bottomRight.x &&
+  pos.y >= room.topLeft.y && pos.y <= room.bottomRight.y &&
+  floorOf(pos) === floorOf(room.topLeft);
+
+const isPublicArea = (room: Room) => room.type === 'LOBBY' || room.type === 'GARDEN';
+
+// Out on a visit and passing the time in a public area (the stop's dwell has started)
+const isLingering = (agent: Agent, publicAreas: Room[]) =>
+  agent.role === AgentRole.GUEST &&
+  !agent.incident &&
+  agent.stay?.stage === 'VISITING' &&
+  agent.stay.stageUntil !== undefined &&
+  publicAreas.some((room) => isInside(agent.position, room));
+
+export const updateSocializing = (
+  agents: Agent[],
+  rooms: Room[],
+  ctx: { tick: number; rng: Rng }
+): Agent[] => {
+  const { tick, rng } = ctx;
+  const publicAreas = rooms.filter(isPublicArea);
+  const started = new Map<string, AgentActivity>();
+
+  // 1. Conversations and robot-watching run out, or the guest's plans move on
+  let nextAgents = agents.map((agent): Agent => {
+    if (!agent.activity) return agent;
+    if (tick < agent.activity.until && agent.stay?.stage === 'VISITING' && !agent.incident) return agent;
+    return { ...agent, activity: undefined, state: 'PAUSING' };
+  });
+
+  // 2. Idle guests pick up a conversation, or watch a robot go by
+  const idle = nextAgents.filter((a) => !a.activity && isLingering(a, publicAreas));
+  idle.forEach((guest) => {
+    if (started.has(guest.id)) return;
+
+    const nearby = idle.filter((other) =>
+      other.id !== guest.id && !started.has(other.id) && manhattan(other.position, guest.position) <= CHAT_RADIUS
+    );
+    if (nearby.length > 0) {
+      if (rng.next() >= CHAT_CHANCE) return;
+      const until = tick + CHAT_TICKS.min + rng.int(CHAT_TICKS.spread);
+      [guest, ...nearby].slice(0, MAX_CLUSTER).forEach((member) => {
+        started.set(member.id, { kind: 'SOCIALIZING', until, focusId: guest.id });
+      });
+      return;
+    }
+
+    const robot = nextAgents.find((a) =>
+      isRobot(a) && a.state !== 'CHARGING' && manhattan(a.position, guest.position) <= WATCH_RADIUS
+    );
+    if (robot && rng.next() < WATCH_CHANCE) {
+      started.set(guest.id, { kind: 'OBSERVING', until: tick + WATCH_TICKS.min + rng.int(WATCH_TICKS.spread), focusId: robot.id });
+    }
+  });
+
+  if (started.size > 0) {
+    nextAgents = nextAgents.map((agent) => {
+      const activity = started.get(agent.id);
+      return activity
+        ? { ...agent, activity, state: activity.kind, target: agent.position, route: [] }
+        : agent;
+    });
+  }
+  return nextAgents;
+};
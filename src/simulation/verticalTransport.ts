@@ -0,0 +1,200 @@
+/* ---------------------------- Vertical Transport ---------------------------- */
+
+// Moves agents between floors. An agent whose destination is on another floor
+// walks to a connector (see floors.ts); standing on it, it starts a transit
+// here and the movement pass leaves it alone until it steps off. Stairs take
+// a fixed time per floor. Elevators are cars with a capacity that serve their
+// calls SCAN-style: keep going while there are stops ahead, then turn round.
+// Callers queue at the landing in call order, so a busy lift makes a queue;
+// the cars keep wait and queue stats for elevator contention studies.
+
+import type { Agent, Coordinates } from "../types";
+import { isRobot } from "../utils/simulationUtils";
+import { elevatorAt, floorOf, onFloor, stairsLeadTo, type Building, type ElevatorShaft } from "./floors";
+
+export const STAIR_TICKS = 4; // Per floor climbed or descended
+
+export interface ElevatorCall {
+  agentId: string;
+  from: number;
+  to: number;
+  since: number; // Tick the call was made
+}
+
+export interface ElevatorCar extends ElevatorShaft {
+  floor: number;
+  direction: -1 | 0 | 1; // 0 when idle
+  progress: number; // Ticks until the car reaches the next floor
+  riders: Array<{ agentId: string; to: number }>;
+  calls: ElevatorCall[]; // Waiting at the landings, oldest first
+  rides: number;
+  totalWaitTicks: number; // Call to boarding, over all rides
+  longestWait: number;
+  longestQueue: number;
+}
+
+export interface ElevatorMetrics {
+  cars: number;
+  rides: number;
+  avgWaitTicks: number;
+  longestWait: number;
+  waitingNow: number;
+  longestQueue: number; // Most callers waiting for one car at once
+}
+
+/** Cars for each shaft, parked empty on their lowest floor */
+export const createElevatorCars = (shafts: ElevatorShaft[]): ElevatorCar[] =>
+  shafts.map((shaft) => ({
+    ...shaft,
+    floor: shaft.floors[0],
+    direction: 0,
+    progress: 0,
+    riders: [],
+    calls: [],
+    rides: 0,
+    totalWaitTicks: 0,
+    longestWait: 0,
+    longestQueue: 0,
+  }));
+
+// Where the agent is trying to get to right now
+const destinationOf = (agent: Agent): Coordinates | null => agent.task?.target ?? agent.target;
+
+// Doors open here if a rider gets off or a caller can get on
+const isStop = (car: ElevatorCar) =>
+  car.riders.some((rider) => rider.to === car.floor) ||
+  (car.riders.length < car.capacity && car.calls.some((call) => call.from === car.floor));
+
+// SCAN: carry on while anyone ahead needs the car, otherwise head for the nearest stop
+const chooseDirection = (car: ElevatorCar): ElevatorCar['direction'] => {
+  const stops = [
+    ...car.riders.map((rider) => rider.to),
+    ...car.calls.map((call) => call.from),
+  ].filter((floor) => floor !== car.floor);
+  if (stops.length === 0) return 0;
+  if (car.direction !== 0 && stops.some((floor) => (floor - car.floor) * car.direction > 0)) return car.direction;
+  const nearest = stops.reduce((best, floor) => (Math.abs(floor - car.floor) < Math.abs(best - car.floor) ? floor : best));
+  return nearest > car.floor ? 1 : -1;
+};
+
+/**
+ * Runs before movement: starts and finishes stair climbs, registers elevator
+ * calls from agents standing at a landing, and runs every car one tick.
+ * Callers step away from lifts the building no longer lists (out of service
+ * in an evacuation); with `halted` (a power cut) the cars stand still and
+ * their riders stay in them.
+ */
+export const updateVerticalTransport = (
+  agents: Agent[],
+  elevators: ElevatorCar[],
+  ctx: { tick: number; building: Building; halted?: boolean }
+): { agents: Agent[]; elevators: ElevatorCar[] } => {
+  const { tick, building } = ctx;
+  if (building.floors.length < 2) return { agents, elevators };
+
+  const cars = elevators.map((car) => ({ ...car, riders: [...car.riders], calls: [...car.calls] }));
+  const carById = new Map(cars.map((car) => [car.id, car]));
+
+  // 1. Agents: finish climbs, drop calls no longer needed, start new transits
+  const stepped = agents.map((agent): Agent => {
+    const { transit } = agent;
+    if (transit?.via === 'STAIRS') {
+      if (tick < (transit.until ?? tick)) return agent;
+      const position = onFloor(agent.position, transit.to);
+      return { ...agent, position, previousPosition: position, route: undefined, state: 'WALKING', transit: undefined };
+    }
+
+    const goal = destinationOf(agent);
+    const floor = floorOf(agent.position);
+    if (transit?.via === 'ELEVATOR') {
+      const inService = building.elevators.some((shaft) => shaft.id === transit.elevatorId);
+      if (transit.boarded || (inService && goal && floorOf(goal) !== floor)) return agent;
+      // Plans changed while waiting at the landing, or the lift is out of service: step away
+      const car = carById.get(transit.elevatorId ?? '');
+      if (car) car.calls = car.calls.filter((call) => call.agentId !== agent.id);
+      return { ...agent, transit: undefined };
+    }
+
+    if (!goal || floorOf(goal) === floor || agent.state === 'CHARGING') return agent;
+    const to = floorOf(goal);
+    const next = floor + Math.sign(to - floor);
+    if (!isRobot(agent) && stairsLeadTo(building, agent.position, next)) {
+      return { ...agent, state: 'PAUSING', route: [], transit: { via: 'STAIRS', to: next, until: tick + STAIR_TICKS } };
+    }
+    const shaft = elevatorAt(building, agent.position, to);
+    const car = shaft && carById.get(shaft.id);
+    if (!car) return agent;
+    car.calls.push({ agentId: agent.id, from: floor, to, since: tick });
+    car.longestQueue = Math.max(car.longestQueue, car.calls.length);
+    return { ...agent, state: 'PAUSING', route: [], transit: { via: 'ELEVATOR', to, elevatorId: car.id } };
+  });
+
+  // 2. Cars: travel, then at a floor let riders off and callers on and pick a direction
+  const arrived = new Map<string, Coordinates>(); // Agent id -> landing they step out on
+  const boarded = new Set<string>();
+  cars.forEach((car) => {
+    if (ctx.halted) return;
+    if (car.progress > 0) {
+      car.progress--;
+      if (car.progress > 0) return;
+      car.floor += car.direction;
+      if (!isStop(car) && chooseDirection(car) === car.direction) {
+        car.progress = car.ticksPerFloor; // Passing through
+        return;
+      }
+    }
+
+    car.riders = car.riders.filter((rider) => {
+      if (rider.to !== car.floor) return true;
+      arrived.set(rider.agentId, onFloor(car, car.floor));
+      return false;
+    });
+    car.calls = car.calls.filter((call) => {
+      if (call.from !== car.floor || car.riders.length >= car.capacity) return true;
+      const wait = tick - call.since;
+      car.riders.push({ agentId: call.agentId, to: call.to });
+      car.rides++;
+      car.totalWaitTicks += wait;
+      car.longestWait = Math.max(car.longestWait, wait);
+      boarded.add(call.agentId);
+      return false;
+    });
+
+    car.direction = chooseDirection(car);
+    car.progress = car.direction !== 0 ? car.ticksPerFloor : 0;
+  });
+
+  // 3. Riders travel with their car; arrivals step out onto the landing
+  const riding = new Map<string, ElevatorCar>();
+  cars.forEach((car) => car.riders.forEach((rider) => riding.set(rider.agentId, car)));
+  const moved = stepped.map((agent): Agent => {
+    const landing = arrived.get(agent.id);
+    if (landing) {
+      return { ...agent, position: landing, previousPosition: landing, route: undefined, state: 'WALKING', transit: undefined };
+    }
+    const car = riding.get(agent.id);
+    if (!car || !agent.transit) return agent;
+    const position = onFloor(car, car.floor);
+    return {
+      ...agent,
+      position,
+      previousPosition: position,
+      transit: boarded.has(agent.id) ? { ...agent.transit, boarded: true } : agent.transit,
+    };
+  });
+
+  return { agents: moved, elevators: cars };
+};
+
+export const getElevatorMetrics = (elevators: ElevatorCar[]): ElevatorMetrics => {
+  const rides = elevators.reduce((sum, car) => sum + car.rides, 0);
+  const totalWaitTicks = elevators.reduce((sum, car) => sum + car.totalWaitTicks, 0);
+  return {
+    cars: elevators.length,
+    rides,
+    avgWaitTicks: rides > 0 ? totalWaitTicks / rides : 0,
+    longestWait: Math.max(0, ...elevators.map((car) => car.longestWait)),
+    waitingNow: elevators.reduce((sum, car) => sum + car.calls.length, 0),
+    longestQueue: Math.max(0, ...elevators.map((car) => car.longestQueue)),
+  };
+};
@@ -12,6 +12,8 @@ export const EntityType = {
   ROOM_DOOR: 'ROOM_DOOR',
   ROOM_FURNITURE: 'ROOM_FURNITURE',
   SERVICE_HUB: 'SERVICE_HUB', // New: Robotic docking/prep area
+  STAIRS: 'STAIRS', // Links to the same tile on the floor above or below
+  ELEVATOR: 'ELEVATOR', // Lift landing; the shaft links every floor it serves
 } as const;
 
 export type EntityType = typeof EntityType[keyof typeof EntityType];
@@ -29,6 +31,68 @@ export type AgentRole = typeof AgentRole[keyof typeof AgentRole];
 export interface Coordinates {
   x: number;
   y: number;
+  floor?: number; // Absent on the ground floor
+}
+
+export interface AgentTask {
+  id: string;
+  kind: 'TEND_GARDEN' | 'DESK_SHIFT' | 'ESCALATION' | 'HOUSEKEEPING' | 'SERVICE_TICKET' | 'ROOM_SERVICE' | 'GUEST_ASSIST';
+  target: Coordinates;
+  duration: number; // Ticks spent SERVICING once on site
+  remaining?: number;
+}
+
+export interface StaffShift {
+  start: number; // Hour of day, shifts may wrap past midnight
+  end: number;
+}
+
+export type GuestStage = 'QUEUEING' | 'CHECKING_IN' | 'IN_ROOM' | 'VISITING' | 'CHECKING_OUT' | 'DEPARTING';
+
+export type GuestStop = 'LOBBY' | 'GARDEN';
+
+export type PartyKind = 'SOLO' | 'COUPLE' | 'FAMILY' | 'BUSINESS';
+
+export interface GuestParty {
+  id: string; // The reservation id
+  kind: PartyKind;
+  leaderId: string; // Queues, checks in and picks destinations; companions follow
+}
+
+export interface AgentActivity {
+  kind: 'SOCIALIZING' | 'OBSERVING';
+  until: number; // Tick
+  focusId: string; // Conversation (initiator's id) or the robot being watched
+}
+
+export interface GuestStay {
+  stage: GuestStage;
+  roomId?: string; // Assigned suite, set at check-in
+  waypoint?: Coordinates; // Fixed spot for the queue, checkout and exit stages
+  stops: GuestStop[]; // Remaining VISITING itinerary, current stop first
+  stageUntil?: number; // Tick the timed part of the current stage ends
+  arrivedAt: number; // Tick
+  checkedInAt?: number;
+  reservationId?: string;
+  departureTick?: number; // Booked departure; the guest checks out after their next outing
+  party?: GuestParty; // Absent for guests travelling alone
+}
+
+export interface FloorTransit {
+  via: 'STAIRS' | 'ELEVATOR';
+  to: number; // Floor
+  until?: number; // Stairs: tick the climb ends
+  elevatorId?: string;
+  boarded?: boolean; // Elevator: in the car rather than waiting at the landing
+}
+
+export interface IncidentDuty {
+  incidentId: string;
+  role: 'EVACUEE' | 'GUIDE' | 'PATIENT' | 'RESPONDER';
+  goal: Coordinates; // Exit, the evacuee being fetched, or the patient's side
+  from: number; // Tick the agent starts moving (when the alarm registers)
+  outAt?: number; // Evacuees: tick they reached an exit
+  fetching?: string; // Guides: the evacuee they are heading for
 }
 
 export interface Agent {
@@ -37,16 +101,36 @@ export interface Agent {
   position: Coordinates;
   previousPosition?: Coordinates; // New: For calculating facing direction
   target: Coordinates | null;
+  route?: Coordinates[]; // Cached A* steps toward target (next step first)
   state: 'SOCIALIZING' | 'WALKING' | 'PAUSING' | 'OBSERVING' | 'SERVICING' | 'CHARGING';
   mood: string;
+  moodScore?: number; // 0-100 behind the mood label (guest satisfaction, robot status)
+  battery?: number; // 0-100, robots only
+  task?: AgentTask; // Current assignment; SERVICING while on site
+  shift?: StaffShift; // Staff only
+  stay?: GuestStay; // Guests only
+  waiting?: { tile: Coordinates; ticks: number }; // Blocked by a full tile on the way
+  activity?: AgentActivity; // Guests only: standing to chat or watch
+  transit?: FloorTransit; // Changing floors; the movement pass leaves the agent alone
+  incident?: IncidentDuty; // Caught up in an incident; overrides everything else until the all clear
 }
 
+export const RoomStatus = {
+  VACANT_CLEAN: 'VACANT_CLEAN',
+  VACANT_DIRTY: 'VACANT_DIRTY',
+  OCCUPIED: 'OCCUPIED',
+  OUT_OF_ORDER: 'OUT_OF_ORDER',
+} as const;
+
+export type RoomStatus = typeof RoomStatus[keyof typeof RoomStatus];
+
 export interface Room {
   id: string;
   name: string;
   type: 'SUITE' | 'LOBBY' | 'GARDEN' | 'SERVICE';
-  topLeft: Coordinates;
+  topLeft: Coordinates; // Carries the room's floor
   bottomRight: Coordinates;
+  assignedGuests?: string[]; // Guest ids checked in to this room
 }
 
 export const SeedCorePlane = {
@@ -68,6 +152,7 @@ export interface SeedCoreLog {
 
 export interface SeedCoreState {
   activeAtmosphere: 'MORNING_LIGHT' | 'GOLDEN_HOUR' | 'EVENING_CHIC' | 'MIDNIGHT_LOUNGE';
+  atmosphereOverride?: boolean; // Set by the Director; otherwise the atmosphere follows the clock
   logs: SeedCoreLog[];
   timeOfDay: number;
 }
@@ -0,0 +1,174 @@
+import type { Coordinates } from "../types";
+
+export type PassableFn = (x: number, y: number) => boolean;
+
+// 4-connected moves, matching the single-axis steps agents take on the grid
+const NEIGHBOR_OFFSETS = [
+  { x: 0, y: -1 },
+  { x: 1, y: 0 },
+  { x: 0, y: 1 },
+  { x: -1, y: 0 },
+];
+
+const manhattan = (ax: number, ay: number, bx: number, by: number) =>
+  Math.abs(ax - bx) + Math.abs(ay - by);
+
+/* ---------------------------- Min-Heap (open set) ---------------------------- */
+
+// Binary heap keyed on f-score, ties broken on h-score so paths hug the goal
+class OpenSet {
+  private nodes: number[] = [];
+  private f: Float64Array;
+  private h: Float64Array;
+
+  constructor(f: Float64Array, h: Float64Array) {
+    this.f = f;
+    this.h = h;
+  }
+
+  get size() {
+    return this.nodes.length;
+  }
+
+  private less(a: number, b: number) {
+    const fa = this.f[a];
+    const fb = this.f[b];
+    if (fa !== fb) return fa < fb;
+    return this.h[a] < this.h[b];
+  }
+
+  push(node: number) {
+    const nodes = this.nodes;
+    nodes.push(node);
+    let i = nodes.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.less(nodes[i], nodes[parent])) break;
+      [nodes[i], nodes[parent]] = [nodes[parent], nodes[i]];
+      i = parent;
+    }
+  }
+
+  pop(): number {
+    const nodes = this.nodes;
+    const top = nodes[0];
+    const last = nodes.pop()!;
+    if (nodes.length > 0) {
+      nodes[0] = last;
+      let i = 0;
+      for (;;) {
+        const l = i * 2 + 1;
+        const r = l + 1;
+        let smallest = i;
+        if (l < nodes.length && this.less(nodes[l], nodes[smallest])) smallest = l;
+        if (r < nodes.length && this.less(nodes[r], nodes[smallest])) smallest = r;
+        if (smallest === i) break;
+        [nodes[i], nodes[smallest]] = [nodes[smallest], nodes[i]];
+        i = smallest;
+      }
+    }
+    return top;
+  }
+}
+
+/* ---------------------------------- A* ---------------------------------- */
+
+/**
+ * Finds the shortest 4-connected route from `start` to `goal`.
+ * Returns the steps to take (excluding `start`, including `goal`),
+ * an empty array when already there, or null when the goal is unreachable.
+ */
+export const findPath = (
+  width: number,
+  height: number,
+  start: Coordinates,
+  goal: Coordinates,
+  isPassable: PassableFn
+): Coordinates[] | null => {
+  if (start.x === goal.x && start.y === goal.y) return [];
+  if (!isPassable(goal.x, goal.y)) return null;
+
+  const size = width * height;
+  const toIndex = (x: number, y: number) => y * width + x;
+  const startIdx = toIndex(start.x, start.y);
+  const goalIdx = toIndex(goal.x, goal.y);
+
+  const g = new Float64Array(size).fill(Infinity);
+  const f = new Float64Array(size).fill(Infinity);
+  const h = new Float64Array(size);
+  const cameFrom = new Int32Array(size).fill(-1);
+  const closed = new Uint8Array(size);
+
+  g[startIdx] = 0;
+  h[startIdx] = manhattan(start.x, start.y, goal.x, goal.y);
+  f[startIdx] = h[startIdx];
+
+  const open = new OpenSet(f, h);
+  open.push(startIdx);
+
+  while (open.size > 0) {
+    const current = open.pop();
+    if (current === goalIdx) break;
+    if (closed[current]) continue; // Stale heap entry
+    closed[current] = 1;
+
+    const cx = current % width;
+    const cy = Math.floor(current / width);
+
+    for (const offset of NEIGHBOR_OFFSETS) {
+      const nx = cx + offset.x;
+      const ny = cy + offset.y;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = toIndex(nx, ny);
+      if (closed[next] || !isPassable(nx, ny)) continue;
+
+      const tentative = g[current] + 1;
+      if (tentative < g[next]) {
+        cameFrom[next] = current;
+        g[next] = tentative;
+        h[next] = manhattan(nx, ny, goal.x, goal.y);
+        f[next] = tentative + h[next];
+        open.push(next);
+      }
+    }
+  }
+
+  if (cameFrom[goalIdx] === -1) return null;
+
+  const path: Coordinates[] = [];
+  for (let node = goalIdx; node !== startIdx; node = cameFrom[node]) {
+    path.push({ x: node % width, y: Math.floor(node / width) });
+  }
+  return path.reverse();
+};
+
+/* ---------------------------- Flood Fill ---------------------------- */
+
+/** Every tile reachable from `start` (inclusive), as a set of `y * width + x` indices */
+export const findReachableTiles = (
+  width: number,
+  height: number,
+  start: Coordinates,
+  isPassable: PassableFn
+): Set<number> => {
+  const reached = new Set<number>();
+  if (!isPassable(start.x, start.y)) return reached;
+
+  const stack = [start.y * width + start.x];
+  reached.add(stack[0]);
+  while (stack.length > 0) {
+    const current = stack.pop()!;
+    const cx = current % width;
+    const cy = Math.floor(current / width);
+    for (const offset of NEIGHBOR_OFFSETS) {
+      const nx = cx + offset.x;
+      const ny = cy + offset.y;
+      if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+      const next = ny * width + nx;
+      if (reached.has(next) || !isPassable(nx, ny)) continue;
+      reached.add(next);
+      stack.push(next);
+    }
+  }
+  return reached;
+};
@@ -0,0 +1,63 @@
+/* ---------------------------- Seeded Simulation RNG ---------------------------- */
+
+// Every random decision in the simulation goes through an Rng so a run can be
+// replayed exactly from its seed. Never call Math.random() from sim code.
+
+export interface Rng {
+  readonly seed: number;
+  /** Float in [0, 1), drop-in replacement for Math.random() */
+  next(): number;
+  /** Integer in [0, maxExclusive) */
+  int(maxExclusive: number): number;
+  /** Uniformly picks one element; undefined for an empty list */
+  pick<T>(items: readonly T[]): T | undefined;
+  /** Internal generator state (for snapshots) */
+  getState(): number;
+  setState(state: number): void;
+}
+
+// mulberry32: tiny, fast and good enough for agent behaviour
+export const createRng = (seed: number, state: number = seed): Rng => {
+  let s = state >>> 0;
+
+  const next = () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+
+  return {
+    seed: seed >>> 0,
+    next,
+    int: (maxExclusive: number) => Math.floor(next() * maxExclusive),
+    pick: <T>(items: readonly T[]) =>
+      items.length > 0 ? items[Math.floor(next() * items.length)] : undefined,
+    getState: () => s,
+    setState: (value: number) => {
+      s = value >>> 0;
+    },
+  };
+};
+
+// FNV-1a so word seeds like "vip-morning" map to a stable number
+const hashString = (value: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    h ^= value.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** Parses a seed from a URL param / config value. Numeric strings are used as-is. */
+export const parseSeed = (value: string | number | null | undefined): number | null => {
+  if (value === null || value === undefined) return null;
+  if (typeof value === "number") return Number.isFinite(value) ? Math.floor(value) >>> 0 : null;
+
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+  if (/^\d+$/.test(trimmed)) return Number(trimmed) >>> 0;
+  return hashString(trimmed);
+};
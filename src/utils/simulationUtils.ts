@@ -1,17 +1,18 @@
 import { type Room, type Agent, AgentRole, EntityType, type Coordinates } from "../types";
-import { GRID_WIDTH, GRID_HEIGHT } from "../constants";
-
-// --- GLOBAL LAYOUT CONSTANTS (Shared for generation and logic) ---
-const ATRIUM_W = 20;
-const ATRIUM_H = 12;
-const ATRIUM_X = Math.floor(GRID_WIDTH / 2) - Math.floor(ATRIUM_W / 2);
-const ATRIUM_Y = GRID_HEIGHT - ATRIUM_H - 4;
-
-// Semantic Zones for AI Logic
-const ZONES = {
-  LOBBY: { x: ATRIUM_X, y: ATRIUM_Y, w: ATRIUM_W, h: ATRIUM_H },
-  RECEPTION: { x: ATRIUM_X + Math.floor(ATRIUM_W / 2), y: ATRIUM_Y + 2 },
-};
+import { findPath } from "./pathfinding";
+import type { Rng } from "./rng";
+import type { HotelZones } from "../simulation/layout";
+import { getRoleBehavior, type RoleContext } from "../simulation/roleBehaviors";
+import { createTileOccupancy, isBottleneck, PATIENCE_TICKS } from "../simulation/crowding";
+import {
+  findConnectors,
+  floorOf,
+  isConnectorToward,
+  isWalkableAt,
+  onFloor,
+  samePlace,
+  type Building,
+} from "../simulation/floors";
 
 // Define explicitly what agents can walk on
 const WALKABLE = new Set<EntityType>([
@@ -20,14 +21,16 @@ const WALKABLE = new Set<EntityType>([
   EntityType.GARDEN_PATH,
   EntityType.ROOM_DOOR,
   EntityType.RECEPTION_DESK, // Staff can be behind/at desk
-  EntityType.SERVICE_HUB
+  EntityType.SERVICE_HUB,
+  EntityType.STAIRS,
+  EntityType.ELEVATOR
 ]);
 
 // Helper to clamp values within bounds
 const clamp = (v: number, min: number, max: number) =>
   Math.max(min, Math.min(max, v));
 
-const isWalkable = (grid: EntityType[][], x: number, y: number) => {
+export const isWalkable = (grid: EntityType[][], x: number, y: number) => {
   // CRITICAL: Check grid exists and bounds before accessing
   if (
     !grid ||
@@ -38,134 +41,110 @@ const isWalkable = (grid: EntityType[][], x: number, y: number) => {
   return WALKABLE.has(grid[y][x]);
 };
 
-export const generateMap = (width: number, height: number) => {
-  const grid: EntityType[][] = Array(height).fill(null).map(() => Array(width).fill(EntityType.EMPTY));
-  const rooms: Room[] = [];
-
-  const safeSet = (x: number, y: number, type: EntityType) => {
-    if (x >= 0 && x < width && y >= 0 && y < height) {
-      grid[y][x] = type;
-    }
-  };
-
-  // 1. GRAND ATRIUM (Lobby)
-  for (let y = ATRIUM_Y; y < ATRIUM_Y + ATRIUM_H; y++) {
-    for (let x = ATRIUM_X; x < ATRIUM_X + ATRIUM_W; x++) {
-      safeSet(x, y, EntityType.LOBBY_FLOOR);
-    }
-  }
-  // Reception Desk
-  const deskY = ZONES.RECEPTION.y;
-  const deskX = ZONES.RECEPTION.x;
-  safeSet(deskX, deskY, EntityType.RECEPTION_DESK);
-  safeSet(deskX - 1, deskY, EntityType.RECEPTION_DESK);
-  safeSet(deskX + 1, deskY, EntityType.RECEPTION_DESK);
-
-  rooms.push({
-    id: "LOBBY-MAIN",
-    name: "Grand Atrium",
-    type: 'LOBBY',
-    topLeft: { x: ATRIUM_X, y: ATRIUM_Y },
-    bottomRight: { x: ATRIUM_X + ATRIUM_W - 1, y: ATRIUM_Y + ATRIUM_H - 1 }
-  });
-
-  // 2. WINGS GENERATION
-  const createRoom = (id: string, x: number, y: number, w: number, h: number) => {
-    // Walls
-    for (let ry = y; ry < y + h; ry++) {
-      for (let rx = x; rx < x + w; rx++) {
-        if (rx === x || rx === x + w - 1 || ry === y || ry === y + h - 1) {
-           // Door logic: Bottom center of room if above hall, Top center if below
-           const isDoor = (ry === y + h - 1 || ry === y) && rx === x + Math.floor(w/2);
-           if (isDoor) safeSet(rx, ry, EntityType.ROOM_DOOR);
-           else safeSet(rx, ry, EntityType.ROOM_WALL);
-        } else {
-           safeSet(rx, ry, EntityType.ROOM_FLOOR);
-        }
-      }
-    }
-    // Furniture
-    safeSet(x + 1, y + 1, EntityType.ROOM_FURNITURE);
-    rooms.push({ id, name: `Room ${id}`, type: 'SUITE', topLeft: {x,y}, bottomRight: {x:x+w-1, y:y+h-1} });
+/**
+ * A* route over walkable tiles on the current floor: to the target, or when
+ * it is on another floor to the nearest stairs or elevator that leads there
+ * (the vertical transport pass takes over from that tile). Null when the
+ * target is unreachable. Robots don't take the stairs (canClimb false).
+ */
+export const routeTo = (building: Building, from: Coordinates, to: Coordinates, canClimb = true) => {
+  const floor = floorOf(from);
+  const grid = building.floors[floor];
+  if (!grid) return null;
+  const walk = (goal: Coordinates) => {
+    const path = findPath(grid[0].length, grid.length, from, goal, (x, y) => isWalkable(grid, x, y));
+    return path && floor > 0 ? path.map((step) => onFloor(step, floor)) : path;
   };
 
-  // Vertical Wings extending UP from the Atrium sides
-  const westWingX = ATRIUM_X - 2;
-  const eastWingX = ATRIUM_X + ATRIUM_W + 1;
-  const wingHeight = 26; // Adjusted to fit GRID_HEIGHT
-  
-  // West Wing Hallway
-  for(let y = ATRIUM_Y - wingHeight; y < ATRIUM_Y; y++) {
-      safeSet(westWingX, y, EntityType.LOBBY_FLOOR); 
-      safeSet(westWingX - 1, y, EntityType.LOBBY_FLOOR); 
+  if (floorOf(to) === floor) return walk(to);
+  if (!isWalkableAt(building, to)) return null;
+  for (const connector of findConnectors(building, from, floorOf(to), canClimb)) {
+    const path = walk(connector);
+    if (path) return path;
   }
+  return null;
+};
 
-  // East Wing Hallway
-  for(let y = ATRIUM_Y - wingHeight; y < ATRIUM_Y; y++) {
-      safeSet(eastWingX, y, EntityType.LOBBY_FLOOR); 
-      safeSet(eastWingX + 1, y, EntityType.LOBBY_FLOOR); 
-  }
+export const isRobot = (agent: Agent) => agent.role.startsWith('ROBOT_');
 
-  // Generate Rooms along West Wing
-  for(let i=0; i<6; i++) {
-     createRoom(`1${i}A`, westWingX - 6, ATRIUM_Y - 4 - (i*4), 5, 4);
-     createRoom(`1${i}B`, westWingX + 1, ATRIUM_Y - 4 - (i*4), 5, 4);
-  }
+export type RobotActivity = 'WORKING' | 'CHARGING' | 'IDLE';
 
-  // Generate Rooms along East Wing
-  for(let i=0; i<6; i++) {
-     createRoom(`2${i}A`, eastWingX - 5, ATRIUM_Y - 4 - (i*4), 5, 4);
-     createRoom(`2${i}B`, eastWingX + 2, ATRIUM_Y - 4 - (i*4), 5, 4);
-  }
+/**
+ * What a robot is spending this tick on: any task (a dispatched job, a
+ * turnover, tending the garden) or incident duty is work. The metrics
+ * collector's idle share and the experiments' utilisation both count this.
+ */
+export const robotActivity = (agent: Agent): RobotActivity => {
+  if (agent.task || agent.incident) return 'WORKING';
+  return agent.state === 'CHARGING' ? 'CHARGING' : 'IDLE';
+};
 
-  // 3. TOP CONNECTING CORRIDOR
-  const bridgeY = Math.max(0, ATRIUM_Y - wingHeight);
-  for(let x = westWingX; x <= eastWingX; x++) {
-      safeSet(x, bridgeY, EntityType.LOBBY_FLOOR);
-      safeSet(x, bridgeY + 1, EntityType.LOBBY_FLOOR);
-  }
-  // Rooms along the top bridge
-  for(let i=0; i<6; i++) {
-     createRoom(`30${i}`, westWingX + 2 + (i*6), bridgeY - 4, 5, 4);
-  }
+const isAdjacent = (a: Coordinates, b: Coordinates) =>
+  Math.abs(a.x - b.x) + Math.abs(a.y - b.y) === 1 && floorOf(a) === floorOf(b);
+
+// A cached route is usable while it still ends at the target (or at a way to
+// the target's floor) and its next step is open
+const isRouteValid = (
+  building: Building,
+  position: Coordinates,
+  target: Coordinates,
+  route: Coordinates[] | undefined,
+  canClimb: boolean
+): route is Coordinates[] => {
+  if (!route || route.length === 0) return false;
+  const last = route[route.length - 1];
+  const next = route[0];
+  const leadsThere = floorOf(target) === floorOf(position)
+    ? samePlace(last, target)
+    : isConnectorToward(building, last, floorOf(target), canClimb);
+  return leadsThere && isAdjacent(position, next) && isWalkableAt(building, next);
+};
 
-  // 4. GARDEN
-  const gardenX = westWingX + 4;
-  const gardenY = bridgeY + 4;
-  const gardenW = (eastWingX - westWingX) - 6;
-  const gardenH = (ATRIUM_Y - bridgeY) - 6;
-
-  for(let y=gardenY; y<gardenY+gardenH; y++) {
-    for(let x=gardenX; x<gardenX+gardenW; x++) {
-       const r = Math.random();
-       if (r > 0.8) safeSet(x, y, EntityType.GARDEN_PLANT);
-       else if (r > 0.6) safeSet(x, y, EntityType.GARDEN_WATER);
-       else safeSet(x, y, EntityType.GARDEN_PATH);
-    }
-  }
-  rooms.push({
-      id: "GARDEN-MAIN", name: "Central Zen Court", type: 'GARDEN', 
-      topLeft: {x: gardenX, y: gardenY}, bottomRight: {x: gardenX+gardenW, y: gardenY+gardenH}
-  });
+/** How many agents of each role a hotel opens with */
+export type AgentPopulation = Record<AgentRole, number>;
 
-  return { grid, rooms };
+export const DEFAULT_POPULATION: AgentPopulation = {
+  GUEST: 12,
+  ROBOT_CONCIERGE: 2,
+  ROBOT_WAITER: 4,
+  ROBOT_GARDENER: 2,
+  STAFF_HUMAN: 3, // One per desk shift
 };
 
-export const generateAgents = (count: number, width: number, height: number): Agent[] => {
+const STAFF_SHIFTS = [
+  { start: 6, end: 14 },
+  { start: 14, end: 22 },
+  { start: 22, end: 6 },
+];
+
+// Concierges are spread evenly through the robot ids (two in six: R-0 and R-3)
+const isConciergeSlot = (i: number, concierges: number, robots: number) =>
+  Math.floor((i * concierges) / robots) !== Math.floor(((i - 1) * concierges) / robots);
+
+export const generateAgents = (
+  population: AgentPopulation,
+  width: number,
+  height: number,
+  zones: HotelZones,
+  rng: Rng
+): Agent[] => {
   const agents: Agent[] = [];
   
-  // Center of Atrium for spawn calculations
-  const startX = ZONES.RECEPTION.x;
-  const startY = ATRIUM_Y + Math.floor(ATRIUM_H / 2);
+  // Center of the lobby for spawn calculations
+  const lobby = zones.LOBBY;
+  const startX = zones.RECEPTION.x;
+  const startY = lobby.y + Math.floor(lobby.h / 2);
 
-  const guestCount = 12;
-  const robotCount = 6;
+  const guestCount = population.GUEST;
+  const robotCount = population.ROBOT_CONCIERGE + population.ROBOT_WAITER;
+  const gardenerCount = population.ROBOT_GARDENER;
+  const staffShifts = Array.from({ length: population.STAFF_HUMAN }, (_, i) => ({ ...STAFF_SHIFTS[i % STAFF_SHIFTS.length] }));
 
   // Fix 4: Spread Spawn Positions (with bounds clamping)
   for (let i = 0; i < guestCount; i++) {
     // Spread random spawn in lobby area
-    const offsetX = Math.floor((Math.random() * (ATRIUM_W - 4)) - (ATRIUM_W/2 - 2));
-    const offsetY = Math.floor((Math.random() * (ATRIUM_H - 4)) - (ATRIUM_H/2 - 2));
+    const offsetX = Math.floor((rng.next() * (lobby.w - 4)) - (lobby.w/2 - 2));
+    const offsetY = Math.floor((rng.next() * (lobby.h - 4)) - (lobby.h/2 - 2));
     
     // CRITICAL: Clamp positions to grid bounds
     const x = clamp(startX + offsetX, 0, width - 1);
@@ -184,9 +163,9 @@ export const generateAgents = (count: number, width: number, height: number): Ag
 
   for (let i = 0; i < robotCount; i++) {
     // Robots spawn near service points
-    const isConcierge = i % 3 === 0;
-    const spawnX = isConcierge ? ZONES.RECEPTION.x : startX + (Math.random() > 0.5 ? 5 : -5);
-    const spawnY = isConcierge ? ZONES.RECEPTION.y : startY;
+    const isConcierge = isConciergeSlot(i, population.ROBOT_CONCIERGE, robotCount);
+    const spawnX = isConcierge ? zones.RECEPTION.x : startX + (rng.next() > 0.5 ? 5 : -5);
+    const spawnY = isConcierge ? zones.RECEPTION.y : startY;
 
     // CRITICAL: Clamp positions to grid bounds
     const x = clamp(spawnX, 0, width - 1);
@@ -199,106 +178,217 @@ export const generateAgents = (count: number, width: number, height: number): Ag
       previousPosition: { x, y }, // Initialize previousPosition
       target: null,
       state: 'SERVICING',
-      mood: 'Operational'
+      mood: 'Operational',
+      battery: 60 + rng.int(41) // Fleet starts partially charged
     });
   }
 
+  // Gardeners deploy from the service hub and find their way to the Zen Court
+  const hub = zones.SERVICE_HUB;
+  for (let i = 0; i < gardenerCount; i++) {
+    const x = clamp(hub.x + (i % hub.w), 0, width - 1);
+    const y = clamp(hub.y, 0, height - 1);
+
+    agents.push({
+      id: `R-${robotCount + i}`,
+      role: AgentRole.ROBOT_GARDENER,
+      position: { x, y },
+      previousPosition: { x, y },
+      target: null,
+      state: 'WALKING',
+      mood: 'Operational',
+      battery: 60 + rng.int(41)
+    });
+  }
+
+  // Human staff rotate through reception desk shifts, starting in the back office
+  staffShifts.forEach((shift, i) => {
+    const x = clamp(hub.x + (i % hub.w), 0, width - 1);
+    const y = clamp(hub.y + hub.h - 1, 0, height - 1);
+
+    agents.push({
+      id: `S-${i}`,
+      role: AgentRole.STAFF_HUMAN,
+      position: { x, y },
+      previousPosition: { x, y },
+      target: null,
+      state: 'PAUSING',
+      mood: 'Attentive',
+      shift
+    });
+  });
+
   return agents;
 };
 
-export const updateAgentsLogic = (agents: Agent[], grid: EntityType[][]): Agent[] => {
+export const updateAgentsLogic = (
+  agents: Agent[],
+  building: Building,
+  rooms: Room[],
+  zones: HotelZones,
+  rng: Rng,
+  clock: { tick: number; timeOfDay: number }
+): Agent[] => {
+  const grid = building.floors[0];
   // Safety: Validate grid before processing
   if (!grid || !Array.isArray(grid) || grid.length === 0) {
     console.warn("Invalid grid in updateAgentsLogic");
     return agents; // Return agents unchanged if grid is invalid
   }
 
-  return agents.map(agent => {
+  // Fix 1: Explicit Walkability (ground floor unless told otherwise)
+  const isValid = (x: number, y: number, floor = 0) => isWalkable(building.floors[floor], x, y);
+
+  const roleContext: RoleContext = {
+    grid,
+    floors: building.floors,
+    rooms,
+    zones,
+    rng,
+    timeOfDay: clock.timeOfDay,
+    tick: clock.tick,
+    isWalkable: isValid,
+  };
+
+  // Tiles fill up as agents move this tick: later movers see earlier moves
+  const tiles = createTileOccupancy(building.floors, agents);
+
+  return agents.map(({ waiting, ...agent }) => {
     // Safety: Ensure agent has valid position
     if (!agent.position || typeof agent.position.x !== 'number' || typeof agent.position.y !== 'number') {
       console.warn(`Invalid agent position for agent ${agent.id}`);
       return agent; // Return agent unchanged
     }
 
-    let { position, target, state } = agent;
+    // Docked robots stay put until the battery pass releases them
+    if (agent.state === 'CHARGING') return agent;
+
+    // On the stairs or at (or in) an elevator: the vertical transport pass moves them
+    if (agent.transit) return agent;
+
+    // On incident duty: hold until the alarm registers (and once out), otherwise make for the goal
+    const duty = agent.incident;
+    if (duty && (duty.outAt !== undefined || clock.tick < duty.from || samePlace(agent.position, duty.goal))) {
+      return { ...agent, state: 'PAUSING', target: agent.position, route: [] };
+    }
+
+    // Guests chatting or watching a robot stand still until it runs its course
+    if (!duty && agent.activity && clock.tick < agent.activity.until) {
+      return { ...agent, state: agent.activity.kind, target: agent.position, route: [] };
+    }
+
+    // Flat robots can't move until staff answer their escalation
+    if (agent.battery !== undefined && agent.battery <= 0) {
+      return { ...agent, state: 'PAUSING', target: agent.position, route: [] };
+    }
+
+    let { position, target, state, route, task } = agent;
+    const canClimb = !isRobot(agent);
     // Use existing previousPosition if available, otherwise use current position
     const previousPosition = agent.previousPosition ? { ...agent.previousPosition } : { ...position };
 
-    // Fix 1: Explicit Walkability
-    const isValid = (x: number, y: number) => isWalkable(grid, x, y);
+    if (duty) {
+       // The task waits until the all clear
+       target = duty.goal;
+       state = 'WALKING';
+    }
+
+    // TASK LOGIC - on site: service until done; otherwise head for the task
+    if (task && !duty) {
+       if (samePlace(position, task.target)) {
+           const remaining = (task.remaining ?? task.duration) - 1;
+           if (remaining <= 0) {
+               return { ...agent, state: 'PAUSING', task: undefined, target: position, route: [] };
+           }
+           return { ...agent, state: 'SERVICING', task: { ...task, remaining }, target: position, route: [] };
+       }
+       target = task.target;
+       state = 'WALKING';
+    }
 
     // TARGET SELECTION LOGIC
-    if (!target || (position.x === target.x && position.y === target.y)) {
+    if (!duty && (!target || samePlace(position, target))) {
+       const behavior = getRoleBehavior(agent.role);
        let attempts = 0;
        let found = false;
        
        // Small chance to pause
-       if (Math.random() > 0.8) {
-           return { ...agent, state: 'PAUSING', target: position }; 
+       if (rng.next() > 1 - behavior.pauseChance) {
+           return { ...agent, state: 'PAUSING', target: position, route: [] }; 
        }
 
        state = 'WALKING';
 
        while(!found && attempts < 15) {
-          let tx, ty;
-
           // Fix 2: Role-Aware Semantic Targets
-          if (agent.role === AgentRole.ROBOT_CONCIERGE) {
-             // Stay very close to reception
-             tx = ZONES.RECEPTION.x + Math.floor(Math.random() * 6) - 3;
-             ty = ZONES.RECEPTION.y + Math.floor(Math.random() * 4) - 2;
-          } 
-          else if (agent.role === AgentRole.GUEST) {
-             // Guests stick to Lobby or wander to Garden
-             if (Math.random() > 0.2) {
-                 // Lobby Area
-                 tx = ATRIUM_X + 2 + Math.floor(Math.random() * (ATRIUM_W - 4));
-                 ty = ATRIUM_Y + 2 + Math.floor(Math.random() * (ATRIUM_H - 4));
-             } else {
-                 // Garden / Wing Hallways - Pick random point on map and check if walkable
-                 tx = Math.floor(Math.random() * GRID_WIDTH);
-                 ty = Math.floor(Math.random() * GRID_HEIGHT);
-             }
-          } 
-          else {
-             // Waiters/Staff go anywhere walkable
-             tx = Math.floor(Math.random() * GRID_WIDTH);
-             ty = Math.floor(Math.random() * GRID_HEIGHT);
-          }
-
-          if (isValid(tx, ty)) {
-              target = { x: tx, y: ty };
-              found = true;
+          const plan = behavior.chooseNext(agent, roleContext);
+
+          if (plan && isWalkableAt(building, plan.target)) {
+              // Only accept targets we can actually reach
+              const path = routeTo(building, position, plan.target, canClimb);
+              if (path) {
+                  target = plan.target;
+                  route = path;
+                  task = plan.task;
+                  found = true;
+              }
           }
           attempts++;
        }
        
-       // Fallback: stay put if no valid target found
-       if (!found) target = position;
+       // Fallback: stay put if no reachable target found
+       if (!found) {
+           target = position;
+           route = [];
+       } else if (target && samePlace(target, position)) {
+           // Told to hold this spot (e.g. a place in the reception queue)
+           state = 'PAUSING';
+       }
     }
 
-    // MOVEMENT LOGIC
-    if (target && (target.x !== position.x || target.y !== position.y)) {
-       const dx = Math.sign(target.x - position.x);
-       const dy = Math.sign(target.y - position.y);
-       
-       // Fix 3: Unbiased Axis Movement (Try X then Y, or Y then X randomly)
-       const moves = [];
-       if (dx !== 0) moves.push({ x: position.x + dx, y: position.y });
-       if (dy !== 0) moves.push({ x: position.x, y: position.y + dy });
-
-       // Filter blocked moves
-       const validMoves = moves.filter(m => isValid(m.x, m.y));
-
-       if (validMoves.length > 0) {
-           // Randomly pick one of the valid moves to prevent "sliding" artifacts
-           position = validMoves[Math.floor(Math.random() * validMoves.length)];
-       } else {
-           // Path blocked completely? Reset target to find a new path next tick
+    // MOVEMENT LOGIC - follow the cached route, replanning when it goes stale
+    if (target && !samePlace(target, position)) {
+       if (!isRouteValid(building, position, target, route, canClimb)) {
+           route = routeTo(building, position, target, canClimb) ?? undefined;
+       }
+
+       // An empty route here means the agent stands at the stairs or elevator to the target's floor
+       if (route && route.length > 0) {
+           const next = route[0];
+           const waited = waiting?.ticks ?? 0;
+           const floor = floorOf(position);
+           // Head-on with someone heading for this tile: trade places rather than both waiting
+           const swapping = agents.some(other =>
+               other.id !== agent.id &&
+               samePlace(other.position, next) &&
+               !!other.route?.[0] && samePlace(other.route[0], position)
+           );
+           if (tiles.canEnter(next) || swapping || waited >= PATIENCE_TICKS) {
+               // Free, swapping, or out of patience and squeezing past
+               tiles.move(position, next);
+               position = next;
+               route = route.slice(1);
+           } else {
+               // Full: step round it on open floor, otherwise wait in line
+               const sidestep = isBottleneck(building.floors[floor], next)
+                   ? null
+                   : tiles.findSidestep(position, route[route.length - 1], (x, y) => isValid(x, y, floor));
+               if (sidestep) {
+                   tiles.move(position, sidestep);
+                   position = sidestep;
+                   route = undefined; // Replanned from the new tile next tick
+               } else {
+                   return { ...agent, previousPosition, target, route, state, task, waiting: { tile: next, ticks: waited + 1 } };
+               }
+           }
+       } else if (!route) {
+           // Target became unreachable - drop it (and its task) and pick a new one next tick
            target = null;
+           route = undefined;
+           if (!duty) task = undefined;
        }
     }
 
-    return { ...agent, position, previousPosition, target, state };
+    return { ...agent, position, previousPosition, target, route, state, task };
   });
 };
@@ -19,6 +19,21 @@ export function getTheme(atmosphere: string) {
     // Agents
     agentRobot: "#06b6d4", // Cyan-500
     agentHuman: "#fbbf24", // Amber-400
+    agentStaff: "#f472b6", // Pink-400
+    agentGardener: "#34d399", // Emerald-400
+
+    // Mood (guest satisfaction, robot status)
+    moods: {
+      Delighted: "#4ade80", // Green-400
+      Content: "#a3e635", // Lime-400
+      Neutral: "#e2e8f0", // Slate-200
+      Impatient: "#fb923c", // Orange-400
+      Upset: "#ef4444", // Red-500
+      Operational: "#22d3ee", // Cyan-400
+      Busy: "#facc15", // Yellow-400
+      Strained: "#f97316", // Orange-500
+      "Low Power": "#ef4444", // Red-500
+    } as Record<string, string>,
     
     // Text
     text: "rgba(148, 163, 184, 0.8)",
@@ -57,4 +72,24 @@ export function getCoordinates(entity: Room | Agent) {
     
     return { x, y, rotation };
   }
-}
\ No newline at end of file
+}
+
+/** Core colour for an agent's mood; roles without a mood model keep their own colour */
+export function getMoodColor(theme: ReturnType<typeof getTheme>, agent: Agent, fallback: string) {
+  return theme.moods[agent.mood] ?? fallback;
+}
+
+/** Sideways nudge (in tiles) for agents sharing a tile, so they stand side by side */
+export function getTileOffsets(agents: Agent[]) {
+  const byTile = new Map<string, string[]>();
+  agents.forEach((a) => {
+    const key = `${a.position?.x ?? 0},${a.position?.y ?? 0}`;
+    byTile.set(key, [...(byTile.get(key) ?? []), a.id]);
+  });
+
+  const offsets = new Map<string, number>();
+  byTile.forEach((ids) => {
+    ids.forEach((id, i) => offsets.set(id, (i - (ids.length - 1) / 2) * 0.45));
+  });
+  return offsets;
+}
@@ -0,0 +1,22 @@
+/** Formats a fractional hour (e.g. 13.75) as a 24h "HH:MM" clock string */
+export const formatTimeOfDay = (hours: number): string => {
+  const totalMinutes = Math.floor((((hours % 24) + 24) % 24) * 60 + 1e-6);
+  const h = Math.floor(totalMinutes / 60);
+  const m = totalMinutes % 60;
+  return `${String(h).padStart(2, "0")}:${String(m).padStart(2, "0")}`;
+};
+
+/** Parses a 24h "HH:MM" (or "H:MM") clock string into a fractional hour; null when invalid */
+export const parseTimeOfDay = (text: string): number | null => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(text.trim());
+  if (!match) return null;
+  const h = Number(match[1]);
+  const m = Number(match[2]);
+  return h < 24 && m < 60 ? h + m / 60 : null;
+};
+
+/** Ticks until the clock next reads `target` (0 when it already does), wrapping past midnight */
+export const ticksUntil = (timeOfDay: number, target: number, hoursPerTick: number): number => {
+  const hours = (((target - timeOfDay) % 24) + 24) % 24;
+  return Math.ceil(hours / hoursPerTick - 1e-6);
+};